@@ -3,89 +3,641 @@ import {
   Wifi, WifiOff, Activity, Navigation, Settings, 
   ArrowUp, ArrowDown, ArrowLeft, ArrowRight, 
   StopCircle, Play, Pause, RotateCcw, Box, Terminal,
-  Cpu, Thermometer, Wind, MapPin, Gauge
+  Cpu, Thermometer, Wind, MapPin, Gauge, Lock, Eye
 } from 'lucide-react';
-import { api } from './services/api';
-import { TelemetryData, LogEntry, Command } from './types';
+import { RobotTransport, SendOptions } from './services/api';
+import { RobotFleet } from './services/fleet';
+import { EMPTY_TELEMETRY } from './services/telemetry';
+import { TelemetryHistory } from './services/telemetryHistory';
+import { GridTracker } from './services/gridMap';
+import { MissionRunner, loadMissions, saveMissions, newMission } from './services/missions';
+import { SafetyWatchdog, isMotionCommand } from './services/safety';
+import { InputController, loadBindings, saveBindings } from './services/input';
+import { AlertEngine, loadAlertSettings, saveAlertSettings } from './services/alerts';
+import { SessionRecorder } from './services/sessionRecorder';
+import { SessionPlayer } from './services/sessionReplay';
+import { AuditLog } from './services/audit';
+import { JobTracker, loadPlotSize, savePlotSize } from './services/jobs';
+import {
+  loadActiveProfiles, loadProfiles, profileCommands, profilePresets, saveActiveProfiles, saveProfiles
+} from './services/calibration';
+import { loadCredentials, saveCredentials } from './services/control';
+import {
+  JoystickDrive, applyTrim, clampPwm, loadDriveConfig, mixJoystick, removeTrim, saveDriveConfig, MAX_TRIM
+} from './services/drive';
+import { findMismatches } from './services/stateSync';
+import { isKnownCommand } from './services/protocol';
+import {
+  TelemetryData, TelemetryFrame, GridMapState, GridCell, Mission, MissionProgress,
+  CommandRecord, SafetyState, InputAction, InputBindings, DriveConfig, RobotProfile, RobotStatus,
+  LogEntry, LogRecord, SessionInfo, ReplayState, Alert, AlertRule, AlertSettings, Command, LinkDiagnostics,
+  AuditEntry, Credentials, JobRecord, PlotSize, CalibrationProfile, RobotSnapshot, RobotState
+} from './types';
+import { createId } from './utils/id';
+import { beep, notify, requestNotificationPermission } from './utils/notify';
+import { loadJson, saveJson } from './utils/storage';
+import {
+  TelemetryCharts, GridMap, MissionPlanner, CommandBadge, CommandStatusPanel, EStopButton, SafetyBanner,
+  InputBindingsEditor, VirtualJoystick, FleetPanel, SessionPanel, AlertBanner, AlertsPanel,
+  EventConsole, ConnectionPanel, OperatorPanel, JobsPanel, CalibrationPanel
+} from './components';
 
-export default function App() {
-  const [connected, setConnected] = useState(false);
-  const [telemetry, setTelemetry] = useState<TelemetryData>({
-    us: null, temp: null, pressure: null, state: '---', pos: null, dir: '---'
+const MAX_COMMAND_RECORDS = 30;
+const MAX_LOG_ENTRIES = 1000;
+const SPEED_INCREMENT = 20;
+
+const MODE_BADGES: Record<RobotState, { label: string, style: string }> = {
+  [RobotState.UNKNOWN]: { label: 'MODE UNKNOWN', style: 'bg-gray-50 text-gray-400 border-gray-200' },
+  [RobotState.IDLE]: { label: 'IDLE', style: 'bg-slate-100 text-slate-600 border-slate-200' },
+  [RobotState.MANUAL]: { label: 'MANUAL MODE', style: 'bg-slate-100 text-slate-600 border-slate-200' },
+  [RobotState.AUTO]: { label: 'AUTO MODE', style: 'bg-green-100 text-green-700 border-green-200' },
+  [RobotState.GOTO]: { label: 'GOTO', style: 'bg-blue-100 text-blue-700 border-blue-200' },
+  [RobotState.ERROR]: { label: 'ERROR', style: 'bg-red-100 text-red-700 border-red-200' },
+};
+
+export default function App({ transport }: { transport?: RobotTransport } = {}) {
+  // Fleet registry; the control panel drives the selected robot
+  const fleet = useInstance(() => new RobotFleet(transport));
+  const [robots, setRobots] = useState<RobotProfile[]>(fleet.current.getRobots());
+  const [fleetStatus, setFleetStatus] = useState<Record<string, RobotStatus>>({});
+  const [selectedId, setSelectedId] = useState<string>(() => {
+    const stored = loadJson<string>('selectedRobot', '');
+    return fleet.current.has(stored) ? stored : fleet.current.getRobots()[0].id;
   });
+  const selectedRef = useRef(selectedId);
+  const currentApi = () => fleet.current.getApi(selectedRef.current);
+
+  const [connected, setConnected] = useState(false);
+  const [telemetry, setTelemetry] = useState<TelemetryData>(EMPTY_TELEMETRY);
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [commands, setCommands] = useState<CommandRecord[]>([]);
+  const [diagnostics, setDiagnostics] = useState<LinkDiagnostics | null>(null);
+
+  // Operator sign-in is shared by the whole fleet; the audit trail spans it
+  const [credentials, setCredentials] = useState<Credentials | null>(loadCredentials);
+  const auditLog = useInstance(() => new AuditLog());
+  const [audit, setAudit] = useState<AuditEntry[]>(auditLog.current.getEntries());
+
+  // Job analytics follow every robot in the fleet, not just the selected one
+  const jobTracker = useInstance(() => new JobTracker());
+  const [jobs, setJobs] = useState<JobRecord[]>(jobTracker.current.getJobs());
+  const [plotSize, setPlotSize] = useState<PlotSize>(loadPlotSize);
+
+  // Telemetry history (latest merged snapshot is kept in a ref so each
+  // recorded frame is complete, not just the fields of the last packet)
+  const history = useInstance(() => new TelemetryHistory());
+  const latestTelemetry = useRef<TelemetryData>(telemetry);
+  const [frames, setFrames] = useState<TelemetryFrame[]>([]);
+  const [retentionMs, setRetentionMs] = useState(history.current.getRetention());
+
+  // Grid map tracking (trail + obstacles)
+  const grid = useInstance(() => new GridTracker());
+  const [gridState, setGridState] = useState<GridMapState>(grid.current.getState());
+
+  // Mission planning & dispatch
+  const missionRunner = useInstance(() => new MissionRunner((cmd) => currentApi().sendCmd(cmd)));
+  const [missions, setMissions] = useState<Mission[]>(loadMissions);
+  const [draftMission, setDraftMission] = useState<Mission>(newMission);
+  const [missionProgress, setMissionProgress] = useState<MissionProgress>(missionRunner.current.getProgress());
+
+  // Dead-man watchdog & emergency stop latch
+  const safety = useInstance(() => new SafetyWatchdog((cmd) => currentApi().sendCmd(cmd)));
+  const [safetyState, setSafetyState] = useState<SafetyState>(safety.current.getState());
+
+  // Alert rules on the selected robot's telemetry and link
+  const alertEngine = useInstance(() => new AlertEngine());
+  const [alerts, setAlerts] = useState<Alert[]>(alertEngine.current.getAlerts());
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(alertEngine.current.getRules());
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(loadAlertSettings);
+
+  // Keyboard & gamepad input
+  const [inputBindings, setInputBindings] = useState<InputBindings>(loadBindings);
+  const input = useInstance(() => new InputController(inputBindings));
+  const [gamepadName, setGamepadName] = useState<string | null>(null);
+
   const [rollerOn, setRollerOn] = useState(false);
   
   // Speed States
-  const [driveSpeed, setDriveSpeed] = useState(140);
-  const [rollerSpeed, setRollerSpeed] = useState(140);
+  const [driveConfig, setDriveConfig] = useState<DriveConfig>(() => loadDriveConfig(selectedId));
+  const [rollerSpeed, setRollerSpeed] = useState<number>(() => loadJson<number>('rollerSpeed', 140));
+  const [sentDrive, setSentDrive] = useState<[number, number] | null>(null);
+
+  // Calibration profiles; the last one applied to each robot is re-sent
+  // when that robot's link comes back
+  const [profiles, setProfiles] = useState<CalibrationProfile[]>(loadProfiles);
+  const [activeProfiles, setActiveProfiles] = useState<Record<string, string>>(loadActiveProfiles);
+  const pendingRestore = useRef(new Set<string>());
 
-  // Joystick hold interval ref
+  // Robots whose next STATUS snapshot should overwrite the local settings:
+  // after a (re)connect or on selection, the robot knows best
+  const pendingAdopt = useRef(new Set<string>());
+
+  // Analog joystick
+  const [joystickMax, setJoystickMax] = useState(200);
+  const lastJoystick = useRef<JoystickDrive | null>(null);
+
+  // Joystick hold interval ref, and whether the hold came from a pointer
+  // or from keyboard/gamepad input
   const holdInterval = useRef<number | null>(null);
+  const holdSource = useRef<'pointer' | 'input' | null>(null);
+
+  // Session recording & replay. While a replay is open the telemetry, log,
+  // chart and map views show the recording instead of the live robot.
+  const recorder = useInstance(() => new SessionRecorder());
+  const player = useInstance(() => new SessionPlayer());
+  const [recording, setRecording] = useState<SessionInfo | null>(null);
+  const [replay, setReplay] = useState<ReplayState | null>(null);
 
-  const addLog = useCallback((type: 'tx' | 'rx' | 'sys', message: string) => {
-    setLogs(prev => [{
-      id: Math.random().toString(36).substr(2, 9),
-      timestamp: new Date().toLocaleTimeString(),
-      type,
-      message
-    }, ...prev].slice(0, 100));
+  const addLog = useCallback((record: LogRecord) => {
+    setLogs(prev => [...prev, { ...record, id: createId() }].slice(-MAX_LOG_ENTRIES));
   }, []);
 
+  // Events raised by the dashboard itself rather than the robot link. They
+  // go into the recording too, so a replay shows why the robot stopped.
+  const logEvent = (message: string, level: LogRecord['level'] = 'info') => {
+    const record: LogRecord = { time: Date.now(), type: 'sys', level, source: 'dashboard', transport: null, message };
+    recorder.current.recordLog(record);
+    addLog(record);
+  };
+
+  // Feeds a telemetry packet into the displayed snapshot, history and map.
+  // Shared by the live robot and session replay.
+  const showTelemetry = (partial: Partial<TelemetryData>, t: number = Date.now()) => {
+    const next = { ...latestTelemetry.current, ...partial };
+    latestTelemetry.current = next;
+    setTelemetry(next);
+    history.current.push(next, t);
+    grid.current.update(next);
+  };
+
+  // Clears the per-robot views, starting from the given telemetry snapshot
+  const resetViews = (base: TelemetryData) => {
+    latestTelemetry.current = base;
+    setTelemetry(base);
+    setLogs([]);
+    history.current.clear();
+    grid.current.reset();
+  };
+
   useEffect(() => {
-    api.onConnectChange = setConnected;
-    api.onLog = (msg) => {
-      // Determine type crudely for color coding
-      const type = msg.startsWith('TX') ? 'tx' : msg.startsWith('RX') ? 'rx' : 'sys';
-      addLog(type, msg.replace(/^(TX|RX|SYS):?\s*/, ''));
+    fleet.current.onChange = (list, status) => {
+      setRobots(list);
+      setFleetStatus(status);
     };
-    api.onTelemetry = (data) => {
-      setTelemetry(prev => ({ ...prev, ...normalizeTelemetry(data) }));
+    fleet.current.onRobotConnectChange = (id, isConnected) => {
+      if (isConnected) {
+        pendingRestore.current.add(id);
+        pendingAdopt.current.add(id);
+      } else {
+        pendingRestore.current.delete(id);
+        pendingAdopt.current.delete(id);
+      }
+      if (id !== selectedRef.current) return;
+      setConnected(isConnected);
+      safety.current.setConnected(isConnected);
+      alertEngine.current.setConnected(isConnected);
+    };
+    // The E-stop latch holds back every robot, not just the selected one
+    // Unchecked console commands may move the robot, so the latch blocks them too
+    fleet.current.setCommandGuard((cmd) =>
+      safety.current.getState().estopLatched && (isMotionCommand(cmd) || !isKnownCommand(cmd)) ? 'Emergency stop latched' : null);
+    history.current.onChange = setFrames;
+    grid.current.onChange = setGridState;
+    missionRunner.current.onChange = setMissionProgress;
+    safety.current.onChange = setSafetyState;
+    safety.current.onTrip = (reason) => {
+      stopHold();
+      if (reason === 'estop') {
+        missionRunner.current.abort();
+        fleet.current.forEachApi((robotApi, id) => {
+          if (id !== selectedRef.current) robotApi.sendCmd(Command.STOP).catch(() => undefined);
+        });
+      } else {
+        missionRunner.current.pause();
+      }
+    };
+    // Safety and mission progress always follow the live robot, even while
+    // the views are showing a replay
+    fleet.current.onRobotTelemetry = (id, partial) => {
+      const live = fleet.current.getStatus()[id].telemetry;
+      const name = fleet.current.getRobots().find(r => r.id === id)?.name ?? id;
+      jobTracker.current.update(id, name, live);
+      if (id !== selectedRef.current) return;
+      safety.current.noteTelemetry();
+      missionRunner.current.update(live);
+      alertEngine.current.update(live);
+      recorder.current.recordTelemetry(partial);
+      if (!player.current.getState()) showTelemetry(partial);
+    };
+    alertEngine.current.onChange = setAlerts;
+    recorder.current.onChange = setRecording;
+    recorder.current.onError = (msg) => logEvent(msg, 'error');
+    player.current.onTelemetry = showTelemetry;
+    player.current.onLog = addLog;
+    player.current.onReset = () => resetViews(EMPTY_TELEMETRY);
+    player.current.onChange = setReplay;
+    input.current.onGamepadChange = setGamepadName;
+    fleet.current.onAudit = (entry) => {
+      auditLog.current.add(entry);
+      if (entry.status === 'confirmed') jobTracker.current.noteCommand(entry.robotId, entry.robotName, entry.cmd, entry.time);
+    };
+    fleet.current.onRobotSnapshot = (id, snapshot) => {
+      if (snapshot?.roller == null) return;
+      const name = fleet.current.getRobots().find(r => r.id === id)?.name ?? id;
+      jobTracker.current.noteRoller(id, name, snapshot.roller, snapshot.at);
+    };
+    jobTracker.current.onChange = setJobs;
+    auditLog.current.onChange = setAudit;
+    fleet.current.setCredentials(credentials);
+    fleet.current.connectAll();
+    safety.current.start();
+    input.current.start();
+    alertEngine.current.start();
+    jobTracker.current.start();
+
+    // A pointerup outside the button (or a cancelled pointer) must still end
+    // a hold, otherwise the repeat keeps the robot moving
+    window.addEventListener('pointerup', releasePointerHold);
+    window.addEventListener('pointercancel', releasePointerHold);
+    return () => {
+      fleet.current.disconnectAll();
+      safety.current.stop();
+      input.current.stop();
+      alertEngine.current.stop();
+      jobTracker.current.stop();
+      recorder.current.stop();
+      player.current.close();
+      window.removeEventListener('pointerup', releasePointerHold);
+      window.removeEventListener('pointercancel', releasePointerHold);
     };
-    api.connect();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const normalizeTelemetry = (d: any): Partial<TelemetryData> => {
-    return {
-      us: d.us ?? d.US,
-      temp: d.temp ?? d.T,
-      pressure: d.pressure ?? d.P,
-      state: d.state ?? d.ST,
-      pos: Array.isArray(d.pos) ? d.pos : null,
-      dir: d.dir ?? d.DIR
+  // Bind command/log callbacks to the selected robot and reset the views
+  // that only make sense for one robot
+  useEffect(() => {
+    const robotApi = fleet.current.getApi(selectedId);
+    robotApi.onCommandUpdate = (record) => {
+      setCommands(prev => {
+        const rest = prev.filter(c => c.id !== record.id);
+        return [record, ...rest].sort((a, b) => b.sentAt - a.sentAt).slice(0, MAX_COMMAND_RECORDS);
+      });
+    };
+    robotApi.onLog = (record) => {
+      recorder.current.recordLog(record);
+      if (!player.current.getState()) addLog(record);
+    };
+    robotApi.onDiagnostics = setDiagnostics;
+    setDiagnostics(robotApi.getDiagnostics());
+
+    const status = fleet.current.getStatus()[selectedId];
+    const isConnected = robotApi.isConnected();
+    latestTelemetry.current = status?.telemetry ?? EMPTY_TELEMETRY;
+    setTelemetry(latestTelemetry.current);
+    setConnected(isConnected);
+    safety.current.resetLink(isConnected);
+    alertEngine.current.reset(latestTelemetry.current, isConnected);
+    setCommands([]);
+    history.current.clear();
+    grid.current.reset();
+    if (isConnected) {
+      pendingAdopt.current.add(selectedId);
+      robotApi.requestStatus();
+    }
+
+    return () => {
+      robotApi.onCommandUpdate = null;
+      robotApi.onLog = null;
+      robotApi.onDiagnostics = null;
     };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedId]);
+
+  // Restore waits for the handshake, and on robots with operator sessions
+  // for this dashboard to hold control, since speed commands need the lock
+  useEffect(() => {
+    pendingRestore.current.forEach(id => {
+      const status = fleetStatus[id];
+      if (!status?.connected || !status.firmware) return;
+      if (status.session && !fleet.current.getApi(id).holdsControl()) return;
+      pendingRestore.current.delete(id);
+      const profile = profiles.find(p => p.id === activeProfiles[id]);
+      if (profile) {
+        // The profile is what we want on the robot, not whatever it had
+        pendingAdopt.current.delete(id);
+        applyProfile(profile, id);
+        logEvent(`Restored profile "${profile.name}" on ${fleet.current.getRobots().find(r => r.id === id)?.name ?? id}`);
+      }
+    });
+
+    const snapshot = fleetStatus[selectedId]?.reported;
+    if (snapshot && pendingAdopt.current.has(selectedId)) {
+      pendingAdopt.current.delete(selectedId);
+      adoptSnapshot(snapshot);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fleetStatus]);
+
+  // Input handlers read current speed/roller state, so rebind every render
+  useEffect(() => {
+    input.current.onDirection = (cmd) => cmd ? startHold(cmd, 'input') : stopHold();
+    input.current.onAction = handleInputAction;
+    input.current.onSpeed = (pwm) => setDriveSpeeds(pwm, pwm);
+  });
+
+  // Alert actions read the current alert settings, so rebind every render
+  useEffect(() => {
+    alertEngine.current.onFire = (alert, rule) => {
+      if (rule.autoStop) {
+        stopHold();
+        missionRunner.current.pause(`Alert "${rule.name}"`);
+        send(Command.STOP);
+        logEvent(`Alert "${rule.name}" sent STOP`, 'warn');
+      }
+      if (alertSettings.notifications) notify(`ArecaBot: ${alert.ruleName}`, alert.message, alert.ruleId);
+    };
+    alertEngine.current.onAlarm = (alert) => {
+      if (!alertSettings.sound) return;
+      if (alert.severity === 'critical') beep(880, 180, 3);
+      else if (alert.severity === 'warning') beep(660, 150, 2);
+    };
+  });
+
+  // HTTP-only links never open a socket, so there is no connection or
+  // telemetry age for the link rules to judge
+  const httpOnly = diagnostics?.mode === 'http';
+  useEffect(() => {
+    alertEngine.current.setStreaming(!httpOnly);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [httpOnly]);
+
+  // Command handlers. Failures surface through the command status badges,
+  // so callers that don't need the outcome can fire and forget.
+  // A STOP from any control also pauses a running mission, so the runner
+  // can't carry on to the next step by itself
+  const send = (cmd: string, options?: SendOptions) => {
+    if (cmd.trim() === Command.STOP) missionRunner.current.interrupt();
+    return currentApi().sendCmd(cmd, options).catch(() => undefined);
+  };
+
+  const updateDriveConfig = (next: DriveConfig) => {
+    setDriveConfig(next);
+    saveDriveConfig(selectedRef.current, next);
   };
 
-  // Command handlers
-  const send = (cmd: string) => api.sendCmd(cmd);
+  // Sends per-motor PWM with the drift trim applied
+  const sendDriveSpeeds = (left: number, right: number, options?: SendOptions, trim: number = driveConfig.trim) => {
+    const [l, r] = applyTrim(left, right, trim);
+    setSentDrive([l, r]);
+    send(`LSPD ${l}`, options);
+    send(`RSPD ${r}`, options);
+  };
+
+  const setDriveSpeeds = (left: number, right: number) => {
+    const next = { ...driveConfig, left: clampPwm(left), right: clampPwm(right) };
+    updateDriveConfig(next);
+    sendDriveSpeeds(next.left, next.right);
+  };
 
   const commitSpeed = (type: 'LSPD' | 'RSPD' | 'ROLLERSPD', val: number) => {
     // Clamp value for robustness
-    const safeVal = Math.min(255, Math.max(0, Math.floor(val)));
+    const safeVal = clampPwm(val);
     
     if (type === 'ROLLERSPD') {
-        setRollerSpeed(safeVal);
+        updateRollerSpeed(safeVal);
         send(`${type} ${safeVal}`);
-    } else {
-        setDriveSpeed(safeVal);
+    } else if (driveConfig.mode === 'linked') {
         // Sync left/right for simple drive speed control
-        send(`LSPD ${safeVal}`);
-        send(`RSPD ${safeVal}`);
+        setDriveSpeeds(safeVal, safeVal);
+    } else {
+        setDriveSpeeds(type === 'LSPD' ? safeVal : driveConfig.left, type === 'RSPD' ? safeVal : driveConfig.right);
+    }
+  };
+
+  // Takes the robot-reported settings as the dashboard's own, for the
+  // fields the robot reported
+  const adoptSnapshot = (snapshot: Pick<RobotSnapshot, 'roller' | 'lspd' | 'rspd' | 'rollerspd'>) => {
+    if (snapshot.roller !== null) setRollerOn(snapshot.roller);
+    if (snapshot.lspd !== null || snapshot.rspd !== null) {
+      const [trimmedL, trimmedR] = applyTrim(driveConfig.left, driveConfig.right, driveConfig.trim);
+      const sent: [number, number] = [snapshot.lspd ?? trimmedL, snapshot.rspd ?? trimmedR];
+      const [left, right] = removeTrim(sent[0], sent[1], driveConfig.trim);
+      setSentDrive(sent);
+      updateDriveConfig({ ...driveConfig, left, right, mode: left === right ? driveConfig.mode : 'independent' });
+    }
+    if (snapshot.rollerspd !== null) updateRollerSpeed(snapshot.rollerspd);
+  };
+
+  const updateRollerSpeed = (pwm: number) => {
+    setRollerSpeed(pwm);
+    saveJson('rollerSpeed', pwm);
+  };
+
+  // Sends a profile's speeds to a robot, with that robot's own trim, and
+  // remembers it as the robot's active profile
+  const applyProfile = (profile: CalibrationProfile, robotId: string = selectedId) => {
+    const selected = robotId === selectedId;
+    const config = selected ? driveConfig : loadDriveConfig(robotId);
+    const [l, r] = applyTrim(profile.left, profile.right, config.trim);
+    const robotApi = fleet.current.getApi(robotId);
+    profileCommands(l, r, profile.roller).forEach(cmd => robotApi.sendCmd(cmd).catch(() => undefined));
+    const next: DriveConfig = {
+      ...config,
+      left: profile.left,
+      right: profile.right,
+      mode: profile.left === profile.right ? config.mode : 'independent'
+    };
+    if (selected) {
+      setSentDrive([l, r]);
+      updateDriveConfig(next);
+      updateRollerSpeed(profile.roller);
+    } else {
+      saveDriveConfig(robotId, next);
     }
+    const active = { ...activeProfiles, [robotId]: profile.id };
+    setActiveProfiles(active);
+    saveActiveProfiles(active);
+  };
+
+  const saveProfile = (profile: CalibrationProfile) => {
+    const exists = profiles.some(p => p.id === profile.id);
+    const next = exists ? profiles.map(p => p.id === profile.id ? profile : p) : [...profiles, profile];
+    setProfiles(next);
+    saveProfiles(next);
+  };
+
+  const deleteProfile = (id: string) => {
+    const next = profiles.filter(p => p.id !== id);
+    setProfiles(next);
+    saveProfiles(next);
+    const active = { ...activeProfiles };
+    Object.keys(active).forEach(robotId => { if (active[robotId] === id) delete active[robotId]; });
+    setActiveProfiles(active);
+    saveActiveProfiles(active);
+  };
+
+  // Wizard test steps go straight to the robot without touching the saved speeds
+  const testCalibration = (kind: 'drive' | 'roller', pwm: number) => {
+    if (kind === 'drive') sendDriveSpeeds(pwm, pwm);
+    else send(`ROLLERSPD ${pwm}`);
+  };
+
+  const changeDriveMode = (mode: DriveConfig['mode']) => {
+    if (mode === driveConfig.mode) return;
+    const next = { ...driveConfig, mode, right: mode === 'linked' ? driveConfig.left : driveConfig.right };
+    updateDriveConfig(next);
+    if (mode === 'linked') sendDriveSpeeds(next.left, next.right);
+  };
+
+  const commitTrim = (trim: number) => {
+    updateDriveConfig({ ...driveConfig, trim });
+    sendDriveSpeeds(driveConfig.left, driveConfig.right, undefined, trim);
+  };
+
+  // Joystick updates stream continuously, so they skip ack retries like
+  // hold-to-move repeats. Speeds go out before the direction command.
+  const handleJoystickMove = (x: number, y: number) => {
+    if (!mayDrive()) return;
+    const drive = mixJoystick(x, y, joystickMax);
+    const prev = lastJoystick.current;
+    lastJoystick.current = drive;
+    if (!drive.cmd) {
+      stopHold();
+      return;
+    }
+    if (!prev || prev.left !== drive.left || prev.right !== drive.right) {
+      sendDriveSpeeds(drive.left, drive.right, { retries: 0 });
+    }
+    if (prev?.cmd !== drive.cmd) startHold(drive.cmd);
+  };
+
+  // Restore the configured speeds so the buttons drive as before
+  const handleJoystickRelease = () => {
+    stopHold();
+    lastJoystick.current = null;
+    sendDriveSpeeds(driveConfig.left, driveConfig.right);
   };
 
   const toggleRoller = () => {
+    if (!mayDrive()) return;
     const newState = !rollerOn;
     setRollerOn(newState);
-    send(newState ? Command.ROLLER_ON : Command.ROLLER_OFF);
+    // Revert the optimistic toggle if the robot never confirms it
+    currentApi().sendCmd(newState ? Command.ROLLER_ON : Command.ROLLER_OFF).catch(() => setRollerOn(!newState));
+  };
+
+  const changeRetention = (ms: number) => {
+    history.current.setRetention(ms);
+    setRetentionMs(ms);
+  };
+
+  // Stop whatever the current robot is doing before handing control over
+  const selectRobot = (id: string) => {
+    if (id === selectedRef.current) return;
+    stopHold();
+    missionRunner.current.abort();
+    recorder.current.stop();
+    if (player.current.getState()) closeReplay();
+    selectedRef.current = id;
+    setSelectedId(id);
+    saveJson('selectedRobot', id);
+    // Speeds and trim belong to the robot; what was sent went to the last one
+    setDriveConfig(loadDriveConfig(id));
+    setSentDrive(null);
+  };
+
+  const signIn = (next: Credentials | null) => {
+    setCredentials(next);
+    saveCredentials(next);
+    fleet.current.setCredentials(next);
+    logEvent(next ? `Signed in as ${next.operator}` : 'Signed out');
   };
 
-  // Hold to move logic
-  const startHold = (cmd: string) => {
-    send(cmd);
+  // The robot link logs the outcome; only refusals need surfacing here
+  const takeControl = () => currentApi().requestControl()
+    .catch(err => logEvent(`Take control failed: ${err?.message ?? err}`, 'warn'));
+
+  const releaseControl = () => currentApi().releaseControl()
+    .catch(err => logEvent(`Release control failed: ${err?.message ?? err}`, 'warn'));
+
+  const changePlotSize = (next: PlotSize) => {
+    setPlotSize(next);
+    savePlotSize(next);
+  };
+
+  const removeRobot = (id: string) => {
+    if (id === selectedRef.current) {
+      const other = robots.find(r => r.id !== id);
+      if (!other) return;
+      selectRobot(other.id);
+    }
+    fleet.current.remove(id);
+  };
+
+  const startRecording = () => {
+    const robot = robots.find(r => r.id === selectedRef.current);
+    if (robot) recorder.current.start(robot);
+  };
+
+  const openReplay = (session: SessionInfo) => {
+    player.current.load(session).catch(err => logEvent(`Replay failed: ${err?.message ?? err}`, 'error'));
+  };
+
+  // Back to live: drop the replayed views and pick up the robot's latest state
+  const closeReplay = () => {
+    player.current.close();
+    resetViews(fleet.current.getStatus()[selectedRef.current]?.telemetry ?? EMPTY_TELEMETRY);
+  };
+
+  const updateAlertRules = (next: AlertRule[]) => {
+    setAlertRules(next);
+    alertEngine.current.setRules(next);
+  };
+
+  const updateAlertSettings = async (next: AlertSettings) => {
+    if (next.notifications && !alertSettings.notifications) {
+      const permission = await requestNotificationPermission();
+      if (permission !== 'granted') {
+        logEvent('Browser notifications are blocked for this site', 'warn');
+        next = { ...next, notifications: false };
+      }
+    }
+    setAlertSettings(next);
+    saveAlertSettings(next);
+  };
+
+  const updateMissions = (next: Mission[]) => {
+    setMissions(next);
+    saveMissions(next);
+  };
+
+  const addWaypointAt = (cell: GridCell) => {
+    setDraftMission(prev => ({ ...prev, steps: [...prev.steps, { id: createId(), kind: 'waypoint', cell }] }));
+  };
+
+  // Hold to move logic. Each repeat is also the watchdog heartbeat, and
+  // repeats already re-send the command, so no ack retries here.
+  // Robots without operator sessions have no control lock; otherwise only
+  // the lock holder may drive, and a lost lock ends the hold
+  const mayDrive = () => {
+    const api = currentApi();
+    return !api.getSession() || api.holdsControl();
+  };
+
+  const startHold = (cmd: string, source: 'pointer' | 'input' = 'pointer') => {
+    if (safety.current.getState().estopLatched || !mayDrive()) return;
+    holdSource.current = source;
+    const repeat = () => {
+      if (!mayDrive()) {
+        stopHold();
+        return;
+      }
+      safety.current.heartbeat();
+      send(cmd, { retries: 0 });
+    };
+    repeat();
     if (holdInterval.current) clearInterval(holdInterval.current);
-    holdInterval.current = window.setInterval(() => send(cmd), 250);
+    holdInterval.current = window.setInterval(repeat, 250);
   };
 
   const stopHold = () => {
@@ -93,8 +645,82 @@ export default function App() {
       clearInterval(holdInterval.current);
       holdInterval.current = null;
     }
+    holdSource.current = null;
+    safety.current.endMotion();
+  };
+
+  const releasePointerHold = () => {
+    if (holdSource.current === 'pointer') stopHold();
+  };
+
+  const handleInputAction = (action: InputAction) => {
+    switch (action) {
+      case 'stop':
+        stopHold();
+        send(Command.STOP);
+        break;
+      case 'auto':
+        if (mayDrive()) send(Command.AUTO);
+        break;
+      case 'manual':
+        if (mayDrive()) send(Command.MANUAL);
+        break;
+      case 'rollerToggle':
+        toggleRoller();
+        break;
+      case 'speedUp':
+        setDriveSpeeds(driveConfig.left + SPEED_INCREMENT, driveConfig.right + SPEED_INCREMENT);
+        break;
+      case 'speedDown':
+        setDriveSpeeds(driveConfig.left - SPEED_INCREMENT, driveConfig.right - SPEED_INCREMENT);
+        break;
+    }
+  };
+
+  const updateBindings = (next: InputBindings) => {
+    setInputBindings(next);
+    saveBindings(next);
+    input.current.setBindings(next);
   };
 
+  const selectedRobot = robots.find(r => r.id === selectedId);
+
+  // Speed quick-picks come from the selected robot's active profile
+  const activeProfile = profiles.find(p => p.id === activeProfiles[selectedId]) ?? null;
+  const drivePresets = profilePresets(activeProfile?.drivePoints);
+  const rollerPresets = profilePresets(activeProfile?.rollerPoints);
+
+  // Robot-reported settings against what the dashboard last asked for.
+  // Telemetry state is fresher than the last STATUS reply, so it wins.
+  const reported = fleetStatus[selectedId]?.reported ?? null;
+  const [desiredLeft, desiredRight] = applyTrim(driveConfig.left, driveConfig.right, driveConfig.trim);
+  // The joystick streams its own drive speeds, so those only compare at rest
+  const mismatches = findMismatches(
+    { roller: rollerOn, lspd: desiredLeft, rspd: desiredRight, rollerspd: rollerSpeed }, reported, commands
+  ).filter(f => !(lastJoystick.current && (f === 'lspd' || f === 'rspd')));
+  const driveMismatch = mismatches.includes('lspd') || mismatches.includes('rspd');
+  const modeBadge = MODE_BADGES[telemetry.state !== RobotState.UNKNOWN ? telemetry.state : reported?.mode ?? RobotState.UNKNOWN];
+  const adoptField = (patch: Partial<RobotSnapshot>) =>
+    adoptSnapshot({ roller: null, lspd: null, rspd: null, rollerspd: null, ...patch });
+
+  // Header link badge: more than ONLINE/OFFLINE, so a flaky field link shows
+  const linkLabel = httpOnly ? 'HTTP ONLY' : connected ? 'ONLINE' : 'OFFLINE';
+  const linkBadgeStyle = httpOnly
+    ? 'bg-amber-100 text-amber-700 border border-amber-200'
+    : connected ? 'bg-green-100 text-green-700 border border-green-200' : 'bg-red-100 text-red-700 border border-red-200';
+  // Header control pill: who may drive the selected robot
+  const session = fleetStatus[selectedId]?.session ?? null;
+  const control = fleetStatus[selectedId]?.control ?? null;
+  const holdsControl = currentApi().holdsControl();
+  const canDrive = mayDrive();
+  const controlLabel = !session ? null
+    : session.role === 'viewer' ? 'VIEWER'
+    : holdsControl ? 'IN CONTROL'
+    : control ? `HELD: ${control.operator ?? 'OTHER'}` : 'NO CONTROL';
+  const linkDetail = !diagnostics || httpOnly ? null
+    : connected ? (diagnostics.latencyMs !== null ? `${diagnostics.latencyMs}ms` : null)
+    : diagnostics.reconnectAttempts > 0 ? `retry ${diagnostics.reconnectAttempts}` : null;
+
   return (
     <div className="min-h-screen bg-gray-50 text-slate-800 pb-20 font-sans">
       {/* Header */}
@@ -109,15 +735,48 @@ export default function App() {
               <p className="text-xs text-slate-500 font-medium hidden sm:block">Autonomous Agriculture System</p>
             </div>
           </div>
-          <div className={`flex items-center gap-2 px-4 py-1.5 rounded-full text-sm font-bold transition-colors ${connected ? 'bg-green-100 text-green-700 border border-green-200' : 'bg-red-100 text-red-700 border border-red-200'}`}>
-            {connected ? <Wifi size={16} /> : <WifiOff size={16} />}
-            <span>{connected ? 'ONLINE' : 'OFFLINE'}</span>
+          <div className="flex items-center gap-3">
+            <select
+              value={selectedId}
+              onChange={(e) => selectRobot(e.target.value)}
+              className="hidden sm:block bg-gray-50 border border-gray-200 rounded-full px-3 py-1.5 text-sm font-bold text-slate-700"
+            >
+              {robots.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </select>
+            <EStopButton latched={safetyState.estopLatched} onEngage={() => safety.current.engageEstop()} />
+            {controlLabel && (
+              <div
+                title={credentials ? `Signed in as ${credentials.operator}` : 'Not signed in'}
+                className={`hidden md:flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold border ${holdsControl ? 'bg-areca-50 text-areca-700 border-areca-200' : 'bg-gray-50 text-gray-500 border-gray-200'}`}
+              >
+                {session.role === 'viewer' ? <Eye size={14} /> : <Lock size={14} />}
+                <span className="max-w-[10rem] truncate">{controlLabel}</span>
+              </div>
+            )}
+            <div
+              title={diagnostics?.lastError ? `Last error: ${diagnostics.lastError.message}` : undefined}
+              className={`flex items-center gap-2 px-4 py-1.5 rounded-full text-sm font-bold transition-colors ${linkBadgeStyle}`}
+            >
+              {connected ? <Wifi size={16} /> : <WifiOff size={16} />}
+              <span>{linkLabel}</span>
+              {linkDetail && <span className="font-mono text-xs font-normal opacity-80">{linkDetail}</span>}
+            </div>
           </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
-        
+
+        {/* Safety Status */}
+        <SafetyBanner state={safetyState} onClear={() => safety.current.clearEstop()} />
+
+        {/* Active Alerts */}
+        <AlertBanner
+          alerts={alerts}
+          onAcknowledge={(id) => alertEngine.current.acknowledge(id)}
+          onSnooze={(id, ms) => alertEngine.current.snooze(id, ms)}
+        />
+
         {/* Top Grid: Controls & Telemetry */}
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
           
@@ -130,26 +789,31 @@ export default function App() {
                 <h2 className="text-lg font-bold flex items-center gap-2 text-slate-700">
                   <Navigation size={20} className="text-areca-600"/> Movement Control
                 </h2>
-                <span className="text-xs font-mono bg-slate-100 text-slate-600 px-3 py-1 rounded-full font-bold border border-slate-200">MANUAL MODE</span>
+                <span
+                  title={reported ? `Robot reported ${reported.mode ?? 'no mode'} at ${new Date(reported.at).toLocaleTimeString()}` : 'No STATUS reply yet'}
+                  className={`text-xs font-mono px-3 py-1 rounded-full font-bold border ${modeBadge.style}`}
+                >
+                  {modeBadge.label}
+                </span>
               </div>
               
               <div className="grid grid-cols-3 gap-4 max-w-sm mx-auto mb-8">
                 <div />
-                <ControlButton icon={<ArrowUp size={36}/>} onDown={() => startHold(Command.FORWARD)} onUp={stopHold} color="blue" label="FWD" />
+                <ControlButton icon={<ArrowUp size={36}/>} onDown={() => startHold(Command.FORWARD)} onUp={releasePointerHold} color="blue" label="FWD" disabled={!canDrive} />
                 <div />
                 
-                <ControlButton icon={<ArrowLeft size={36}/>} onDown={() => startHold(Command.LEFT)} onUp={stopHold} color="slate" label="LEFT" />
+                <ControlButton icon={<ArrowLeft size={36}/>} onDown={() => startHold(Command.LEFT)} onUp={releasePointerHold} color="slate" label="LEFT" disabled={!canDrive} />
                 <ControlButton icon={<StopCircle size={36}/>} onClick={() => send(Command.STOP)} color="red" label="STOP" highlight />
-                <ControlButton icon={<ArrowRight size={36}/>} onDown={() => startHold(Command.RIGHT)} onUp={stopHold} color="slate" label="RIGHT" />
+                <ControlButton icon={<ArrowRight size={36}/>} onDown={() => startHold(Command.RIGHT)} onUp={releasePointerHold} color="slate" label="RIGHT" disabled={!canDrive} />
                 
                 <div />
-                <ControlButton icon={<ArrowDown size={36}/>} onDown={() => startHold(Command.BACK)} onUp={stopHold} color="slate" label="BACK" />
+                <ControlButton icon={<ArrowDown size={36}/>} onDown={() => startHold(Command.BACK)} onUp={releasePointerHold} color="slate" label="BACK" disabled={!canDrive} />
                 <div />
               </div>
 
               <div className="flex gap-4 justify-center pt-6 border-t border-gray-100">
-                <ActionButton label="Auto Mode" icon={<Play size={18}/>} onClick={() => send(Command.AUTO)} color="green" />
-                <ActionButton label="Manual" icon={<RotateCcw size={18}/>} onClick={() => send(Command.MANUAL)} color="slate" />
+                <ActionButton label="Auto Mode" icon={<Play size={18}/>} onClick={() => send(Command.AUTO)} color="green" disabled={!canDrive} />
+                <ActionButton label="Manual" icon={<RotateCcw size={18}/>} onClick={() => send(Command.MANUAL)} color="slate" disabled={!canDrive} />
               </div>
             </div>
 
@@ -158,13 +822,17 @@ export default function App() {
               
               {/* Roller Control */}
               <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 flex flex-col">
-                <h2 className="text-lg font-bold flex items-center gap-2 mb-6 text-slate-700">
-                  <Settings size={20} className="text-areca-600"/> Roller System
-                </h2>
+                <div className="flex items-center justify-between mb-6">
+                  <h2 className="text-lg font-bold flex items-center gap-2 text-slate-700">
+                    <Settings size={20} className="text-areca-600"/> Roller System
+                  </h2>
+                  <CommandBadge record={commands.find(c => c.cmd === Command.ROLLER_ON || c.cmd === Command.ROLLER_OFF) ?? null} />
+                </div>
                 
                 <button 
                   onClick={toggleRoller}
-                  className={`w-full py-6 rounded-xl font-bold text-xl flex items-center justify-center gap-3 transition-all mb-6 ${
+                  disabled={!canDrive}
+                  className={`w-full py-6 rounded-xl font-bold text-xl flex items-center justify-center gap-3 transition-all mb-6 disabled:opacity-40 disabled:pointer-events-none ${
                     rollerOn 
                       ? 'bg-amber-400 text-amber-950 shadow-lg shadow-amber-200 ring-2 ring-amber-500 ring-offset-2' 
                       : 'bg-gray-100 text-gray-400 hover:bg-gray-200 border border-gray-200'
@@ -173,11 +841,23 @@ export default function App() {
                   <Box size={28} />
                   {rollerOn ? 'ACTIVE' : 'IDLE'}
                 </button>
+                {mismatches.includes('roller') && (
+                  <button
+                    onClick={() => adoptField({ roller: reported!.roller })}
+                    title="Use the robot's value"
+                    className="-mt-4 mb-4 text-xs font-bold text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-1.5"
+                  >
+                    Robot reports roller {reported!.roller ? 'ON' : 'OFF'}
+                  </button>
+                )}
                 
                 <div className="mt-auto">
                    <SpeedControlInput 
                      label="Roller PWM" 
                      value={rollerSpeed} 
+                     presets={rollerPresets}
+                     reported={mismatches.includes('rollerspd') ? String(reported!.rollerspd) : null}
+                     onAdopt={() => adoptField({ rollerspd: reported!.rollerspd })}
                      onCommit={(v) => commitSpeed('ROLLERSPD', v)} 
                    />
                 </div>
@@ -185,16 +865,54 @@ export default function App() {
 
               {/* Drive Speed */}
               <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 flex flex-col">
-                <h2 className="text-lg font-bold flex items-center gap-2 mb-6 text-slate-700">
-                  <Cpu size={20} className="text-areca-600"/> Drive Configuration
-                </h2>
+                <div className="flex items-center justify-between mb-6">
+                  <h2 className="text-lg font-bold flex items-center gap-2 text-slate-700">
+                    <Cpu size={20} className="text-areca-600"/> Drive Configuration
+                  </h2>
+                  <div className="flex bg-gray-100 rounded-lg p-0.5 text-[10px] font-bold">
+                    {(['linked', 'independent'] as DriveConfig['mode'][]).map(m => (
+                      <button
+                        key={m}
+                        onClick={() => changeDriveMode(m)}
+                        className={`px-2 py-1 rounded-md uppercase tracking-wider ${driveConfig.mode === m ? 'bg-white shadow-sm text-areca-700' : 'text-gray-500'}`}
+                      >
+                        {m === 'linked' ? 'Linked' : 'Split'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
                 
-                <div className="mb-6">
+                <div className="mb-6 space-y-4">
+                  {driveConfig.mode === 'linked' ? (
                     <SpeedControlInput 
                         label="Motor Power (PWM)" 
-                        value={driveSpeed} 
+                        value={driveConfig.left} 
+                        presets={drivePresets}
+                        reported={driveMismatch ? `${reported!.lspd ?? '–'} / ${reported!.rspd ?? '–'}` : null}
+                        onAdopt={() => adoptField({ lspd: reported!.lspd, rspd: reported!.rspd })}
                         onCommit={(v) => commitSpeed('LSPD', v)}
                     />
+                  ) : (
+                    <>
+                      <SpeedControlInput
+                        label="Left Motor (PWM)"
+                        value={driveConfig.left}
+                        presets={drivePresets}
+                        reported={mismatches.includes('lspd') ? String(reported!.lspd) : null}
+                        onAdopt={() => adoptField({ lspd: reported!.lspd })}
+                        onCommit={(v) => commitSpeed('LSPD', v)}
+                      />
+                      <SpeedControlInput
+                        label="Right Motor (PWM)"
+                        value={driveConfig.right}
+                        presets={drivePresets}
+                        reported={mismatches.includes('rspd') ? String(reported!.rspd) : null}
+                        onAdopt={() => adoptField({ rspd: reported!.rspd })}
+                        onCommit={(v) => commitSpeed('RSPD', v)}
+                      />
+                    </>
+                  )}
+                  <TrimControlInput value={driveConfig.trim} sent={sentDrive} onCommit={commitTrim} />
                 </div>
                   
                 <button 
@@ -205,6 +923,64 @@ export default function App() {
                 </button>
               </div>
             </div>
+
+            {/* Speed Calibration Profiles */}
+            <CalibrationPanel
+              profiles={profiles}
+              activeId={activeProfile?.id ?? null}
+              current={{ left: driveConfig.left, right: driveConfig.right, roller: rollerSpeed }}
+              canSend={!replay}
+              onApply={(profile) => {
+                applyProfile(profile);
+                logEvent(`Applied profile "${profile.name}"`);
+              }}
+              onSave={saveProfile}
+              onDelete={deleteProfile}
+              onTest={testCalibration}
+            />
+
+            {/* Analog Joystick */}
+            <VirtualJoystick
+              maxPwm={joystickMax}
+              left={sentDrive?.[0] ?? null}
+              right={sentDrive?.[1] ?? null}
+              onMaxPwmChange={setJoystickMax}
+              onMove={handleJoystickMove}
+              onRelease={handleJoystickRelease}
+              disabled={!canDrive}
+            />
+
+            {/* Field Map */}
+            <GridMap
+              state={gridState}
+              onReset={() => grid.current.reset()}
+              route={draftMission.steps.flatMap(s => s.kind === 'waypoint' ? [s.cell] : [])}
+              activeRouteIndex={activeWaypointIndex(draftMission, missionProgress)}
+              onCellClick={addWaypointAt}
+            />
+
+            {/* Mission Planner */}
+            <MissionPlanner
+              missions={missions}
+              draft={draftMission}
+              progress={missionProgress}
+              robotState={telemetry.state}
+              onDraftChange={setDraftMission}
+              onMissionsChange={updateMissions}
+              canDispatch={canDrive}
+              onStart={(m) => { if (mayDrive()) missionRunner.current.start(m); }}
+              onPause={() => missionRunner.current.pause()}
+              onResume={() => { if (mayDrive()) missionRunner.current.resume(); }}
+              onAbort={() => missionRunner.current.abort()}
+            />
+
+            {/* Keyboard & Gamepad */}
+            <InputBindingsEditor
+              controller={input.current}
+              bindings={inputBindings}
+              gamepadName={gamepadName}
+              onChange={updateBindings}
+            />
           </div>
 
           {/* RIGHT COL: Telemetry & Logs */}
@@ -213,42 +989,107 @@ export default function App() {
             {/* Telemetry Grid */}
             <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
               <h2 className="text-lg font-bold flex items-center gap-2 mb-6 text-slate-700">
-                <Activity size={20} className="text-areca-600"/> Live Telemetry
+                <Activity size={20} className="text-areca-600"/> {replay ? 'Replayed Telemetry' : 'Live Telemetry'}
               </h2>
               <div className="grid grid-cols-2 gap-4">
                 <MetricCard label="Ultrasonic" value={telemetry.us ? `${telemetry.us} cm` : '--'} icon={<Wind size={16}/>} />
                 <MetricCard label="Temperature" value={telemetry.temp ? `${telemetry.temp}°C` : '--'} icon={<Thermometer size={16}/>} />
+                <MetricCard label="Pressure" value={telemetry.pressure ? `${telemetry.pressure} hPa` : '--'} icon={<Gauge size={16}/>} fullWidth />
                 <MetricCard label="System State" value={telemetry.state} icon={<Cpu size={16}/>} fullWidth />
                 <MetricCard label="Position" value={telemetry.pos ? `X:${telemetry.pos[0]} Y:${telemetry.pos[1]}` : '--'} icon={<MapPin size={16}/>} />
                 <MetricCard label="Heading" value={telemetry.dir} icon={<Navigation size={16}/>} />
               </div>
             </div>
 
+            {/* Alert Rules & History */}
+            <AlertsPanel
+              rules={alertRules}
+              alerts={alerts}
+              settings={alertSettings}
+              onRulesChange={updateAlertRules}
+              onSettingsChange={updateAlertSettings}
+              onClearHistory={() => alertEngine.current.clearHistory()}
+            />
+
+            {/* Fleet Overview */}
+            <FleetPanel
+              robots={robots}
+              status={fleetStatus}
+              selectedId={selectedId}
+              onSelect={selectRobot}
+              onAdd={(name, host, port) => fleet.current.add(name, host, port)}
+              onUpdate={(id, patch) => fleet.current.update(id, patch)}
+              onRemove={removeRobot}
+            />
+
+            {/* Connection Settings & Diagnostics */}
+            {selectedRobot && (
+              <ConnectionPanel
+                robot={selectedRobot}
+                diagnostics={diagnostics}
+                commands={commands}
+                onSave={(patch) => fleet.current.update(selectedRobot.id, patch)}
+                onPing={() => currentApi().ping()}
+              />
+            )}
+
+            {/* Operator Session & Audit Trail */}
+            <OperatorPanel
+              credentials={credentials}
+              session={session}
+              control={control}
+              holdsControl={holdsControl}
+              connected={connected}
+              audit={audit}
+              onSignIn={signIn}
+              onTakeControl={takeControl}
+              onReleaseControl={releaseControl}
+              onClearAudit={() => auditLog.current.clear()}
+            />
+
+            {/* Job Analytics */}
+            <JobsPanel
+              jobs={jobs}
+              robots={robots}
+              plot={plotSize}
+              onPlotChange={changePlotSize}
+              onEndJob={(id) => jobTracker.current.endJob(id)}
+              onRemoveJob={(id) => jobTracker.current.remove(id)}
+              onClear={() => jobTracker.current.clear()}
+            />
+
+            {/* Command Acknowledgements */}
+            <CommandStatusPanel commands={commands} />
+
+            {/* Telemetry History */}
+            <TelemetryCharts
+              frames={frames}
+              retentionMs={retentionMs}
+              onRetentionChange={changeRetention}
+              onClear={() => history.current.clear()}
+            />
+
+            {/* Session Recording & Replay */}
+            <SessionPanel
+              recording={recording}
+              replay={replay}
+              onStartRecording={startRecording}
+              onStopRecording={() => recorder.current.stop()}
+              onReplay={openReplay}
+              onPlay={() => player.current.play()}
+              onPause={() => player.current.pause()}
+              onSeek={(position) => player.current.seek(position)}
+              onSpeedChange={(speed) => player.current.setSpeed(speed)}
+              onCloseReplay={closeReplay}
+            />
+
             {/* Live Logs */}
-            <div className="bg-slate-900 rounded-2xl shadow-md overflow-hidden flex flex-col h-[450px] border border-slate-800">
-               <div className="p-4 bg-slate-950 border-b border-slate-800 flex justify-between items-center">
-                 <h2 className="text-gray-100 font-mono text-xs font-bold flex items-center gap-2 uppercase tracking-wider">
-                   <Terminal size={14} className="text-areca-400"/> System Events
-                 </h2>
-                 <span className="text-[10px] font-mono bg-slate-800 text-slate-400 px-2 py-0.5 rounded-full">{logs.length}</span>
-               </div>
-               <div className="flex-1 overflow-y-auto p-4 space-y-2 font-mono text-[11px] leading-relaxed">
-                 {logs.length === 0 && <div className="text-slate-600 italic text-center mt-10">Waiting for system logs...</div>}
-                 {logs.map((log) => (
-                   <div key={log.id} className="flex gap-3 hover:bg-white/5 p-1 rounded -mx-1 transition-colors">
-                     <span className="text-slate-500 shrink-0 select-none">{log.timestamp}</span>
-                     <span className={`font-bold shrink-0 w-8 text-center
-                       ${log.type === 'tx' ? 'text-blue-400' : ''}
-                       ${log.type === 'rx' ? 'text-areca-400' : ''}
-                       ${log.type === 'sys' ? 'text-slate-400' : ''}
-                     `}>
-                       {log.type.toUpperCase()}
-                     </span>
-                     <span className="text-slate-300 break-all">{log.message}</span>
-                   </div>
-                 ))}
-               </div>
-            </div>
+            <EventConsole
+              logs={logs}
+              canSend={!replay}
+              onSend={(cmd, raw) => send(cmd, { raw })}
+              onClear={() => setLogs([])}
+            />
 
           </div>
         </div>
@@ -257,11 +1098,38 @@ export default function App() {
   );
 }
 
+// ----------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------
+
+// Builds a service once per mount. useRef(new X()) would construct, and
+// throw away, an X on every render, re-reading its saved state each time.
+function useInstance<T>(create: () => T): { current: T } {
+  const [ref] = useState(() => ({ current: create() }));
+  return ref;
+}
+
+// Maps the runner's step index to the index among waypoint-only steps,
+// which is what the grid map numbers.
+function activeWaypointIndex(mission: Mission, progress: MissionProgress): number | undefined {
+  if (progress.missionId !== mission.id || (progress.status !== 'running' && progress.status !== 'paused')) return undefined;
+  const step = mission.steps[progress.stepIndex];
+  if (step?.kind !== 'waypoint') return undefined;
+  return mission.steps.slice(0, progress.stepIndex).filter(s => s.kind === 'waypoint').length;
+}
+
 // ----------------------------------------------------------------------
 // Subcomponents
 // ----------------------------------------------------------------------
 
-function SpeedControlInput({ label, value, onCommit }: { label: string, value: number, onCommit: (val: number) => void }) {
+function SpeedControlInput({ label, value, presets, reported = null, onAdopt, onCommit }: {
+  label: string,
+  value: number,
+  presets: number[],
+  reported?: string | null,   // Robot's value when it disagrees (motor PWM, trim applied)
+  onAdopt?: () => void,
+  onCommit: (val: number) => void
+}) {
   const [localVal, setLocalVal] = useState<string>(value.toString());
 
   useEffect(() => {
@@ -306,7 +1174,7 @@ function SpeedControlInput({ label, value, onCommit }: { label: string, value: n
 
       <div className="flex justify-between items-center px-1">
           <div className="flex gap-1">
-             {[0, 100, 140, 200, 255].map(v => (
+             {presets.map(v => (
                 <button 
                   key={v}
                   onClick={() => { setLocalVal(v.toString()); onCommit(v); }} 
@@ -316,12 +1184,60 @@ function SpeedControlInput({ label, value, onCommit }: { label: string, value: n
                 </button>
              ))}
           </div>
+          {reported !== null && (
+            <button
+              onClick={onAdopt}
+              title="Use the robot's value"
+              className="text-[10px] font-mono font-bold text-amber-700 bg-amber-50 border border-amber-200 rounded px-1.5 py-0.5"
+            >
+              ROBOT {reported}
+            </button>
+          )}
       </div>
     </div>
   )
 }
 
-function ControlButton({ icon, label, onClick, onDown, onUp, color, highlight }: any) {
+function TrimControlInput({ value, sent, onCommit }: { value: number, sent: [number, number] | null, onCommit: (trim: number) => void }) {
+  const [localVal, setLocalVal] = useState<number>(value);
+
+  useEffect(() => {
+    setLocalVal(value);
+  }, [value]);
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-4 border border-gray-200">
+      <div className="flex justify-between items-center mb-2">
+         <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">
+           Drift Trim
+         </label>
+         <span className="text-xs font-mono font-bold text-slate-800">{localVal > 0 ? `+${localVal}` : localVal}</span>
+      </div>
+      <div className="flex gap-2 items-center mb-2">
+        <span className="text-[10px] font-mono text-gray-400">L</span>
+        <input
+          type="range"
+          min={-MAX_TRIM} max={MAX_TRIM}
+          value={localVal}
+          onChange={(e) => setLocalVal(parseInt(e.target.value))}
+          className="flex-1"
+        />
+        <span className="text-[10px] font-mono text-gray-400">R</span>
+        <button 
+          onClick={() => onCommit(localVal)}
+          className="bg-slate-700 hover:bg-slate-800 active:scale-95 text-white rounded-lg px-3 py-1 text-xs font-bold transition-all shadow-sm"
+        >
+          SET
+        </button>
+      </div>
+      <div className="text-[10px] font-mono text-gray-400 px-1">
+        Sent: {sent ? `L ${sent[0]} / R ${sent[1]}` : '--'}
+      </div>
+    </div>
+  );
+}
+
+function ControlButton({ icon, label, onClick, onDown, onUp, color, highlight, disabled = false }: any) {
   const base = "w-full aspect-square rounded-2xl flex flex-col items-center justify-center transition-all active:scale-95 shadow-sm border-b-4 relative overflow-hidden group";
   const colors: any = {
     blue: "bg-blue-500 hover:bg-blue-600 border-blue-700 text-white active:border-b-0 active:translate-y-1",
@@ -331,10 +1247,12 @@ function ControlButton({ icon, label, onClick, onDown, onUp, color, highlight }:
   
   return (
     <button
-      className={`${base} ${colors[color]} ${highlight ? 'ring-4 ring-red-100' : ''}`}
+      className={`${base} ${colors[color]} ${highlight ? 'ring-4 ring-red-100' : ''} disabled:opacity-40 disabled:pointer-events-none`}
+      disabled={disabled}
       onPointerDown={onDown}
       onPointerUp={onUp}
       onPointerLeave={onUp}
+      onPointerCancel={onUp}
       onClick={onClick}
     >
       <div className="relative z-10 flex flex-col items-center">
@@ -346,13 +1264,13 @@ function ControlButton({ icon, label, onClick, onDown, onUp, color, highlight }:
   );
 }
 
-function ActionButton({ label, icon, onClick, color }: any) {
+function ActionButton({ label, icon, onClick, color, disabled = false }: any) {
   const colors: any = {
     green: "bg-areca-600 hover:bg-areca-700 text-white shadow-lg shadow-areca-100",
     slate: "bg-slate-200 hover:bg-slate-300 text-slate-800",
   };
   return (
-    <button onClick={onClick} className={`flex-1 flex items-center justify-center gap-2 py-4 rounded-xl font-bold transition-all active:scale-95 ${colors[color]}`}>
+    <button onClick={onClick} disabled={disabled} className={`flex-1 flex items-center justify-center gap-2 py-4 rounded-xl font-bold transition-all active:scale-95 disabled:opacity-40 disabled:pointer-events-none ${colors[color]}`}>
       {icon} {label}
     </button>
   );
@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { Bell, BellOff, BellRing, Check, Clock, Plus, Trash2, Volume2, VolumeX, RotateCcw } from 'lucide-react';
+import { DEFAULT_ALERT_RULES, METRIC_LABELS, SNOOZE_OPTIONS_MS, newAlertRule } from '../services/alerts';
+import { Alert, AlertMetric, AlertOperator, AlertRule, AlertSettings, AlertSeverity } from '../types';
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  info: 'bg-blue-50 border-blue-200 text-blue-800',
+  warning: 'bg-amber-50 border-amber-200 text-amber-800',
+  critical: 'bg-red-600 border-red-700 text-white',
+};
+
+const SEVERITY_DOTS: Record<AlertSeverity, string> = {
+  info: 'bg-blue-400',
+  warning: 'bg-amber-400',
+  critical: 'bg-red-600',
+};
+
+const OPERATORS: AlertOperator[] = ['<', '>', '=', '!='];
+
+const isShown = (a: Alert) => a.resolvedAt === null && a.acknowledgedAt === null && !(a.snoozedUntil !== null && a.snoozedUntil > Date.now());
+
+interface AlertBannerProps {
+  alerts: Alert[];
+  onAcknowledge: (id: string) => void;
+  onSnooze: (id: string, durationMs: number) => void;
+}
+
+/** Open alerts that are neither acknowledged nor snoozed, most severe first. */
+export function AlertBanner({ alerts, onAcknowledge, onSnooze }: AlertBannerProps) {
+  const rank: Record<AlertSeverity, number> = { critical: 0, warning: 1, info: 2 };
+  const shown = alerts.filter(isShown).sort((a, b) => rank[a.severity] - rank[b.severity]);
+  if (!shown.length) return null;
+
+  return (
+    <div className="space-y-2">
+      {shown.map(a => (
+        <div key={a.id} className={`rounded-2xl border p-3 px-4 flex flex-wrap items-center gap-3 text-sm shadow-sm ${SEVERITY_STYLES[a.severity]}`}>
+          <BellRing size={18} className="shrink-0" />
+          <span className="font-bold">{a.ruleName}</span>
+          <span className="opacity-90">{a.message}</span>
+          <span className="text-xs opacity-70 font-mono">{new Date(a.firedAt).toLocaleTimeString()}</span>
+          <div className="ml-auto flex items-center gap-1">
+            <button
+              onClick={() => onAcknowledge(a.id)}
+              className="flex items-center gap-1 text-xs font-bold rounded-lg px-2 py-1 bg-white/80 text-slate-800 hover:bg-white"
+            >
+              <Check size={12} /> Ack
+            </button>
+            {SNOOZE_OPTIONS_MS.map(ms => (
+              <button
+                key={ms}
+                onClick={() => onSnooze(a.id, ms)}
+                title="Snooze"
+                className="flex items-center gap-1 text-xs font-mono rounded-lg px-2 py-1 bg-black/10 hover:bg-black/20"
+              >
+                <Clock size={10} /> {formatSnooze(ms)}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface AlertsPanelProps {
+  rules: AlertRule[];
+  alerts: Alert[];
+  settings: AlertSettings;
+  onRulesChange: (rules: AlertRule[]) => void;
+  onSettingsChange: (settings: AlertSettings) => void;
+  onClearHistory: () => void;
+}
+
+export function AlertsPanel({ rules, alerts, settings, onRulesChange, onSettingsChange, onClearHistory }: AlertsPanelProps) {
+  const [tab, setTab] = useState<'rules' | 'history'>('rules');
+  const open = alerts.filter(a => a.resolvedAt === null).length;
+
+  const patchRule = (id: string, patch: Partial<AlertRule>) => onRulesChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold flex items-center gap-2 text-slate-700">
+          <Bell size={20} className="text-areca-600"/> Alerts
+          {open > 0 && <span className="text-[10px] font-mono bg-red-100 text-red-700 px-2 py-0.5 rounded-full">{open} open</span>}
+        </h2>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onSettingsChange({ ...settings, sound: !settings.sound })}
+            title={settings.sound ? 'Mute alarm sound' : 'Enable alarm sound'}
+            className="p-1.5 text-gray-400 hover:text-areca-600"
+          >
+            {settings.sound ? <Volume2 size={14} /> : <VolumeX size={14} />}
+          </button>
+          <button
+            onClick={() => onSettingsChange({ ...settings, notifications: !settings.notifications })}
+            title={settings.notifications ? 'Disable browser notifications' : 'Enable browser notifications'}
+            className="p-1.5 text-gray-400 hover:text-areca-600"
+          >
+            {settings.notifications ? <BellRing size={14} /> : <BellOff size={14} />}
+          </button>
+          <div className="flex bg-gray-100 rounded-lg p-0.5 text-[10px] font-bold ml-1">
+            {(['rules', 'history'] as const).map(t => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`px-2 py-1 rounded-md uppercase tracking-wider ${tab === t ? 'bg-white shadow-sm text-areca-700' : 'text-gray-500'}`}
+              >
+                {t}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {tab === 'rules' ? (
+        <>
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {rules.map(rule => (
+              <div key={rule.id}>
+                <RuleRow
+                  rule={rule}
+                  onChange={(patch) => patchRule(rule.id, patch)}
+                  onRemove={() => onRulesChange(rules.filter(r => r.id !== rule.id))}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-3">
+            <button
+              onClick={() => onRulesChange([...rules, newAlertRule()])}
+              className="flex items-center gap-1 text-xs font-bold rounded-lg px-3 py-1.5 bg-slate-700 hover:bg-slate-800 text-white"
+            >
+              <Plus size={12} /> Add rule
+            </button>
+            <button
+              onClick={() => window.confirm('Replace all alert rules with the defaults?') && onRulesChange(DEFAULT_ALERT_RULES)}
+              className="flex items-center gap-1 text-xs font-bold rounded-lg px-3 py-1.5 border border-gray-200 text-gray-500 hover:text-areca-600"
+            >
+              <RotateCcw size={12} /> Defaults
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="space-y-1 max-h-80 overflow-y-auto">
+            {alerts.length === 0 && <div className="text-sm text-gray-400 italic text-center py-4">No alerts yet</div>}
+            {alerts.map(a => (
+              <div key={a.id} className="flex items-center gap-2 px-2 py-1 rounded-lg hover:bg-gray-50 text-xs">
+                <span className={`w-2 h-2 rounded-full shrink-0 ${SEVERITY_DOTS[a.severity]}`} />
+                <span className="font-mono text-gray-400 shrink-0">{new Date(a.firedAt).toLocaleString()}</span>
+                <span className="font-bold text-slate-700 shrink-0">{a.ruleName}</span>
+                <span className="text-gray-500 truncate flex-1" title={a.message}>{a.message}</span>
+                <span className="font-mono text-[10px] text-gray-400 uppercase shrink-0">
+                  {a.resolvedAt !== null ? `resolved ${formatDuration(a.resolvedAt - a.firedAt)}` : a.acknowledgedAt !== null ? 'acked' : 'open'}
+                </span>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={onClearHistory}
+            className="mt-3 flex items-center gap-1 text-xs font-bold rounded-lg px-3 py-1.5 border border-gray-200 text-gray-500 hover:text-red-600"
+          >
+            <Trash2 size={12} /> Clear history
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Subcomponents
+// ----------------------------------------------------------------------
+
+function RuleRow({ rule, onChange, onRemove }: {
+  rule: AlertRule,
+  onChange: (patch: Partial<AlertRule>) => void,
+  onRemove: () => void
+}) {
+  const textMetric = rule.metric === 'state' || rule.metric === 'connection';
+
+  return (
+    <div className={`rounded-xl border p-2 flex flex-wrap items-center gap-2 text-xs ${rule.enabled ? 'border-gray-200 bg-gray-50' : 'border-gray-100 opacity-60'}`}>
+      <input type="checkbox" checked={rule.enabled} onChange={(e) => onChange({ enabled: e.target.checked })} />
+      <input
+        value={rule.name}
+        onChange={(e) => onChange({ name: e.target.value })}
+        className="w-32 border border-gray-300 rounded px-1.5 py-0.5 font-bold"
+      />
+      <select
+        value={rule.metric}
+        onChange={(e) => onChange({ metric: e.target.value as AlertMetric })}
+        className="border border-gray-300 rounded px-1 py-0.5"
+      >
+        {(Object.keys(METRIC_LABELS) as AlertMetric[]).map(m => <option key={m} value={m}>{METRIC_LABELS[m].label}</option>)}
+      </select>
+      <select
+        value={rule.operator}
+        onChange={(e) => onChange({ operator: e.target.value as AlertOperator })}
+        className="border border-gray-300 rounded px-1 py-0.5 font-mono"
+      >
+        {OPERATORS.map(op => <option key={op} value={op}>{op}</option>)}
+      </select>
+      <input
+        value={rule.value}
+        onChange={(e) => onChange({ value: textMetric || e.target.value.trim() === '' || isNaN(Number(e.target.value)) ? e.target.value : Number(e.target.value) })}
+        className="w-20 border border-gray-300 rounded px-1.5 py-0.5 font-mono"
+      />
+      <span className="text-gray-400">{METRIC_LABELS[rule.metric].unit}</span>
+      <label className="flex items-center gap-1 text-gray-500">
+        for
+        <input
+          type="number" min={0}
+          value={rule.forMs / 1000}
+          onChange={(e) => onChange({ forMs: Math.max(0, parseFloat(e.target.value) || 0) * 1000 })}
+          className="w-12 border border-gray-300 rounded px-1 py-0.5 font-mono"
+        />
+        s
+      </label>
+      <select
+        value={rule.severity}
+        onChange={(e) => onChange({ severity: e.target.value as AlertSeverity })}
+        className="border border-gray-300 rounded px-1 py-0.5"
+      >
+        <option value="info">Info</option>
+        <option value="warning">Warning</option>
+        <option value="critical">Critical</option>
+      </select>
+      <label className="flex items-center gap-1 font-bold text-red-700" title="Send STOP when this rule fires">
+        <input type="checkbox" checked={rule.autoStop} onChange={(e) => onChange({ autoStop: e.target.checked })} />
+        STOP
+      </label>
+      <button onClick={onRemove} className="ml-auto p-1 text-gray-400 hover:text-red-600" title="Delete rule">
+        <Trash2 size={12} />
+      </button>
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------
+
+function formatSnooze(ms: number): string {
+  return ms >= 60 * 60 * 1000 ? `${ms / (60 * 60 * 1000)}h` : `${ms / 60000}m`;
+}
+
+function formatDuration(ms: number): string {
+  const s = Math.round(ms / 1000);
+  return s < 60 ? `${s}s` : `${Math.floor(s / 60)}m${(s % 60).toString().padStart(2, '0')}s`;
+}
@@ -0,0 +1,312 @@
+import React, { useState } from 'react';
+import { Check, ChevronLeft, ChevronRight, Pencil, Play, Plus, SlidersHorizontal, Trash2, X } from 'lucide-react';
+import { newCalibrationPoint, newCalibrationPoints, newProfile } from '../services/calibration';
+import { clampPwm } from '../services/drive';
+import { CalibrationPoint, CalibrationProfile } from '../types';
+
+type WizardStep = 'drive' | 'roller' | 'save';
+const STEPS: WizardStep[] = ['drive', 'roller', 'save'];
+
+interface CalibrationPanelProps {
+  profiles: CalibrationProfile[];
+  activeId: string | null;
+  current: { left: number, right: number, roller: number };   // Speeds in use now
+  canSend: boolean;
+  onApply: (profile: CalibrationProfile) => void;
+  onSave: (profile: CalibrationProfile) => void;
+  onDelete: (id: string) => void;
+  onTest: (kind: 'drive' | 'roller', pwm: number) => void;
+}
+
+/** Saved speed profiles and the wizard that calibrates them. */
+export function CalibrationPanel({
+  profiles, activeId, current, canSend, onApply, onSave, onDelete, onTest
+}: CalibrationPanelProps) {
+  const [draft, setDraft] = useState<CalibrationProfile | null>(null);
+
+  const handleDelete = (profile: CalibrationProfile) => {
+    if (window.confirm(`Delete profile "${profile.name}"?`)) onDelete(profile.id);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold flex items-center gap-2 text-slate-700">
+          <SlidersHorizontal size={20} className="text-areca-600"/> Calibration
+        </h2>
+        {!draft && (
+          <button
+            onClick={() => setDraft(newProfile(current.left, current.right, current.roller))}
+            className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider rounded px-2 py-1 bg-areca-600 hover:bg-areca-700 text-white"
+          >
+            <Plus size={10} /> Calibrate
+          </button>
+        )}
+      </div>
+
+      {draft ? (
+        <Wizard
+          initial={draft}
+          canSend={canSend}
+          onTest={onTest}
+          onCancel={() => setDraft(null)}
+          onSave={(profile) => {
+            onSave(profile);
+            setDraft(null);
+          }}
+        />
+      ) : (
+        <div className="space-y-2">
+          {profiles.length === 0 && (
+            <div className="text-sm text-gray-400 italic text-center py-4">
+              No profiles yet. Calibrate to save speeds for a field condition.
+            </div>
+          )}
+          {profiles.map(p => (
+            <div
+              key={p.id}
+              className={`flex items-center gap-2 rounded-xl border p-3 ${p.id === activeId ? 'border-areca-200 bg-areca-50' : 'border-gray-100 bg-gray-50'}`}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-bold text-slate-700 truncate flex items-center gap-1">
+                  {p.id === activeId && <Check size={14} className="text-areca-600 shrink-0" />}
+                  {p.name}
+                </div>
+                <div className="text-[10px] font-mono text-gray-400">
+                  L {p.left} · R {p.right} · Roller {p.roller}
+                </div>
+              </div>
+              <button
+                onClick={() => onApply(p)}
+                disabled={!canSend}
+                className="text-[10px] font-bold uppercase tracking-wider rounded px-2 py-1 bg-slate-700 hover:bg-slate-800 text-white disabled:opacity-40"
+              >
+                Apply
+              </button>
+              <button onClick={() => setDraft(p)} title="Recalibrate" className="text-gray-400 hover:text-areca-600">
+                <Pencil size={14} />
+              </button>
+              <button onClick={() => handleDelete(p)} title="Delete profile" className="text-gray-300 hover:text-red-600">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Subcomponents
+// ----------------------------------------------------------------------
+
+function Wizard({ initial, canSend, onTest, onCancel, onSave }: {
+  initial: CalibrationProfile,
+  canSend: boolean,
+  onTest: (kind: 'drive' | 'roller', pwm: number) => void,
+  onCancel: () => void,
+  onSave: (profile: CalibrationProfile) => void
+}) {
+  const [step, setStep] = useState<WizardStep>('drive');
+  const [profile, setProfile] = useState<CalibrationProfile>(initial);
+  const index = STEPS.indexOf(step);
+  const patch = (p: Partial<CalibrationProfile>) => setProfile({ ...profile, ...p });
+
+  const save = () => {
+    const name = profile.name.trim();
+    if (!name) return;
+    onSave({ ...profile, name, left: clampPwm(profile.left), right: clampPwm(profile.right), roller: clampPwm(profile.roller), updatedAt: Date.now() });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider">
+        {STEPS.map((s, i) => (
+          <React.Fragment key={s}>
+            {i > 0 && <ChevronRight size={10} className="text-gray-300" />}
+            <span className={s === step ? 'text-areca-700' : i < index ? 'text-gray-500' : 'text-gray-300'}>
+              {i + 1}. {s === 'drive' ? 'Drive' : s === 'roller' ? 'Roller' : 'Save'}
+            </span>
+          </React.Fragment>
+        ))}
+      </div>
+
+      {step === 'drive' && (
+        <>
+          <p className="text-xs text-gray-500">
+            Test each drive PWM, drive a measured stretch and note the ground speed and how the motors cope.
+          </p>
+          <PointsTable
+            points={profile.drivePoints}
+            unit="cm/s"
+            canSend={canSend}
+            onTest={(pwm) => onTest('drive', pwm)}
+            onChange={(drivePoints) => patch({ drivePoints })}
+          />
+        </>
+      )}
+
+      {step === 'roller' && (
+        <>
+          <p className="text-xs text-gray-500">
+            Test each roller PWM on the crop and note the drum speed and pick quality.
+          </p>
+          <PointsTable
+            points={profile.rollerPoints}
+            unit="rpm"
+            canSend={canSend}
+            onTest={(pwm) => onTest('roller', pwm)}
+            onChange={(rollerPoints) => patch({ rollerPoints })}
+          />
+        </>
+      )}
+
+      {step === 'save' && (
+        <div className="space-y-3">
+          <input
+            value={profile.name}
+            onChange={(e) => patch({ name: e.target.value })}
+            placeholder='Profile name, e.g. "wet ground"'
+            className="w-full bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-sm"
+          />
+          <PwmPicker label="Left drive" value={profile.left} points={profile.drivePoints} onChange={(left) => patch({ left })} />
+          <PwmPicker label="Right drive" value={profile.right} points={profile.drivePoints} onChange={(right) => patch({ right })} />
+          <PwmPicker label="Roller" value={profile.roller} points={profile.rollerPoints} onChange={(roller) => patch({ roller })} />
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button onClick={onCancel} className="flex items-center gap-1 text-xs font-bold text-gray-400 hover:text-red-600">
+          <X size={12} /> Cancel
+        </button>
+        <div className="flex gap-2">
+          {index > 0 && (
+            <button
+              onClick={() => setStep(STEPS[index - 1])}
+              className="flex items-center gap-1 text-xs font-bold rounded-lg px-3 py-1.5 border border-gray-200 text-gray-500 hover:text-slate-700"
+            >
+              <ChevronLeft size={12} /> Back
+            </button>
+          )}
+          {step === 'save' ? (
+            <button
+              onClick={save}
+              disabled={!profile.name.trim()}
+              className="flex items-center gap-1 text-xs font-bold rounded-lg px-3 py-1.5 bg-areca-600 text-white hover:bg-areca-700 disabled:opacity-40"
+            >
+              <Check size={12} /> Save profile
+            </button>
+          ) : (
+            <button
+              onClick={() => setStep(STEPS[index + 1])}
+              className="flex items-center gap-1 text-xs font-bold rounded-lg px-3 py-1.5 bg-slate-700 text-white hover:bg-slate-800"
+            >
+              Next <ChevronRight size={12} />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PointsTable({ points, unit, canSend, onTest, onChange }: {
+  points: CalibrationPoint[],
+  unit: string,
+  canSend: boolean,
+  onTest: (pwm: number) => void,
+  onChange: (points: CalibrationPoint[]) => void
+}) {
+  const update = (i: number, p: Partial<CalibrationPoint>) => onChange(points.map((pt, j) => j === i ? { ...pt, ...p } : pt));
+
+  return (
+    <div className="space-y-1">
+      <div className="grid grid-cols-[4rem_2rem_5rem_1fr_1rem] gap-2 text-[10px] font-bold uppercase tracking-wider text-gray-400">
+        <span>PWM</span><span /><span>{unit}</span><span>Notes</span><span />
+      </div>
+      {points.map((pt, i) => (
+        <div key={pt.id} className="grid grid-cols-[4rem_2rem_5rem_1fr_1rem] gap-2 items-center">
+          <input
+            type="number"
+            min={0}
+            max={255}
+            value={pt.pwm}
+            onChange={(e) => update(i, { pwm: clampPwm(Number(e.target.value) || 0) })}
+            className="bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 text-xs font-mono"
+          />
+          <button
+            onClick={() => onTest(pt.pwm)}
+            disabled={!canSend}
+            title={`Send PWM ${pt.pwm}`}
+            className="flex items-center justify-center h-full rounded-lg bg-slate-700 text-white hover:bg-slate-800 disabled:opacity-40"
+          >
+            <Play size={10} />
+          </button>
+          <input
+            type="number"
+            min={0}
+            value={pt.speed ?? ''}
+            onChange={(e) => update(i, { speed: e.target.value === '' ? null : Number(e.target.value) })}
+            className="bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 text-xs font-mono"
+          />
+          <input
+            value={pt.note}
+            onChange={(e) => update(i, { note: e.target.value })}
+            placeholder="Torque, slip, quality…"
+            className="bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 text-xs"
+          />
+          <button onClick={() => onChange(points.filter((_, j) => j !== i))} title="Remove step" className="text-gray-300 hover:text-red-600">
+            <X size={12} />
+          </button>
+        </div>
+      ))}
+      <div className="flex gap-3">
+        <button
+          onClick={() => onChange([...points, newCalibrationPoint(points.length ? points[points.length - 1].pwm : 140)])}
+          className="flex items-center gap-1 text-[10px] font-bold text-gray-400 hover:text-areca-600"
+        >
+          <Plus size={10} /> Add step
+        </button>
+        {points.length === 0 && (
+          <button onClick={() => onChange(newCalibrationPoints())} className="text-[10px] font-bold text-gray-400 hover:text-areca-600">
+            Default steps
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PwmPicker({ label, value, points, onChange }: {
+  label: string,
+  value: number,
+  points: CalibrationPoint[],
+  onChange: (pwm: number) => void
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs font-bold text-gray-500 uppercase tracking-wider w-24">{label}</span>
+      <input
+        type="number"
+        min={0}
+        max={255}
+        value={value}
+        onChange={(e) => onChange(clampPwm(Number(e.target.value) || 0))}
+        className="w-16 bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 text-xs font-mono"
+      />
+      <div className="flex flex-wrap gap-1">
+        {points.map(pt => (
+          <button
+            key={pt.id}
+            onClick={() => onChange(pt.pwm)}
+            title={[pt.speed !== null ? String(pt.speed) : '', pt.note].filter(Boolean).join(' · ') || undefined}
+            className={`text-[10px] font-mono px-1.5 py-0.5 rounded border ${pt.pwm === value ? 'border-areca-500 text-areca-700 bg-areca-50' : 'border-gray-200 text-gray-400 hover:text-areca-600'}`}
+          >
+            {pt.pwm}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
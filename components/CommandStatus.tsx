@@ -0,0 +1,53 @@
+import React from 'react';
+import { CheckCircle2, Clock, Send, XCircle } from 'lucide-react';
+import { CommandRecord, CommandStatus } from '../types';
+
+const BADGE_STYLES: Record<CommandStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700 border-amber-200',
+  confirmed: 'bg-green-100 text-green-700 border-green-200',
+  failed: 'bg-red-100 text-red-700 border-red-200',
+};
+
+const BADGE_ICONS: Record<CommandStatus, React.ReactNode> = {
+  pending: <Clock size={10} />,
+  confirmed: <CheckCircle2 size={10} />,
+  failed: <XCircle size={10} />,
+};
+
+export function CommandBadge({ record }: { record: CommandRecord | null }) {
+  if (!record) return null;
+  return (
+    <span
+      title={record.error ?? undefined}
+      className={`inline-flex items-center gap-1 text-[10px] font-mono font-bold uppercase px-2 py-0.5 rounded-full border ${BADGE_STYLES[record.status]}`}
+    >
+      {BADGE_ICONS[record.status]} {record.status}
+      {record.attempts > 1 && <span className="opacity-70">×{record.attempts}</span>}
+    </span>
+  );
+}
+
+interface CommandStatusPanelProps {
+  commands: CommandRecord[];
+}
+
+export function CommandStatusPanel({ commands }: CommandStatusPanelProps) {
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-bold flex items-center gap-2 mb-4 text-slate-700">
+        <Send size={20} className="text-areca-600"/> Command Status
+      </h2>
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {commands.length === 0 && <div className="text-sm text-gray-400 italic text-center py-4">No commands sent yet</div>}
+        {commands.map(c => (
+          <div key={c.id} className="flex items-center gap-3 px-2 py-1 rounded-lg hover:bg-gray-50 text-xs">
+            <span className="font-mono text-gray-400 shrink-0">{new Date(c.sentAt).toLocaleTimeString()}</span>
+            <span className="font-mono font-bold text-slate-700 flex-1 truncate">{c.cmd}</span>
+            <span className="font-mono text-[10px] text-gray-400 uppercase">{c.transport}</span>
+            <CommandBadge record={c} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
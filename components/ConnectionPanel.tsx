@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import { Activity, Save, RotateCcw, Radio, Settings2 } from 'lucide-react';
+import { DEFAULT_CONNECTION_SETTINGS } from '../services/api';
+import { CommandRecord, ConnectionSettings, LinkDiagnostics, RobotProfile, TransportMode } from '../types';
+
+const MODE_OPTIONS: { mode: TransportMode, label: string, hint: string }[] = [
+  { mode: 'auto', label: 'Auto', hint: 'WebSocket, HTTP fallback' },
+  { mode: 'ws', label: 'WS only', hint: 'No HTTP fallback' },
+  { mode: 'http', label: 'HTTP only', hint: 'Commands only, no telemetry' },
+];
+
+const SOCKET_TRANSPORTS: ConnectionSettings['socketTransports'] = ['websocket', 'polling'];
+
+interface ConnectionPanelProps {
+  robot: RobotProfile;
+  diagnostics: LinkDiagnostics | null;
+  commands: CommandRecord[];
+  onSave: (patch: Pick<RobotProfile, 'host' | 'port' | 'connection'>) => void;
+  onPing: () => void;
+}
+
+/** Connection settings for the selected robot, and live link diagnostics. */
+export function ConnectionPanel({ robot, diagnostics, commands, onSave, onPing }: ConnectionPanelProps) {
+  const [tab, setTab] = useState<'diagnostics' | 'settings'>('diagnostics');
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold flex items-center gap-2 text-slate-700">
+          <Radio size={20} className="text-areca-600"/> Connection
+        </h2>
+        <div className="flex bg-gray-100 rounded-lg p-0.5 text-[10px] font-bold">
+          {(['diagnostics', 'settings'] as const).map(t => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`px-2 py-1 rounded-md uppercase tracking-wider ${tab === t ? 'bg-white shadow-sm text-areca-700' : 'text-gray-500'}`}
+            >
+              {t}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {tab === 'diagnostics'
+        ? <Diagnostics diagnostics={diagnostics} commands={commands} onPing={onPing} />
+        : <div key={robot.id}><SettingsForm robot={robot} onSave={onSave} /></div>}
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Subcomponents
+// ----------------------------------------------------------------------
+
+function Diagnostics({ diagnostics: d, commands, onPing }: {
+  diagnostics: LinkDiagnostics | null,
+  commands: CommandRecord[],
+  onPing: () => void
+}) {
+  if (!d) return <div className="text-sm text-gray-400 italic text-center py-4">No diagnostics yet</div>;
+
+  const link = d.mode === 'http' ? 'HTTP only' : d.connected ? `Up ${formatAge(d.connectedSince)}` : 'Down';
+  const recent = commands.slice(0, 8);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        <Stat label="Link" value={link} tone={d.mode === 'http' ? 'warn' : d.connected ? 'ok' : 'bad'} />
+        <Stat
+          label="Latency"
+          value={d.latencyMs === null ? '—' : `${d.latencyMs} ms`}
+          detail={d.pingedAt === null ? 'no reply yet' : `${formatAge(d.pingedAt)} ago`}
+          tone={d.latencyMs === null ? undefined : d.latencyMs > 500 ? 'bad' : d.latencyMs > 150 ? 'warn' : 'ok'}
+        />
+        <Stat
+          label="Reconnects"
+          value={d.reconnectAttempts > 0 ? `attempt ${d.reconnectAttempts}` : String(d.reconnects)}
+          detail={d.reconnectAttempts > 0 ? 'retrying' : 'since start'}
+          tone={d.reconnectAttempts > 0 ? 'warn' : undefined}
+        />
+        <Stat label="Received" value={`${d.rxPerSec.toFixed(1)}/s`} detail={`${d.rxTotal} total`} />
+        <Stat label="Sent" value={`${d.txPerSec.toFixed(1)}/s`} detail={`${d.txTotal} total`} />
+        <Stat label="Via WS / HTTP" value={`${d.commandsByTransport.ws} / ${d.commandsByTransport.http}`} detail="commands" />
+      </div>
+
+      <div className={`rounded-xl border p-2 text-xs ${d.lastError ? 'border-red-200 bg-red-50 text-red-700' : 'border-gray-100 text-gray-400'}`}>
+        <span className="font-bold uppercase tracking-wider text-[10px] mr-2">Last error</span>
+        {d.lastError
+          ? <><span className="font-mono mr-2">{new Date(d.lastError.time).toLocaleTimeString()}</span>{d.lastError.message}</>
+          : 'None'}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">Recent commands</span>
+          <button
+            onClick={onPing}
+            disabled={d.mode === 'http' || !d.connected}
+            className="flex items-center gap-1 text-[10px] font-bold rounded-lg px-2 py-1 border border-gray-200 text-gray-500 hover:text-areca-600 disabled:opacity-40"
+          >
+            <Activity size={10} /> Ping now
+          </button>
+        </div>
+        <div className="space-y-0.5">
+          {recent.length === 0 && <div className="text-xs text-gray-400 italic">No commands sent yet</div>}
+          {recent.map(c => (
+            <div key={c.id} className="flex items-center gap-2 text-xs font-mono">
+              <span className="font-bold text-slate-700 flex-1 truncate">{c.cmd}</span>
+              <span className={`text-[10px] uppercase px-1.5 rounded ${c.transport === 'http' ? 'bg-amber-100 text-amber-700' : 'bg-gray-100 text-gray-500'}`}>
+                {c.transport}
+              </span>
+              <span className="text-gray-400 w-14 text-right">{c.settledAt === null ? c.status : `${c.settledAt - c.sentAt} ms`}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value, detail, tone }: {
+  label: string,
+  value: string,
+  detail?: string,
+  tone?: 'ok' | 'warn' | 'bad'
+}) {
+  const color = tone === 'ok' ? 'text-green-700' : tone === 'warn' ? 'text-amber-600' : tone === 'bad' ? 'text-red-600' : 'text-slate-700';
+  return (
+    <div className="rounded-xl bg-gray-50 border border-gray-100 p-2">
+      <div className="text-[10px] font-bold uppercase tracking-wider text-gray-400">{label}</div>
+      <div className={`font-mono font-bold text-sm ${color}`}>{value}</div>
+      {detail && <div className="text-[10px] text-gray-400">{detail}</div>}
+    </div>
+  );
+}
+
+function SettingsForm({ robot, onSave }: {
+  robot: RobotProfile,
+  onSave: (patch: Pick<RobotProfile, 'host' | 'port' | 'connection'>) => void
+}) {
+  const [host, setHost] = useState(robot.host);
+  const [port, setPort] = useState(String(robot.port));
+  const [draft, setDraft] = useState<ConnectionSettings>(robot.connection ?? DEFAULT_CONNECTION_SETTINGS);
+  const [saved, setSaved] = useState(false);
+
+  // Pick up edits made elsewhere, e.g. the fleet panel
+  useEffect(() => {
+    setHost(robot.host);
+    setPort(String(robot.port));
+  }, [robot.host, robot.port]);
+
+  const patch = (p: Partial<ConnectionSettings>) => {
+    setDraft(prev => ({ ...prev, ...p }));
+    setSaved(false);
+  };
+
+  const toggleTransport = (t: ConnectionSettings['socketTransports'][number]) => {
+    const next = draft.socketTransports.includes(t)
+      ? draft.socketTransports.filter(x => x !== t)
+      : SOCKET_TRANSPORTS.filter(x => x === t || draft.socketTransports.includes(x));
+    if (next.length) patch({ socketTransports: next });
+  };
+
+  const portNum = parseInt(port, 10);
+  const valid = host.trim() !== '' && portNum > 0 && portNum < 65536;
+
+  const handleSave = () => {
+    if (!valid) return;
+    onSave({ host: host.trim(), port: portNum, connection: draft });
+    setSaved(true);
+  };
+
+  const inputClass = 'w-full border border-gray-300 rounded-lg px-2 py-1 text-sm font-mono';
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="grid grid-cols-3 gap-2">
+        <label className="col-span-2 text-gray-500 font-bold">
+          Host
+          <input value={host} onChange={(e) => { setHost(e.target.value); setSaved(false); }} className={inputClass} />
+        </label>
+        <label className="text-gray-500 font-bold">
+          Port
+          <input value={port} onChange={(e) => { setPort(e.target.value); setSaved(false); }} className={inputClass} />
+        </label>
+      </div>
+
+      <div>
+        <div className="text-gray-500 font-bold mb-1">Transport</div>
+        <div className="grid grid-cols-3 gap-1">
+          {MODE_OPTIONS.map(o => (
+            <button
+              key={o.mode}
+              onClick={() => patch({ mode: o.mode })}
+              className={`rounded-lg border p-1.5 text-left ${draft.mode === o.mode ? 'border-areca-600 bg-areca-50 text-areca-800' : 'border-gray-200 text-gray-500'}`}
+            >
+              <div className="font-bold">{o.label}</div>
+              <div className="text-[10px] opacity-80">{o.hint}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={`grid grid-cols-2 gap-2 ${draft.mode === 'http' ? 'opacity-40 pointer-events-none' : ''}`}>
+        <div className="col-span-2 flex items-center gap-3 text-gray-500 font-bold">
+          Socket.IO
+          {SOCKET_TRANSPORTS.map(t => (
+            <label key={t} className="flex items-center gap-1 font-normal font-mono">
+              <input type="checkbox" checked={draft.socketTransports.includes(t)} onChange={() => toggleTransport(t)} />
+              {t}
+            </label>
+          ))}
+        </div>
+        <label className="text-gray-500 font-bold">
+          Connect timeout (s)
+          <input
+            type="number" min={1}
+            value={draft.timeoutMs / 1000}
+            onChange={(e) => patch({ timeoutMs: Math.max(1, parseFloat(e.target.value) || 1) * 1000 })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-gray-500 font-bold">
+          Reconnect attempts
+          <input
+            type="number" min={0}
+            value={draft.reconnectionAttempts}
+            onChange={(e) => patch({ reconnectionAttempts: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-gray-500 font-bold">
+          Ping every (s, 0 = off)
+          <input
+            type="number" min={0}
+            value={draft.pingIntervalMs / 1000}
+            onChange={(e) => patch({ pingIntervalMs: Math.max(0, parseFloat(e.target.value) || 0) * 1000 })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <label className={`block text-gray-500 font-bold ${draft.mode === 'ws' ? 'opacity-40 pointer-events-none' : ''}`}>
+        HTTP command path
+        <input value={draft.httpPath} onChange={(e) => patch({ httpPath: e.target.value })} className={inputClass} />
+      </label>
+
+      <div className="flex items-center gap-2 pt-1">
+        <button
+          onClick={handleSave}
+          disabled={!valid}
+          className="flex items-center gap-1 text-xs font-bold rounded-lg px-3 py-1.5 bg-areca-600 hover:bg-areca-700 text-white disabled:opacity-40"
+        >
+          <Save size={12} /> Apply &amp; reconnect
+        </button>
+        <button
+          onClick={() => patch(DEFAULT_CONNECTION_SETTINGS)}
+          className="flex items-center gap-1 text-xs font-bold rounded-lg px-3 py-1.5 border border-gray-200 text-gray-500 hover:text-areca-600"
+        >
+          <RotateCcw size={12} /> Defaults
+        </button>
+        {saved && <span className="text-green-700 flex items-center gap-1"><Settings2 size={12} /> Applied</span>}
+      </div>
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------
+
+function formatAge(since: number | null): string {
+  if (since === null) return '';
+  const s = Math.max(0, Math.round((Date.now() - since) / 1000));
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m${(s % 60).toString().padStart(2, '0')}s`;
+  return `${Math.floor(s / 3600)}h${Math.floor((s % 3600) / 60).toString().padStart(2, '0')}m`;
+}
@@ -0,0 +1,305 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Terminal, Pause, Play, ArrowDownToLine, Copy, Download, Trash2, Search, CornerDownLeft } from 'lucide-react';
+import { Suggestion, loadCommandHistory, pushCommandHistory, suggestCommands } from '../services/commandLine';
+import { isKnownCommand, validateRawCommand } from '../services/protocol';
+import { LogEntry, LogLevel, LogType } from '../types';
+import { downloadText } from '../utils/download';
+
+const TYPES: LogType[] = ['tx', 'rx', 'sys'];
+
+const TYPE_STYLES: Record<LogType, string> = {
+  tx: 'text-blue-400',
+  rx: 'text-areca-400',
+  sys: 'text-slate-400',
+};
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  debug: 'text-slate-500',
+  info: 'text-slate-300',
+  warn: 'text-amber-300',
+  error: 'text-red-400',
+};
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+interface EventConsoleProps {
+  logs: LogEntry[];               // Oldest first
+  canSend: boolean;
+  onSend: (cmd: string, raw: boolean) => void;   // raw: not in the dashboard's command list
+  onClear: () => void;
+}
+
+/**
+ * Filterable log console with a raw command line underneath. Pausing
+ * freezes the view on a snapshot while new records keep arriving.
+ */
+export function EventConsole({ logs, canSend, onSend, onClear }: EventConsoleProps) {
+  const [types, setTypes] = useState<LogType[]>(TYPES);
+  const [minLevel, setMinLevel] = useState<LogLevel>('debug');
+  const [search, setSearch] = useState('');
+  const [paused, setPaused] = useState<LogEntry[] | null>(null);
+  const [autoScroll, setAutoScroll] = useState(true);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  const source = paused ?? logs;
+  const visible = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    return source.filter(l =>
+      types.includes(l.type) &&
+      LEVEL_RANK[l.level] >= LEVEL_RANK[minLevel] &&
+      (!needle || `${l.source} ${l.transport ?? ''} ${l.message}`.toLowerCase().includes(needle))
+    );
+  }, [source, types, minLevel, search]);
+
+  useEffect(() => {
+    if (autoScroll && listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [visible, autoScroll]);
+
+  const toggleType = (type: LogType) =>
+    setTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+
+  const handleCopy = () => {
+    navigator.clipboard?.writeText(visible.map(formatLine).join('\n')).catch(() => undefined);
+  };
+
+  const handleExport = () => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const lines = visible.map(({ id, ...record }) => JSON.stringify(record));
+    downloadText(`arecabot-events-${stamp}.jsonl`, lines.join('\n') + '\n', 'application/x-ndjson');
+  };
+
+  // Records that arrived since pausing; the snapshot's last record may have
+  // been trimmed from the live list already
+  const lastPaused = paused?.[paused.length - 1];
+  const pending = paused ? logs.length - 1 - logs.findIndex(l => l.id === lastPaused?.id) : 0;
+
+  return (
+    <div className="bg-slate-900 rounded-2xl shadow-md overflow-hidden flex flex-col h-[520px] border border-slate-800">
+      <div className="p-3 px-4 bg-slate-950 border-b border-slate-800 space-y-2">
+        <div className="flex justify-between items-center">
+          <h2 className="text-gray-100 font-mono text-xs font-bold flex items-center gap-2 uppercase tracking-wider">
+            <Terminal size={14} className="text-areca-400"/> System Events
+          </h2>
+          <div className="flex items-center gap-1">
+            <span className="text-[10px] font-mono bg-slate-800 text-slate-400 px-2 py-0.5 rounded-full mr-1">
+              {visible.length}/{source.length}
+            </span>
+            <ToolButton
+              title={paused ? `Resume (${pending} new)` : 'Pause'}
+              active={paused !== null}
+              onClick={() => setPaused(paused ? null : logs)}
+            >
+              {paused ? <Play size={12} /> : <Pause size={12} />}
+            </ToolButton>
+            <ToolButton title="Auto-scroll" active={autoScroll} onClick={() => setAutoScroll(!autoScroll)}>
+              <ArrowDownToLine size={12} />
+            </ToolButton>
+            <ToolButton title="Copy visible events" onClick={handleCopy}>
+              <Copy size={12} />
+            </ToolButton>
+            <ToolButton title="Export visible events (JSONL)" onClick={handleExport}>
+              <Download size={12} />
+            </ToolButton>
+            <ToolButton title="Clear" onClick={() => { setPaused(null); onClear(); }}>
+              <Trash2 size={12} />
+            </ToolButton>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 font-mono text-[10px]">
+          {TYPES.map(t => (
+            <button
+              key={t}
+              onClick={() => toggleType(t)}
+              className={`px-2 py-0.5 rounded font-bold uppercase ${types.includes(t) ? `bg-slate-800 ${TYPE_STYLES[t]}` : 'text-slate-600'}`}
+            >
+              {t}
+            </button>
+          ))}
+          <select
+            value={minLevel}
+            onChange={(e) => setMinLevel(e.target.value as LogLevel)}
+            className="bg-slate-800 text-slate-300 rounded px-1 py-0.5"
+          >
+            <option value="debug">all levels</option>
+            <option value="info">info+</option>
+            <option value="warn">warn+</option>
+            <option value="error">errors</option>
+          </select>
+          <div className="flex-1 flex items-center gap-1 bg-slate-800 rounded px-2 py-0.5">
+            <Search size={10} className="text-slate-500" />
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search"
+              className="flex-1 bg-transparent text-slate-200 outline-none placeholder:text-slate-600"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto p-4 space-y-1 font-mono text-[11px] leading-relaxed">
+        {visible.length === 0 && (
+          <div className="text-slate-600 italic text-center mt-10">
+            {source.length ? 'No events match the filters' : 'Waiting for system logs...'}
+          </div>
+        )}
+        {visible.map((log) => (
+          <div key={log.id} className="flex gap-3 hover:bg-white/5 p-1 rounded -mx-1 transition-colors">
+            <span className="text-slate-500 shrink-0 select-none">{new Date(log.time).toLocaleTimeString()}</span>
+            <span className={`font-bold shrink-0 w-8 text-center ${TYPE_STYLES[log.type]}`}>{log.type.toUpperCase()}</span>
+            <span className="text-slate-500 shrink-0 w-20 truncate" title={log.source}>
+              {log.source}{log.transport && <span className="text-slate-600">/{log.transport}</span>}
+            </span>
+            <span className={`break-all ${LEVEL_STYLES[log.level]}`}>{log.message}</span>
+          </div>
+        ))}
+      </div>
+
+      <CommandLine canSend={canSend} onSend={onSend} />
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Subcomponents
+// ----------------------------------------------------------------------
+
+function ToolButton({ title, active = false, onClick, children }: {
+  title: string,
+  active?: boolean,
+  onClick: () => void,
+  children: React.ReactNode
+}) {
+  return (
+    <button
+      title={title}
+      onClick={onClick}
+      className={`p-1.5 rounded ${active ? 'bg-slate-800 text-areca-400' : 'text-slate-500 hover:text-slate-200'}`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Raw command input. Up/Down walk the history, Tab takes the first
+ * suggestion, and commands are validated before they are sent. A command
+ * the dashboard doesn't know is sent unchecked after a second Enter, so
+ * new firmware commands can be used before they get a button.
+ */
+function CommandLine({ canSend, onSend }: { canSend: boolean, onSend: (cmd: string, raw: boolean) => void }) {
+  const [text, setText] = useState('');
+  const [history, setHistory] = useState<string[]>(loadCommandHistory);
+  const [historyIndex, setHistoryIndex] = useState(-1);
+  const [error, setError] = useState<string | null>(null);
+  const [unchecked, setUnchecked] = useState<string | null>(null);   // Unknown command awaiting confirmation
+
+  const suggestions: Suggestion[] = text ? suggestCommands(text).slice(0, 6) : [];
+
+  const edit = (value: string) => {
+    setText(value.toUpperCase());
+    setHistoryIndex(-1);
+    setError(null);
+    setUnchecked(null);
+  };
+
+  const submit = () => {
+    const cmd = text.trim().replace(/\s+/g, ' ');
+    if (!cmd) return;
+    const known = isKnownCommand(cmd);
+    if (!known) {
+      try {
+        validateRawCommand(cmd);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+        return;
+      }
+      if (unchecked !== cmd) {
+        setUnchecked(cmd);
+        return;
+      }
+    }
+    onSend(cmd, !known);
+    setUnchecked(null);
+    setHistory(prev => pushCommandHistory(prev, cmd));
+    setHistoryIndex(-1);
+    setText('');
+  };
+
+  const recall = (index: number) => {
+    const clamped = Math.max(-1, Math.min(history.length - 1, index));
+    setHistoryIndex(clamped);
+    setText(clamped < 0 ? '' : history[clamped]);
+    setError(null);
+    setUnchecked(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      submit();
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      recall(historyIndex + 1);
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      recall(historyIndex - 1);
+    } else if (e.key === 'Tab' && suggestions.length) {
+      e.preventDefault();
+      edit(suggestions[0].value);
+    }
+  };
+
+  return (
+    <div className="border-t border-slate-800 bg-slate-950 p-2 font-mono text-[11px]">
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-1.5">
+          {suggestions.map(s => (
+            <button
+              key={s.value}
+              onClick={() => edit(s.value)}
+              className="px-1.5 py-0.5 rounded bg-slate-800 text-slate-300 hover:text-areca-400"
+            >
+              {s.value.trim()}{s.hint && <span className="text-slate-500"> {s.hint}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center gap-2">
+        <span className="text-areca-400 font-bold select-none">&gt;</span>
+        <input
+          value={text}
+          onChange={(e) => edit(e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={!canSend}
+          placeholder={canSend ? 'Command, e.g. LSPD 180' : 'Commands are unavailable'}
+          spellCheck={false}
+          className="flex-1 bg-transparent text-slate-100 outline-none placeholder:text-slate-600 disabled:opacity-50"
+        />
+        <button
+          onClick={submit}
+          disabled={!canSend || !text.trim()}
+          title="Send"
+          className="p-1 text-slate-500 hover:text-areca-400 disabled:opacity-30"
+        >
+          <CornerDownLeft size={12} />
+        </button>
+      </div>
+      {error && <div className="text-red-400 mt-1">{error}</div>}
+      {unchecked && (
+        <div className="text-amber-300 mt-1">
+          {unchecked.split(' ')[0]} is not a known command. Press Enter again to send it unchecked.
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------
+
+function formatLine(log: LogEntry): string {
+  const origin = log.transport ? `${log.source}/${log.transport}` : log.source;
+  return `${new Date(log.time).toISOString()} ${log.type.toUpperCase()} ${log.level.toUpperCase()} ${origin} ${log.message}`;
+}
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Bot, Plus, Trash2, Pencil, Check, X, Gamepad } from 'lucide-react';
+import { FirmwareInfo, RobotProfile, RobotStatus } from '../types';
+
+interface FleetPanelProps {
+  robots: RobotProfile[];
+  status: Record<string, RobotStatus>;
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onAdd: (name: string, host: string, port: number) => void;
+  onUpdate: (id: string, patch: Partial<Omit<RobotProfile, 'id'>>) => void;
+  onRemove: (id: string) => void;
+}
+
+export function FleetPanel({ robots, status, selectedId, onSelect, onAdd, onUpdate, onRemove }: FleetPanelProps) {
+  const [adding, setAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold flex items-center gap-2 text-slate-700">
+          <Bot size={20} className="text-areca-600"/> Fleet
+        </h2>
+        <button
+          onClick={() => setAdding(!adding)}
+          className="text-[10px] font-mono font-bold px-2 py-0.5 rounded border border-gray-200 text-gray-500 hover:text-areca-600 flex items-center gap-1"
+        >
+          <Plus size={10} /> ADD ROBOT
+        </button>
+      </div>
+
+      {adding && (
+        <RobotForm
+          submitLabel="Add"
+          onSubmit={(name, host, port) => {
+            onAdd(name, host, port);
+            setAdding(false);
+          }}
+          onCancel={() => setAdding(false)}
+        />
+      )}
+
+      <div className="space-y-2">
+        {robots.map(robot => {
+          const s = status[robot.id];
+          const selected = robot.id === selectedId;
+          const t = s?.telemetry;
+
+          if (editingId === robot.id) {
+            return (
+              <div key={robot.id}>
+                <RobotForm
+                  initial={robot}
+                  submitLabel="Save"
+                  onSubmit={(name, host, port) => {
+                    onUpdate(robot.id, { name, host, port });
+                    setEditingId(null);
+                  }}
+                  onCancel={() => setEditingId(null)}
+                />
+              </div>
+            );
+          }
+
+          return (
+            <div
+              key={robot.id}
+              className={`rounded-xl border p-3 transition-colors ${selected ? 'border-areca-500 bg-areca-50' : 'border-gray-100 bg-gray-50'}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${s?.connected ? 'bg-green-500' : 'bg-red-400'}`} />
+                <span className="font-bold text-slate-800 truncate">{robot.name}</span>
+                <span className="text-[10px] font-mono text-gray-400 truncate">{robot.host}:{robot.port}</span>
+                {s?.connected && <FirmwareTag firmware={s.firmware} />}
+                <div className="ml-auto flex items-center gap-1">
+                  {selected ? (
+                    <span className="text-[10px] font-bold uppercase tracking-wider text-areca-700 px-2">Controlling</span>
+                  ) : (
+                    <button
+                      onClick={() => onSelect(robot.id)}
+                      className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider bg-slate-700 hover:bg-slate-800 text-white rounded px-2 py-1"
+                    >
+                      <Gamepad size={10} /> Control
+                    </button>
+                  )}
+                  <button onClick={() => setEditingId(robot.id)} className="p-1 text-gray-400 hover:text-areca-600" title="Edit">
+                    <Pencil size={12} />
+                  </button>
+                  <button
+                    onClick={() => window.confirm(`Remove ${robot.name} from the fleet?`) && onRemove(robot.id)}
+                    disabled={robots.length <= 1}
+                    className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                    title="Remove"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-4 gap-2 mt-2 text-[10px] font-mono text-gray-500">
+                <span>US {t?.us ?? '--'}</span>
+                <span>T {t?.temp ?? '--'}</span>
+                <span className="truncate">ST {t?.state ?? '--'}</span>
+                <span>{t?.pos ? `X${t.pos[0]} Y${t.pos[1]}` : '--'}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Subcomponents
+// ----------------------------------------------------------------------
+
+function FirmwareTag({ firmware }: { firmware: FirmwareInfo | null }) {
+  if (!firmware) return <span className="text-[10px] font-mono text-gray-400">handshake…</span>;
+  const label = firmware.protocol === 0 ? 'legacy fw' : `${firmware.version ?? 'fw'} · v${firmware.protocol}`;
+  return (
+    <span
+      title={firmware.supported ? 'Protocol supported' : 'Unsupported protocol version'}
+      className={`text-[10px] font-mono px-1.5 rounded border truncate ${firmware.supported ? 'text-gray-500 border-gray-200' : 'text-red-700 border-red-200 bg-red-50'}`}
+    >
+      {label}
+    </span>
+  );
+}
+
+function RobotForm({ initial, submitLabel, onSubmit, onCancel }: {
+  initial?: RobotProfile,
+  submitLabel: string,
+  onSubmit: (name: string, host: string, port: number) => void,
+  onCancel: () => void
+}) {
+  const [name, setName] = useState(initial?.name ?? '');
+  const [host, setHost] = useState(initial?.host ?? '');
+  const [port, setPort] = useState((initial?.port ?? 8765).toString());
+
+  const portNum = parseInt(port);
+  const valid = name.trim() !== '' && host.trim() !== '' && portNum > 0 && portNum < 65536;
+
+  return (
+    <div className="bg-gray-50 rounded-xl border border-gray-200 p-3 mb-2 flex flex-wrap gap-2 items-center">
+      <input
+        placeholder="Name"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className="flex-1 min-w-[100px] border border-gray-300 rounded px-2 py-1 text-sm"
+      />
+      <input
+        placeholder="Host / IP"
+        value={host}
+        onChange={(e) => setHost(e.target.value)}
+        className="flex-1 min-w-[120px] border border-gray-300 rounded px-2 py-1 text-sm font-mono"
+      />
+      <input
+        type="number"
+        placeholder="Port"
+        value={port}
+        onChange={(e) => setPort(e.target.value)}
+        className="w-20 border border-gray-300 rounded px-2 py-1 text-sm font-mono"
+      />
+      <button
+        onClick={() => onSubmit(name.trim(), host.trim(), portNum)}
+        disabled={!valid}
+        className="flex items-center gap-1 bg-areca-600 hover:bg-areca-700 text-white text-xs font-bold rounded px-2 py-1.5 disabled:opacity-40"
+      >
+        <Check size={12} /> {submitLabel}
+      </button>
+      <button onClick={onCancel} className="p-1.5 text-gray-400 hover:text-slate-700">
+        <X size={12} />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import React, { useMemo } from 'react';
+import { Map as MapIcon, RotateCcw } from 'lucide-react';
+import { cellKey } from '../services/gridMap';
+import { GridCell, GridMapState } from '../types';
+
+const CELL = 24;
+const MIN_CELLS = 8;
+const NO_ROUTE: GridCell[] = [];
+
+interface GridMapProps {
+  state: GridMapState;
+  onReset: () => void;
+  route?: GridCell[];                       // Planned mission waypoints
+  activeRouteIndex?: number;                // Waypoint currently being driven to
+  onCellClick?: (cell: GridCell) => void;   // Enables click-to-add waypoints
+}
+
+export function GridMap({ state, onReset, route = NO_ROUTE, activeRouteIndex, onCellClick }: GridMapProps) {
+  const bounds = useMemo(() => computeBounds(state, route), [state, route]);
+  const cols = bounds.maxX - bounds.minX + 1;
+  const rows = bounds.maxY - bounds.minY + 1;
+
+  // Grid Y grows upward (north), SVG Y grows downward
+  const cx = (x: number) => (x - bounds.minX) * CELL + CELL / 2;
+  const cy = (y: number) => (bounds.maxY - y) * CELL + CELL / 2;
+
+  const trailPoints = state.trail.map(c => `${cx(c[0])},${cy(c[1])}`).join(' ');
+  const visited = useMemo(() => uniqueCells(state.trail), [state.trail]);
+  const routePoints = route.map(c => `${cx(c[0])},${cy(c[1])}`).join(' ');
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-bold flex items-center gap-2 text-slate-700">
+          <MapIcon size={20} className="text-areca-600"/> Field Map
+        </h2>
+        <button
+          onClick={onReset}
+          className="text-[10px] font-mono font-bold px-2 py-0.5 rounded border border-gray-200 text-gray-500 hover:text-red-600 flex items-center gap-1"
+        >
+          <RotateCcw size={10} /> RESET TRAIL
+        </button>
+      </div>
+
+      <div className="bg-gray-50 rounded-xl border border-gray-100 p-2 overflow-auto">
+        <svg
+          viewBox={`0 0 ${cols * CELL} ${rows * CELL}`}
+          className="w-full h-auto max-h-[420px]"
+        >
+          {/* Grid lines */}
+          {Array.from({ length: cols + 1 }, (_, i) => (
+            <line key={`v${i}`} x1={i * CELL} y1={0} x2={i * CELL} y2={rows * CELL} stroke="#e5e7eb" strokeWidth={1} />
+          ))}
+          {Array.from({ length: rows + 1 }, (_, i) => (
+            <line key={`h${i}`} x1={0} y1={i * CELL} x2={cols * CELL} y2={i * CELL} stroke="#e5e7eb" strokeWidth={1} />
+          ))}
+
+          {/* Visited cells */}
+          {visited.map(c => (
+            <rect
+              key={`t${c[0]},${c[1]}`}
+              x={cx(c[0]) - CELL / 2 + 1} y={cy(c[1]) - CELL / 2 + 1}
+              width={CELL - 2} height={CELL - 2}
+              fill="#d1fae5" rx={3}
+            />
+          ))}
+
+          {/* Obstacles */}
+          {state.obstacles.map(c => (
+            <g key={`o${c[0]},${c[1]}`}>
+              <rect
+                x={cx(c[0]) - CELL / 2 + 2} y={cy(c[1]) - CELL / 2 + 2}
+                width={CELL - 4} height={CELL - 4}
+                fill="#fee2e2" stroke="#ef4444" strokeWidth={1.5} rx={3}
+              />
+              <path
+                d={`M${cx(c[0]) - 5},${cy(c[1]) - 5} L${cx(c[0]) + 5},${cy(c[1]) + 5} M${cx(c[0]) + 5},${cy(c[1]) - 5} L${cx(c[0]) - 5},${cy(c[1]) + 5}`}
+                stroke="#ef4444" strokeWidth={1.5}
+              />
+            </g>
+          ))}
+
+          {/* Breadcrumb trail */}
+          {state.trail.length > 1 && (
+            <polyline points={trailPoints} fill="none" stroke="#059669" strokeWidth={2} strokeDasharray="4 3" strokeLinejoin="round" />
+          )}
+
+          {/* Planned route */}
+          {route.length > 1 && (
+            <polyline points={routePoints} fill="none" stroke="#3b82f6" strokeWidth={1.5} strokeOpacity={0.6} />
+          )}
+          {route.map((c, i) => (
+            <g key={`w${i}`}>
+              <circle
+                cx={cx(c[0])} cy={cy(c[1])} r={7}
+                fill={i === activeRouteIndex ? '#3b82f6' : '#fff'}
+                stroke="#3b82f6" strokeWidth={1.5}
+              />
+              <text
+                x={cx(c[0])} y={cy(c[1]) + 3} textAnchor="middle" fontSize={8} fontWeight="bold"
+                fill={i === activeRouteIndex ? '#fff' : '#3b82f6'}
+              >
+                {i + 1}
+              </text>
+            </g>
+          ))}
+
+          {/* Robot */}
+          {state.pos && (
+            <g transform={`translate(${cx(state.pos[0])},${cy(state.pos[1])}) rotate(${state.heading ?? 0})`}>
+              <circle r={CELL / 2 - 2} fill="#059669" stroke="#fff" strokeWidth={2} />
+              {state.heading !== null && (
+                <path d={`M0,${-CELL / 2 + 4} L5,2 L0,-1 L-5,2 Z`} fill="#fff" />
+              )}
+            </g>
+          )}
+
+          {/* Click targets for waypoint entry */}
+          {onCellClick && Array.from({ length: cols * rows }, (_, i) => {
+            const cell: GridCell = [bounds.minX + (i % cols), bounds.maxY - Math.floor(i / cols)];
+            return (
+              <rect
+                key={`c${i}`}
+                x={(i % cols) * CELL} y={Math.floor(i / cols) * CELL}
+                width={CELL} height={CELL}
+                fill="transparent"
+                className="cursor-crosshair hover:fill-blue-500/10"
+                onClick={() => onCellClick(cell)}
+              />
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="flex justify-between mt-3 text-[10px] font-mono text-gray-500 uppercase tracking-wider">
+        <span>{state.pos ? `X:${state.pos[0]} Y:${state.pos[1]}` : 'No position'}</span>
+        <span>{visited.length} visited · {state.obstacles.length} obstacles</span>
+      </div>
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------
+
+function uniqueCells(cells: GridCell[]): GridCell[] {
+  const seen = new Set<string>();
+  return cells.filter(c => {
+    const k = cellKey(c);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * Fits the view to every known cell with a one-cell margin, never smaller
+ * than MIN_CELLS square so an idle robot at the origin still shows context.
+ */
+function computeBounds(state: GridMapState, route: GridCell[]) {
+  const cells: GridCell[] = [...state.trail, ...state.obstacles, ...route];
+  if (state.pos) cells.push(state.pos);
+  if (cells.length === 0) cells.push([0, 0]);
+
+  let minX = Math.min(...cells.map(c => c[0])) - 1;
+  let maxX = Math.max(...cells.map(c => c[0])) + 1;
+  let minY = Math.min(...cells.map(c => c[1])) - 1;
+  let maxY = Math.max(...cells.map(c => c[1])) + 1;
+
+  const padX = MIN_CELLS - (maxX - minX + 1);
+  if (padX > 0) {
+    minX -= Math.floor(padX / 2);
+    maxX += Math.ceil(padX / 2);
+  }
+  const padY = MIN_CELLS - (maxY - minY + 1);
+  if (padY > 0) {
+    minY -= Math.floor(padY / 2);
+    maxY += Math.ceil(padY / 2);
+  }
+  return { minX, maxX, minY, maxY };
+}
@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { Gamepad2, Keyboard, Plus, X, RotateCcw } from 'lucide-react';
+import { DEFAULT_BINDINGS, INPUT_ACTIONS, InputController, keyLabel } from '../services/input';
+import { InputAction, InputBindings } from '../types';
+
+interface InputBindingsEditorProps {
+  controller: InputController;
+  bindings: InputBindings;
+  gamepadName: string | null;
+  onChange: (bindings: InputBindings) => void;
+}
+
+type Capture = { action: InputAction, kind: 'key' | 'button' } | null;
+
+export function InputBindingsEditor({ controller, bindings, gamepadName, onChange }: InputBindingsEditorProps) {
+  const [capture, setCapture] = useState<Capture>(null);
+
+  // While capturing, the controller hands us the next key or button press
+  // instead of acting on it
+  useEffect(() => {
+    if (!capture) {
+      controller.onCapture = null;
+      return;
+    }
+    controller.onCapture = ({ key, button }) => {
+      if (key === 'Escape') {
+        setCapture(null);
+        return;
+      }
+      if (capture.kind === 'key' && key) {
+        onChange(addBinding(bindings, 'keys', capture.action, key));
+        setCapture(null);
+      } else if (capture.kind === 'button' && button !== undefined) {
+        onChange(addBinding(bindings, 'buttons', capture.action, button));
+        setCapture(null);
+      }
+    };
+    return () => { controller.onCapture = null; };
+  }, [capture, controller, bindings, onChange]);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold flex items-center gap-2 text-slate-700">
+          <Gamepad2 size={20} className="text-areca-600"/> Input Bindings
+        </h2>
+        <button
+          onClick={() => onChange(DEFAULT_BINDINGS)}
+          className="text-[10px] font-mono font-bold px-2 py-0.5 rounded border border-gray-200 text-gray-500 hover:text-areca-600 flex items-center gap-1"
+        >
+          <RotateCcw size={10} /> DEFAULTS
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-4 mb-4 text-xs">
+        <label className="flex items-center gap-2 font-bold text-gray-600">
+          <input
+            type="checkbox"
+            checked={bindings.keyboardEnabled}
+            onChange={(e) => onChange({ ...bindings, keyboardEnabled: e.target.checked })}
+          />
+          <Keyboard size={14} /> Keyboard
+        </label>
+        <label className="flex items-center gap-2 font-bold text-gray-600">
+          <input
+            type="checkbox"
+            checked={bindings.gamepadEnabled}
+            onChange={(e) => onChange({ ...bindings, gamepadEnabled: e.target.checked })}
+          />
+          <Gamepad2 size={14} /> Gamepad
+        </label>
+        <span className={`font-mono truncate max-w-[220px] ${gamepadName ? 'text-areca-600' : 'text-gray-400'}`}>
+          {gamepadName ?? 'No gamepad detected'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-4 text-xs">
+        <label className="flex flex-col gap-1 font-bold text-gray-500 uppercase tracking-wider">
+          Stick deadzone
+          <input
+            type="range" min={0.1} max={0.9} step={0.05}
+            value={bindings.stickDeadzone}
+            onChange={(e) => onChange({ ...bindings, stickDeadzone: parseFloat(e.target.value) })}
+          />
+        </label>
+        <label className="flex flex-col gap-1 font-bold text-gray-500 uppercase tracking-wider">
+          Speed trigger
+          <select
+            value={bindings.speedTrigger ?? ''}
+            onChange={(e) => onChange({ ...bindings, speedTrigger: e.target.value === '' ? null : parseInt(e.target.value) })}
+            className="border border-gray-300 rounded px-2 py-1 font-mono normal-case"
+          >
+            <option value="">None</option>
+            <option value="6">LT (6)</option>
+            <option value="7">RT (7)</option>
+          </select>
+        </label>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-400 uppercase tracking-wider text-[10px]">
+            <th className="text-left font-bold py-1">Action</th>
+            <th className="text-left font-bold py-1">Keys</th>
+            <th className="text-left font-bold py-1">Buttons</th>
+          </tr>
+        </thead>
+        <tbody>
+          {INPUT_ACTIONS.map(({ action, label }) => (
+            <tr key={action} className="border-t border-gray-100">
+              <td className="py-1.5 font-bold text-slate-700">{label}</td>
+              <td className="py-1.5">
+                <BindingChips
+                  labels={bindings.keys[action].map(keyLabel)}
+                  capturing={capture?.action === action && capture.kind === 'key'}
+                  onAdd={() => setCapture({ action, kind: 'key' })}
+                  onRemove={(i) => onChange(removeBinding(bindings, 'keys', action, i))}
+                />
+              </td>
+              <td className="py-1.5">
+                <BindingChips
+                  labels={bindings.buttons[action].map(b => `B${b}`)}
+                  capturing={capture?.action === action && capture.kind === 'button'}
+                  onAdd={() => setCapture({ action, kind: 'button' })}
+                  onRemove={(i) => onChange(removeBinding(bindings, 'buttons', action, i))}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {capture && (
+        <div className="mt-3 text-xs text-blue-600 font-bold">
+          Press a {capture.kind === 'key' ? 'key' : 'gamepad button'} to bind… (Esc to cancel)
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Subcomponents
+// ----------------------------------------------------------------------
+
+function BindingChips({ labels, capturing, onAdd, onRemove }: {
+  labels: string[],
+  capturing: boolean,
+  onAdd: () => void,
+  onRemove: (index: number) => void
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {labels.map((l, i) => (
+        <span key={`${l}-${i}`} className="inline-flex items-center gap-1 bg-slate-100 border border-slate-200 rounded px-1.5 py-0.5 font-mono">
+          {l}
+          <button onClick={() => onRemove(i)} className="text-gray-400 hover:text-red-600"><X size={10} /></button>
+        </span>
+      ))}
+      <button
+        onClick={onAdd}
+        className={`inline-flex items-center rounded px-1 py-0.5 border ${capturing ? 'border-blue-400 text-blue-600 animate-pulse' : 'border-dashed border-gray-300 text-gray-400 hover:text-areca-600'}`}
+      >
+        <Plus size={10} />
+      </button>
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------
+
+// A key or button drives one action only, so binding it removes it elsewhere
+function addBinding<K extends 'keys' | 'buttons'>(
+  bindings: InputBindings, kind: K, action: InputAction, value: InputBindings[K][InputAction][number]
+): InputBindings {
+  const map = { ...bindings[kind] } as Record<InputAction, (string | number)[]>;
+  (Object.keys(map) as InputAction[]).forEach(a => {
+    map[a] = map[a].filter(v => v !== value);
+  });
+  map[action] = [...map[action], value];
+  return { ...bindings, [kind]: map };
+}
+
+function removeBinding(bindings: InputBindings, kind: 'keys' | 'buttons', action: InputAction, index: number): InputBindings {
+  const map = { ...bindings[kind] } as Record<InputAction, (string | number)[]>;
+  map[action] = map[action].filter((_, i) => i !== index);
+  return { ...bindings, [kind]: map };
+}
@@ -0,0 +1,222 @@
+import React, { useMemo, useState } from 'react';
+import { ClipboardList, FileSpreadsheet, FileText, Flag, Trash2, X } from 'lucide-react';
+import {
+  exportJobsCsv, exportJobsHtml, formatDuration, plotCoverage, rowCoverage, summarizeJobs
+} from '../services/jobs';
+import { JobRecord, JobSummary, PlotSize, RobotProfile } from '../types';
+import { downloadText } from '../utils/download';
+
+const MAX_PLOT_CELLS = 200;
+
+interface JobsPanelProps {
+  jobs: JobRecord[];
+  robots: RobotProfile[];
+  plot: PlotSize;
+  onPlotChange: (plot: PlotSize) => void;
+  onEndJob: (id: string) => void;
+  onRemoveJob: (id: string) => void;
+  onClear: () => void;
+}
+
+/** Job and daily work reports: runtime, roller time, distance and plot coverage. */
+export function JobsPanel({ jobs, robots, plot, onPlotChange, onEndJob, onRemoveJob, onClear }: JobsPanelProps) {
+  const [groupBy, setGroupBy] = useState<'job' | 'day'>('job');
+  const [robotId, setRobotId] = useState<string>('all');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const filtered = useMemo(
+    () => robotId === 'all' ? jobs : jobs.filter(j => j.robotId === robotId),
+    [jobs, robotId]
+  );
+  const summaries = useMemo(() => summarizeJobs(filtered, groupBy), [filtered, groupBy]);
+
+  const download = (format: 'csv' | 'html') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    const scope = robotId === 'all' ? 'All robots' : robots.find(r => r.id === robotId)?.name ?? 'Robot';
+    const base = `arecabot-${groupBy === 'job' ? 'jobs' : 'daily'}-${stamp}`;
+    if (format === 'csv') downloadText(`${base}.csv`, exportJobsCsv(summaries, plot), 'text/csv');
+    else downloadText(`${base}.html`, exportJobsHtml(summaries, plot, `ArecaBot ${groupBy === 'job' ? 'job' : 'daily'} report · ${scope}`), 'text/html');
+  };
+
+  const handleClear = () => {
+    if (window.confirm('Delete all finished jobs? Jobs in progress are kept.')) onClear();
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold flex items-center gap-2 text-slate-700">
+          <ClipboardList size={20} className="text-areca-600"/> Job Reports
+        </h2>
+        <div className="flex bg-gray-100 rounded-lg p-0.5 text-[10px] font-bold">
+          {(['job', 'day'] as const).map(g => (
+            <button
+              key={g}
+              onClick={() => setGroupBy(g)}
+              className={`px-2 py-1 rounded-md uppercase tracking-wider ${groupBy === g ? 'bg-white shadow-sm text-areca-700' : 'text-gray-500'}`}
+            >
+              {g === 'job' ? 'jobs' : 'days'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+        <select
+          value={robotId}
+          onChange={(e) => setRobotId(e.target.value)}
+          className="bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 font-bold text-slate-700"
+        >
+          <option value="all">All robots</option>
+          {robots.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+        </select>
+        <label className="flex items-center gap-1 text-gray-500" title="Plantation grid used for coverage">
+          Plot
+          <PlotInput value={plot.cols} onChange={(cols) => onPlotChange({ ...plot, cols })} />
+          ×
+          <PlotInput value={plot.rows} onChange={(rows) => onPlotChange({ ...plot, rows })} />
+        </label>
+        <div className="flex-1" />
+        <button
+          onClick={() => download('csv')}
+          disabled={summaries.length === 0}
+          className="flex items-center gap-1 text-[10px] font-bold rounded-lg px-2 py-1 border border-gray-200 text-gray-500 hover:text-areca-600 disabled:opacity-40"
+        >
+          <FileSpreadsheet size={10} /> CSV
+        </button>
+        <button
+          onClick={() => download('html')}
+          disabled={summaries.length === 0}
+          title="Open the file and print to PDF"
+          className="flex items-center gap-1 text-[10px] font-bold rounded-lg px-2 py-1 border border-gray-200 text-gray-500 hover:text-areca-600 disabled:opacity-40"
+        >
+          <FileText size={10} /> Report
+        </button>
+        <button
+          onClick={handleClear}
+          disabled={!jobs.some(j => j.endedAt !== null)}
+          className="flex items-center gap-1 text-[10px] font-bold rounded-lg px-2 py-1 border border-gray-200 text-gray-500 hover:text-red-600 disabled:opacity-40"
+        >
+          <Trash2 size={10} /> Clear
+        </button>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto space-y-2">
+        {summaries.length === 0 && (
+          <div className="text-sm text-gray-400 italic text-center py-4">No jobs yet. A job starts when the robot moves.</div>
+        )}
+        {summaries.map(s => (
+          <div key={s.key}>
+            <SummaryCard
+              summary={s}
+              plot={plot}
+              expanded={expanded === s.key}
+              onToggle={() => setExpanded(expanded === s.key ? null : s.key)}
+              onEnd={groupBy === 'job' && s.endedAt === null ? () => onEndJob(s.key) : undefined}
+              onRemove={groupBy === 'job' && s.endedAt !== null ? () => onRemoveJob(s.key) : undefined}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Subcomponents
+// ----------------------------------------------------------------------
+
+function SummaryCard({ summary: s, plot, expanded, onToggle, onEnd, onRemove }: {
+  summary: JobSummary,
+  plot: PlotSize,
+  expanded: boolean,
+  onToggle: () => void,
+  onEnd?: () => void,
+  onRemove?: () => void
+}) {
+  const coverage = plotCoverage(s.visited, plot);
+  const rows = expanded ? rowCoverage(s.visited, plot) : [];
+
+  return (
+    <div className={`rounded-xl border p-3 ${s.endedAt === null ? 'border-areca-200 bg-areca-50' : 'border-gray-100 bg-gray-50'}`}>
+      <div className="flex items-center gap-2">
+        <button onClick={onToggle} className="flex-1 text-left min-w-0">
+          <div className="text-sm font-bold text-slate-700 truncate">{s.label}</div>
+          <div className="text-[10px] text-gray-400">
+            {s.endedAt === null ? 'In progress' : `${formatTime(s.startedAt)} – ${formatTime(s.endedAt)}`}
+            {s.jobs > 1 && ` · ${s.jobs} jobs · ${s.robots.join(', ')}`}
+          </div>
+        </button>
+        {onEnd && (
+          <button
+            onClick={onEnd}
+            className="flex items-center gap-1 text-[10px] font-bold rounded-lg px-2 py-1 border border-gray-200 bg-white text-gray-500 hover:text-areca-600"
+          >
+            <Flag size={10} /> End job
+          </button>
+        )}
+        {onRemove && (
+          <button onClick={onRemove} title="Delete job" className="text-gray-300 hover:text-red-600">
+            <X size={14} />
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 mt-2 text-xs">
+        <Metric label="Runtime" value={formatDuration(s.runtimeMs)} />
+        <Metric label="Auto / Man" value={`${formatDuration(s.autoMs)} / ${formatDuration(s.manualMs)}`} />
+        <Metric label="Roller" value={formatDuration(s.rollerMs)} />
+        <Metric label="Cells" value={String(s.cells)} />
+        <Metric label="Stops" value={String(s.stops)} />
+        <Metric label="Coverage" value={`${Math.round(coverage * 100)}%`} />
+      </div>
+
+      {expanded && (
+        <div className="mt-3 space-y-0.5">
+          {rows.map((f, y) => ({ f, y })).reverse().map(({ f, y }) => (
+            <div key={y} className="flex items-center gap-2 text-[10px] font-mono">
+              <span className="text-gray-400 w-10">Row {y}</span>
+              <div className="flex-1 h-2 bg-white rounded-full overflow-hidden border border-gray-100">
+                <div className="h-full bg-areca-600" style={{ width: `${Math.round(f * 100)}%` }} />
+              </div>
+              <span className="text-gray-500 w-8 text-right">{Math.round(f * 100)}%</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Metric({ label, value }: { label: string, value: string }) {
+  return (
+    <div>
+      <div className="text-[10px] font-bold uppercase tracking-wider text-gray-400">{label}</div>
+      <div className="font-mono font-bold text-slate-700">{value}</div>
+    </div>
+  );
+}
+
+function PlotInput({ value, onChange }: { value: number, onChange: (value: number) => void }) {
+  return (
+    <input
+      type="number"
+      min={1}
+      max={MAX_PLOT_CELLS}
+      value={value}
+      onChange={(e) => {
+        const n = Math.round(Number(e.target.value));
+        if (n >= 1 && n <= MAX_PLOT_CELLS) onChange(n);
+      }}
+      className="w-12 bg-gray-50 border border-gray-200 rounded-lg px-1 py-0.5 font-mono text-center"
+    />
+  );
+}
+
+// ----------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------
+
+function formatTime(t: number): string {
+  return new Date(t).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
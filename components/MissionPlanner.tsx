@@ -0,0 +1,241 @@
+import React, { useRef, useState } from 'react';
+import {
+  Route, Plus, Trash2, Save, Download, Upload, ArrowUp, ArrowDown,
+  MapPin, Box, Play, Pause, Square, FilePlus
+} from 'lucide-react';
+import { exportMissions, newMission, parseMissions } from '../services/missions';
+import { Mission, MissionProgress, MissionStep, RobotState } from '../types';
+import { downloadText } from '../utils/download';
+import { createId } from '../utils/id';
+
+interface MissionPlannerProps {
+  missions: Mission[];
+  draft: Mission;
+  progress: MissionProgress;
+  robotState: RobotState;
+  canDispatch: boolean;     // False without the control lock
+  onDraftChange: (draft: Mission) => void;
+  onMissionsChange: (missions: Mission[]) => void;
+  onStart: (mission: Mission) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onAbort: () => void;
+}
+
+export function MissionPlanner({
+  missions, draft, progress, robotState, canDispatch,
+  onDraftChange, onMissionsChange, onStart, onPause, onResume, onAbort
+}: MissionPlannerProps) {
+  const [wx, setWx] = useState('0');
+  const [wy, setWy] = useState('0');
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement | null>(null);
+
+  const active = progress.status === 'running' || progress.status === 'paused';
+  const runningDraft = active && progress.missionId === draft.id;
+
+  const setSteps = (steps: MissionStep[]) => onDraftChange({ ...draft, steps });
+
+  const addWaypoint = () => {
+    const x = parseInt(wx);
+    const y = parseInt(wy);
+    if (isNaN(x) || isNaN(y)) return;
+    setSteps([...draft.steps, { id: createId(), kind: 'waypoint', cell: [x, y] }]);
+  };
+
+  const addRoller = (on: boolean) => setSteps([...draft.steps, { id: createId(), kind: 'roller', on }]);
+
+  const moveStep = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= draft.steps.length) return;
+    const steps = [...draft.steps];
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    setSteps(steps);
+  };
+
+  const saveDraft = () => {
+    const saved = { ...draft, updatedAt: Date.now() };
+    const exists = missions.some(m => m.id === saved.id);
+    onMissionsChange(exists ? missions.map(m => m.id === saved.id ? saved : m) : [...missions, saved]);
+    onDraftChange(saved);
+  };
+
+  const deleteDraft = () => {
+    onMissionsChange(missions.filter(m => m.id !== draft.id));
+    onDraftChange(newMission());
+  };
+
+  const handleExport = () => {
+    const list = missions.length ? missions : [draft];
+    downloadText('arecabot-missions.json', exportMissions(list), 'application/json');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseMissions(await file.text());
+      onMissionsChange([...missions, ...imported]);
+      if (imported.length) onDraftChange(imported[0]);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Import failed');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-bold flex items-center gap-2 text-slate-700">
+          <Route size={20} className="text-areca-600"/> Mission Planner
+        </h2>
+        <div className="flex items-center gap-1">
+          <IconButton title="New mission" onClick={() => onDraftChange(newMission())}><FilePlus size={14} /></IconButton>
+          <IconButton title="Import JSON" onClick={() => fileInput.current?.click()}><Upload size={14} /></IconButton>
+          <IconButton title="Export JSON" onClick={handleExport}><Download size={14} /></IconButton>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {/* Mission selection */}
+      <div className="flex gap-2 mb-4">
+        <select
+          value={missions.some(m => m.id === draft.id) ? draft.id : ''}
+          onChange={(e) => {
+            const m = missions.find(m => m.id === e.target.value);
+            if (m) onDraftChange(m);
+          }}
+          className="flex-1 bg-gray-50 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+        >
+          <option value="" disabled>{missions.length ? 'Unsaved mission' : 'No saved missions'}</option>
+          {missions.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+        </select>
+        <input
+          value={draft.name}
+          onChange={(e) => onDraftChange({ ...draft, name: e.target.value })}
+          className="flex-1 bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm font-bold"
+        />
+      </div>
+
+      {/* Step entry */}
+      <div className="bg-gray-50 rounded-xl p-3 border border-gray-200 mb-4 flex flex-wrap items-center gap-2">
+        <span className="text-xs font-bold text-gray-500 uppercase tracking-wider">X</span>
+        <input type="number" value={wx} onChange={(e) => setWx(e.target.value)} className="w-16 border border-gray-300 rounded px-2 py-1 font-mono text-sm" />
+        <span className="text-xs font-bold text-gray-500 uppercase tracking-wider">Y</span>
+        <input type="number" value={wy} onChange={(e) => setWy(e.target.value)} className="w-16 border border-gray-300 rounded px-2 py-1 font-mono text-sm" />
+        <button onClick={addWaypoint} className="flex items-center gap-1 bg-blue-500 hover:bg-blue-600 text-white text-xs font-bold rounded-lg px-3 py-1.5">
+          <Plus size={12} /> Waypoint
+        </button>
+        <button onClick={() => addRoller(true)} className="flex items-center gap-1 bg-amber-400 hover:bg-amber-500 text-amber-950 text-xs font-bold rounded-lg px-3 py-1.5">
+          <Box size={12} /> Roller ON
+        </button>
+        <button onClick={() => addRoller(false)} className="flex items-center gap-1 bg-slate-200 hover:bg-slate-300 text-slate-800 text-xs font-bold rounded-lg px-3 py-1.5">
+          <Box size={12} /> Roller OFF
+        </button>
+        <span className="text-[10px] text-gray-400 w-full">Tip: click a cell on the field map to append a waypoint.</span>
+      </div>
+
+      {/* Step list */}
+      <ol className="space-y-1 max-h-56 overflow-y-auto mb-4">
+        {draft.steps.length === 0 && <li className="text-sm text-gray-400 italic text-center py-4">No steps yet</li>}
+        {draft.steps.map((step, i) => {
+          const current = runningDraft && i === progress.stepIndex;
+          const done = progress.missionId === draft.id && i < progress.stepIndex;
+          return (
+            <li
+              key={step.id}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm ${
+                current ? 'bg-blue-50 border-blue-300' : done ? 'bg-green-50 border-green-100 text-gray-400' : 'bg-white border-gray-100'
+              }`}
+            >
+              <span className="font-mono text-xs text-gray-400 w-5">{i + 1}</span>
+              {step.kind === 'waypoint'
+                ? <span className="flex items-center gap-1 flex-1"><MapPin size={12} className="text-blue-500" /> Go to X:{step.cell[0]} Y:{step.cell[1]}</span>
+                : <span className="flex items-center gap-1 flex-1"><Box size={12} className="text-amber-500" /> Roller {step.on ? 'ON' : 'OFF'}</span>}
+              <IconButton title="Move up" onClick={() => moveStep(i, -1)} disabled={runningDraft}><ArrowUp size={12} /></IconButton>
+              <IconButton title="Move down" onClick={() => moveStep(i, 1)} disabled={runningDraft}><ArrowDown size={12} /></IconButton>
+              <IconButton title="Remove" onClick={() => setSteps(draft.steps.filter(s => s.id !== step.id))} disabled={runningDraft}><Trash2 size={12} /></IconButton>
+            </li>
+          );
+        })}
+      </ol>
+
+      {error && <div className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2 mb-4">{error}</div>}
+
+      {/* Save / delete */}
+      <div className="flex gap-2 mb-4">
+        <button onClick={saveDraft} className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl font-bold bg-slate-200 hover:bg-slate-300 text-slate-800 text-sm">
+          <Save size={14} /> Save
+        </button>
+        <button onClick={deleteDraft} className="flex items-center justify-center gap-2 px-4 py-2 rounded-xl font-bold bg-white border border-gray-200 hover:text-red-600 text-gray-500 text-sm">
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      {/* Dispatch & progress */}
+      <div className="pt-4 border-t border-gray-100">
+        <div className="flex justify-between items-center mb-3 text-xs font-mono uppercase tracking-wider text-gray-500">
+          <span>Status: <span className="font-bold text-slate-800">{progress.status}</span></span>
+          <span>Robot: <span className="font-bold text-slate-800">{robotState}</span></span>
+          {progress.missionId === draft.id && (
+            <span>Step {Math.min(progress.stepIndex + 1, draft.steps.length)}/{draft.steps.length}</span>
+          )}
+        </div>
+        {progress.status === 'paused' && progress.reason && (
+          <div className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2 mb-3">{progress.reason}</div>
+        )}
+        <div className="flex gap-2">
+          {!active && (
+            <button
+              onClick={() => onStart(draft)}
+              disabled={draft.steps.length === 0 || !canDispatch}
+              className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl font-bold bg-areca-600 hover:bg-areca-700 text-white disabled:opacity-40"
+            >
+              <Play size={16} /> Send Mission
+            </button>
+          )}
+          {progress.status === 'running' && (
+            <button onClick={onPause} className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl font-bold bg-amber-400 hover:bg-amber-500 text-amber-950">
+              <Pause size={16} /> Pause
+            </button>
+          )}
+          {progress.status === 'paused' && (
+            <button onClick={onResume} disabled={!canDispatch} className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl font-bold bg-areca-600 hover:bg-areca-700 text-white disabled:opacity-40">
+              <Play size={16} /> Resume
+            </button>
+          )}
+          {active && (
+            <button onClick={onAbort} className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl font-bold bg-red-500 hover:bg-red-600 text-white">
+              <Square size={16} /> Abort
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Subcomponents
+// ----------------------------------------------------------------------
+
+function IconButton({ title, onClick, disabled, children }: { title: string, onClick: () => void, disabled?: boolean, children: React.ReactNode }) {
+  return (
+    <button
+      title={title}
+      onClick={onClick}
+      disabled={disabled}
+      className="p-1.5 rounded border border-gray-200 text-gray-500 hover:text-areca-600 hover:bg-gray-50 disabled:opacity-30"
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { Download, Eye, Lock, LogIn, LogOut, Trash2, Unlock, UserCheck } from 'lucide-react';
+import { exportAuditCsv } from '../services/audit';
+import { loadOperatorName } from '../services/control';
+import { AuditEntry, ControlHolder, ControlSession, Credentials } from '../types';
+import { downloadText } from '../utils/download';
+
+const AUDIT_PAGE_SIZE = 50;
+
+interface OperatorPanelProps {
+  credentials: Credentials | null;
+  session: ControlSession | null;   // Null until the robot answers, or legacy firmware
+  control: ControlHolder | null;
+  holdsControl: boolean;
+  connected: boolean;
+  audit: AuditEntry[];
+  onSignIn: (credentials: Credentials | null) => void;
+  onTakeControl: () => void;
+  onReleaseControl: () => void;
+  onClearAudit: () => void;
+}
+
+/** Operator sign-in, the selected robot's control lock, and the audit trail. */
+export function OperatorPanel({
+  credentials, session, control, holdsControl, connected, audit,
+  onSignIn, onTakeControl, onReleaseControl, onClearAudit
+}: OperatorPanelProps) {
+  const [tab, setTab] = useState<'control' | 'audit'>('control');
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold flex items-center gap-2 text-slate-700">
+          <UserCheck size={20} className="text-areca-600"/> Operator
+        </h2>
+        <div className="flex bg-gray-100 rounded-lg p-0.5 text-[10px] font-bold">
+          {(['control', 'audit'] as const).map(t => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`px-2 py-1 rounded-md uppercase tracking-wider ${tab === t ? 'bg-white shadow-sm text-areca-700' : 'text-gray-500'}`}
+            >
+              {t}{t === 'audit' && audit.length > 0 ? ` (${audit.length})` : ''}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {tab === 'control' ? (
+        <div className="space-y-4">
+          <SignInForm credentials={credentials} onSignIn={onSignIn} />
+          <ControlLock
+            session={session}
+            control={control}
+            holdsControl={holdsControl}
+            connected={connected}
+            onTake={onTakeControl}
+            onRelease={onReleaseControl}
+          />
+        </div>
+      ) : (
+        <AuditTrail entries={audit} onClear={onClearAudit} />
+      )}
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Subcomponents
+// ----------------------------------------------------------------------
+
+function SignInForm({ credentials, onSignIn }: {
+  credentials: Credentials | null,
+  onSignIn: (credentials: Credentials | null) => void
+}) {
+  const [operator, setOperator] = useState(() => credentials?.operator ?? loadOperatorName());
+  const [token, setToken] = useState('');
+
+  if (credentials) {
+    return (
+      <div className="flex items-center justify-between rounded-xl bg-gray-50 border border-gray-100 p-3">
+        <div>
+          <div className="text-[10px] font-bold uppercase tracking-wider text-gray-400">Signed in as</div>
+          <div className="font-bold text-slate-700">{credentials.operator}</div>
+        </div>
+        <button
+          onClick={() => onSignIn(null)}
+          className="flex items-center gap-1 text-xs font-bold rounded-lg px-3 py-1.5 border border-gray-200 text-gray-500 hover:text-red-600"
+        >
+          <LogOut size={12} /> Sign out
+        </button>
+      </div>
+    );
+  }
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!operator.trim()) return;
+    onSignIn({ operator: operator.trim(), token: token.trim() });
+    setToken('');
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          value={operator}
+          onChange={(e) => setOperator(e.target.value)}
+          placeholder="Operator name"
+          className="bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-sm"
+        />
+        <input
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          placeholder="Access token"
+          autoComplete="current-password"
+          className="bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-sm font-mono"
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-gray-400">The token applies to every robot in the fleet</span>
+        <button
+          type="submit"
+          disabled={!operator.trim()}
+          className="flex items-center gap-1 text-xs font-bold rounded-lg px-3 py-1.5 bg-areca-600 text-white hover:bg-areca-700 disabled:opacity-40"
+        >
+          <LogIn size={12} /> Sign in
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function ControlLock({ session, control, holdsControl, connected, onTake, onRelease }: {
+  session: ControlSession | null,
+  control: ControlHolder | null,
+  holdsControl: boolean,
+  connected: boolean,
+  onTake: () => void,
+  onRelease: () => void
+}) {
+  if (!session) {
+    return (
+      <div className="text-sm text-gray-400 italic text-center py-2">
+        {connected ? 'This robot does not use operator sessions' : 'Connect to the robot to take control'}
+      </div>
+    );
+  }
+
+  const viewer = session.role === 'viewer';
+  const holder = holdsControl ? 'You' : control ? (control.operator ?? 'Another dashboard') : 'Nobody';
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="rounded-xl bg-gray-50 border border-gray-100 p-2">
+          <div className="text-[10px] font-bold uppercase tracking-wider text-gray-400">Role</div>
+          <div className={`font-bold text-sm flex items-center gap-1 ${viewer ? 'text-amber-600' : 'text-green-700'}`}>
+            {viewer ? <Eye size={14} /> : <UserCheck size={14} />} {viewer ? 'Viewer' : 'Operator'}
+          </div>
+        </div>
+        <div className="rounded-xl bg-gray-50 border border-gray-100 p-2">
+          <div className="text-[10px] font-bold uppercase tracking-wider text-gray-400">In control</div>
+          <div className={`font-bold text-sm flex items-center gap-1 ${holdsControl ? 'text-green-700' : control ? 'text-amber-600' : 'text-slate-700'}`}>
+            {control ? <Lock size={14} /> : <Unlock size={14} />} {holder}
+          </div>
+        </div>
+      </div>
+      {viewer ? (
+        <div className="text-xs text-gray-400">Viewers can watch telemetry but not send commands.</div>
+      ) : holdsControl ? (
+        <button
+          onClick={onRelease}
+          className="w-full flex items-center justify-center gap-2 text-sm font-bold rounded-xl py-2 border border-gray-200 text-slate-700 hover:bg-gray-50"
+        >
+          <Unlock size={14} /> Release control
+        </button>
+      ) : (
+        <button
+          onClick={onTake}
+          disabled={!connected || control !== null}
+          className="w-full flex items-center justify-center gap-2 text-sm font-bold rounded-xl py-2 bg-areca-600 text-white hover:bg-areca-700 disabled:opacity-40"
+        >
+          <Lock size={14} /> Take control
+        </button>
+      )}
+      {!viewer && !holdsControl && control && (
+        <div className="text-xs text-gray-400">STOP still works while another operator holds control.</div>
+      )}
+    </div>
+  );
+}
+
+function AuditTrail({ entries, onClear }: { entries: AuditEntry[], onClear: () => void }) {
+  const [limit, setLimit] = useState(AUDIT_PAGE_SIZE);
+
+  const download = () => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadText(`arecabot-audit-${stamp}.csv`, exportAuditCsv(entries), 'text/csv');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={download}
+          disabled={entries.length === 0}
+          className="flex items-center gap-1 text-[10px] font-bold rounded-lg px-2 py-1 border border-gray-200 text-gray-500 hover:text-areca-600 disabled:opacity-40"
+        >
+          <Download size={10} /> CSV
+        </button>
+        <button
+          onClick={onClear}
+          disabled={entries.length === 0}
+          className="flex items-center gap-1 text-[10px] font-bold rounded-lg px-2 py-1 border border-gray-200 text-gray-500 hover:text-red-600 disabled:opacity-40"
+        >
+          <Trash2 size={10} /> Clear
+        </button>
+      </div>
+      <div className="max-h-72 overflow-y-auto space-y-0.5">
+        {entries.length === 0 && <div className="text-sm text-gray-400 italic text-center py-4">No commands recorded yet</div>}
+        {entries.slice(0, limit).map(e => (
+          <div key={e.id} className="flex items-center gap-2 text-xs font-mono">
+            <span className="text-gray-400">{new Date(e.time).toLocaleTimeString()}</span>
+            <span className="text-gray-500 w-20 truncate">{e.robotName}</span>
+            <span className={`w-20 truncate ${e.self ? 'text-areca-700' : 'text-slate-500'}`}>{e.operator ?? 'anonymous'}</span>
+            <span className="font-bold text-slate-700 flex-1 truncate">
+              {e.cmd}{e.count > 1 && <span className="text-gray-400 font-normal"> ×{e.count}</span>}
+            </span>
+            <span
+              title={e.error ?? undefined}
+              className={`text-[10px] uppercase px-1.5 rounded ${e.status === 'confirmed' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}
+            >
+              {e.status === 'confirmed' ? 'ok' : 'failed'}
+            </span>
+          </div>
+        ))}
+        {entries.length > limit && (
+          <button
+            onClick={() => setLimit(limit + AUDIT_PAGE_SIZE)}
+            className="w-full text-[10px] font-bold text-gray-400 hover:text-areca-600 py-1"
+          >
+            Show more ({entries.length - limit} older)
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
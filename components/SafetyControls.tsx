@@ -0,0 +1,65 @@
+import React from 'react';
+import { OctagonAlert, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { TRIP_LABELS } from '../services/safety';
+import { SafetyState } from '../types';
+
+export function EStopButton({ latched, onEngage }: { latched: boolean, onEngage: () => void }) {
+  return (
+    <button
+      onClick={onEngage}
+      className={`flex items-center gap-2 px-4 py-1.5 rounded-full text-sm font-bold transition-all active:scale-95 ${
+        latched ? 'bg-red-700 text-white ring-2 ring-red-300' : 'bg-red-600 hover:bg-red-700 text-white shadow-md shadow-red-200'
+      }`}
+    >
+      <OctagonAlert size={16} />
+      <span>E-STOP</span>
+    </button>
+  );
+}
+
+interface SafetyBannerProps {
+  state: SafetyState;
+  onClear: () => void;
+}
+
+/**
+ * Shows the latched E-stop (with a deliberate clear action) or the most
+ * recent automatic safety stop.
+ */
+export function SafetyBanner({ state, onClear }: SafetyBannerProps) {
+  if (state.estopLatched) {
+    return (
+      <div className="bg-red-600 text-white rounded-2xl shadow-md p-4 flex flex-col sm:flex-row items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <ShieldAlert size={28} />
+          <div>
+            <div className="font-bold text-lg leading-tight">EMERGENCY STOP LATCHED</div>
+            <div className="text-sm text-red-100">Motion commands are blocked until the latch is cleared.</div>
+          </div>
+        </div>
+        <button
+          onClick={() => {
+            if (window.confirm('Confirm the area around the robot is clear and release the emergency stop?')) onClear();
+          }}
+          className="bg-white text-red-700 hover:bg-red-50 font-bold rounded-xl px-5 py-2 flex items-center gap-2"
+        >
+          <ShieldCheck size={18} /> Clear E-Stop
+        </button>
+      </div>
+    );
+  }
+
+  if (!state.lastTrip && !state.telemetryStale) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-2xl p-3 px-4 flex items-center gap-3 text-sm">
+      <ShieldAlert size={18} className="shrink-0" />
+      {state.telemetryStale && <span className="font-bold">Telemetry stale.</span>}
+      {state.lastTrip && (
+        <span>
+          Safety stop at {new Date(state.lastTrip.at).toLocaleTimeString()}: {TRIP_LABELS[state.lastTrip.reason]}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { Disc, Square, Play, Pause, X, FileJson, FileSpreadsheet, Trash2, History } from 'lucide-react';
+import {
+  deleteSession, exportSessionCsv, exportSessionJsonl, listSessions, loadSessionEvents
+} from '../services/sessionRecorder';
+import { REPLAY_SPEEDS } from '../services/sessionReplay';
+import { ReplayState, SessionInfo } from '../types';
+import { downloadText } from '../utils/download';
+
+interface SessionPanelProps {
+  recording: SessionInfo | null;
+  replay: ReplayState | null;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onReplay: (session: SessionInfo) => void;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (position: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onCloseReplay: () => void;
+}
+
+export function SessionPanel({
+  recording, replay, onStartRecording, onStopRecording,
+  onReplay, onPlay, onPause, onSeek, onSpeedChange, onCloseReplay
+}: SessionPanelProps) {
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => listSessions().then(setSessions).catch(e => setError(e?.message ?? 'Could not read sessions'));
+
+  // Refresh when a recording starts or stops (not on every event count update)
+  useEffect(() => {
+    refresh();
+  }, [recording?.id]);
+
+  const handleExport = async (session: SessionInfo, format: 'jsonl' | 'csv') => {
+    const events = await loadSessionEvents(session.id);
+    const base = `arecabot-session-${new Date(session.startedAt).toISOString().replace(/[:.]/g, '-')}`;
+    if (format === 'jsonl') downloadText(`${base}.jsonl`, exportSessionJsonl(session, events), 'application/x-ndjson');
+    else downloadText(`${base}.csv`, exportSessionCsv(events), 'text/csv');
+  };
+
+  const handleDelete = async (session: SessionInfo) => {
+    if (!window.confirm(`Delete recording "${session.name}"?`)) return;
+    if (replay?.session.id === session.id) onCloseReplay();
+    await deleteSession(session.id);
+    refresh();
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold flex items-center gap-2 text-slate-700">
+          <History size={20} className="text-areca-600"/> Sessions
+        </h2>
+        {recording ? (
+          <button
+            onClick={onStopRecording}
+            className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider bg-red-600 hover:bg-red-700 text-white rounded px-2 py-1"
+          >
+            <Square size={10} /> Stop · {recording.eventCount}
+          </button>
+        ) : (
+          <button
+            onClick={onStartRecording}
+            disabled={!!replay}
+            className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider border border-gray-200 text-gray-500 hover:text-red-600 rounded px-2 py-1 disabled:opacity-40"
+          >
+            <Disc size={10} /> Record
+          </button>
+        )}
+      </div>
+
+      {error && <div className="text-xs text-red-600 mb-2">{error}</div>}
+
+      {replay && <ReplayControls replay={replay} onPlay={onPlay} onPause={onPause} onSeek={onSeek} onSpeedChange={onSpeedChange} onClose={onCloseReplay} />}
+
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {sessions.length === 0 && <div className="text-sm text-gray-400 italic text-center py-4">No recorded sessions</div>}
+        {sessions.map(s => {
+          const live = recording?.id === s.id;
+          return (
+            <div key={s.id} className={`flex items-center gap-2 px-2 py-1 rounded-lg text-xs ${replay?.session.id === s.id ? 'bg-areca-50' : 'hover:bg-gray-50'}`}>
+              {live && <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse shrink-0" />}
+              <span className="font-medium text-slate-700 flex-1 truncate" title={s.name}>{s.name}</span>
+              <span className="font-mono text-[10px] text-gray-400">{formatDuration((s.endedAt ?? Date.now()) - s.startedAt)}</span>
+              <button onClick={() => onReplay(s)} disabled={live} className="p-1 text-gray-400 hover:text-areca-600 disabled:opacity-30" title="Replay">
+                <Play size={12} />
+              </button>
+              <button onClick={() => handleExport(s, 'jsonl')} className="p-1 text-gray-400 hover:text-areca-600" title="Export JSON Lines">
+                <FileJson size={12} />
+              </button>
+              <button onClick={() => handleExport(s, 'csv')} className="p-1 text-gray-400 hover:text-areca-600" title="Export CSV">
+                <FileSpreadsheet size={12} />
+              </button>
+              <button onClick={() => handleDelete(s)} disabled={live} className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30" title="Delete">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Subcomponents
+// ----------------------------------------------------------------------
+
+function ReplayControls({ replay, onPlay, onPause, onSeek, onSpeedChange, onClose }: {
+  replay: ReplayState,
+  onPlay: () => void,
+  onPause: () => void,
+  onSeek: (position: number) => void,
+  onSpeedChange: (speed: number) => void,
+  onClose: () => void
+}) {
+  return (
+    <div className="bg-areca-50 border border-areca-200 rounded-xl p-3 mb-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-bold uppercase tracking-wider text-areca-700">Replay</span>
+        <span className="text-xs text-slate-600 truncate flex-1">{replay.session.name}</span>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-slate-700" title="Back to live">
+          <X size={12} />
+        </button>
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={replay.playing ? onPause : onPlay}
+          className="p-1.5 rounded bg-slate-700 hover:bg-slate-800 text-white"
+        >
+          {replay.playing ? <Pause size={12} /> : <Play size={12} />}
+        </button>
+        <input
+          type="range" min={0} max={replay.duration} step={100}
+          value={replay.position}
+          onChange={(e) => onSeek(parseInt(e.target.value))}
+          className="flex-1"
+        />
+        <span className="font-mono text-[10px] text-slate-600 shrink-0">
+          {formatDuration(replay.position)} / {formatDuration(replay.duration)}
+        </span>
+        <select
+          value={replay.speed}
+          onChange={(e) => onSpeedChange(parseFloat(e.target.value))}
+          className="text-[10px] font-mono border border-gray-200 rounded px-1 py-0.5 bg-white"
+        >
+          {REPLAY_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
+      </div>
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------
+
+function formatDuration(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${s.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,172 @@
+import React, { useMemo } from 'react';
+import { LineChart, Wind, Thermometer, Gauge } from 'lucide-react';
+import { TelemetryData, TelemetryFrame } from '../types';
+
+type SeriesKey = 'us' | 'temp' | 'pressure';
+
+interface SeriesConfig {
+  key: SeriesKey;
+  label: string;
+  unit: string;
+  stroke: string;
+  icon: React.ReactNode;
+}
+
+// One unbroken run of readings
+interface ChartPath {
+  start: number;            // Time of the first reading (ms since epoch)
+  d: string;                // SVG path data
+}
+
+const SERIES: SeriesConfig[] = [
+  { key: 'us', label: 'Ultrasonic', unit: 'cm', stroke: '#3b82f6', icon: <Wind size={14} /> },
+  { key: 'temp', label: 'Temperature', unit: '°C', stroke: '#f59e0b', icon: <Thermometer size={14} /> },
+  { key: 'pressure', label: 'Pressure', unit: 'hPa', stroke: '#059669', icon: <Gauge size={14} /> },
+];
+
+const RETENTION_OPTIONS: { label: string, ms: number }[] = [
+  { label: '1m', ms: 60 * 1000 },
+  { label: '5m', ms: 5 * 60 * 1000 },
+  { label: '15m', ms: 15 * 60 * 1000 },
+  { label: '1h', ms: 60 * 60 * 1000 },
+];
+
+const CHART_W = 300;
+const CHART_H = 80;
+
+interface TelemetryChartsProps {
+  frames: TelemetryFrame[];
+  retentionMs: number;
+  onRetentionChange: (ms: number) => void;
+  onClear: () => void;
+}
+
+export function TelemetryCharts({ frames, retentionMs, onRetentionChange, onClear }: TelemetryChartsProps) {
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-bold flex items-center gap-2 text-slate-700">
+          <LineChart size={20} className="text-areca-600"/> Telemetry History
+        </h2>
+        <div className="flex items-center gap-1">
+          {RETENTION_OPTIONS.map(opt => (
+            <button
+              key={opt.ms}
+              onClick={() => onRetentionChange(opt.ms)}
+              className={`text-[10px] font-mono font-bold px-2 py-0.5 rounded border transition-colors ${
+                retentionMs === opt.ms
+                  ? 'bg-areca-600 text-white border-areca-600'
+                  : 'text-gray-500 border-gray-200 hover:text-areca-600'
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+          <button
+            onClick={onClear}
+            className="text-[10px] font-mono font-bold px-2 py-0.5 rounded border border-gray-200 text-gray-500 hover:text-red-600 ml-1"
+          >
+            CLR
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {SERIES.map(s => (
+          <div key={s.key}>
+            <SeriesChart series={s} frames={frames} retentionMs={retentionMs} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Subcomponents
+// ----------------------------------------------------------------------
+
+function SeriesChart({ series, frames, retentionMs }: { series: SeriesConfig, frames: TelemetryFrame[], retentionMs: number }) {
+  const { paths, min, max, latest } = useMemo(
+    () => buildPaths(frames, series.key, retentionMs),
+    [frames, series.key, retentionMs]
+  );
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-3 border border-gray-100">
+      <div className="flex items-center justify-between mb-1 text-xs font-bold uppercase tracking-wider text-gray-500">
+        <span className="flex items-center gap-2">{series.icon} {series.label}</span>
+        <span className="font-mono text-slate-800 normal-case">
+          {latest !== null ? `${latest} ${series.unit}` : '--'}
+        </span>
+      </div>
+      <div className="flex gap-2">
+        <div className="flex flex-col justify-between text-[10px] font-mono text-gray-400 w-10 text-right">
+          <span>{max !== null ? round(max) : ''}</span>
+          <span>{min !== null ? round(min) : ''}</span>
+        </div>
+        <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} preserveAspectRatio="none" className="flex-1 h-20">
+          <line x1={0} y1={CHART_H} x2={CHART_W} y2={CHART_H} stroke="#e5e7eb" strokeWidth={1} />
+          {paths.map(({ start, d }) => (
+            <path key={start} d={d} fill="none" stroke={series.stroke} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------
+
+function round(v: number): string {
+  return Math.abs(v) >= 100 ? v.toFixed(0) : v.toFixed(1);
+}
+
+/**
+ * Projects a series onto the chart viewBox. Gaps (null or non-numeric
+ * readings) split the line into separate path segments rather than
+ * interpolating across missing data. Each segment carries the time of its
+ * first reading, which stays put as older frames scroll off the chart.
+ */
+function buildPaths(frames: TelemetryFrame[], key: keyof TelemetryData, retentionMs: number) {
+  const now = frames.length ? frames[frames.length - 1].t : Date.now();
+  const start = now - retentionMs;
+
+  const points: ({ t: number, v: number } | null)[] = frames
+    .filter(f => f.t >= start)
+    .map(f => {
+      const v = f.data[key];
+      return typeof v === 'number' && isFinite(v) ? { t: f.t, v } : null;
+    });
+
+  const values = points.filter((p): p is { t: number, v: number } => p !== null).map(p => p.v);
+  if (values.length === 0) return { paths: [] as ChartPath[], min: null, max: null, latest: null };
+
+  let min = Math.min(...values);
+  let max = Math.max(...values);
+  if (min === max) {
+    min -= 1;
+    max += 1;
+  }
+
+  const x = (t: number) => ((t - start) / retentionMs) * CHART_W;
+  const y = (v: number) => CHART_H - ((v - min) / (max - min)) * CHART_H;
+
+  const paths: ChartPath[] = [];
+  let current: ChartPath | null = null;
+  for (const p of points) {
+    if (!p) {
+      if (current) paths.push(current);
+      current = null;
+      continue;
+    }
+    if (!current) current = { start: p.t, d: '' };
+    current.d += `${current.d ? 'L' : 'M'}${x(p.t).toFixed(1)},${y(p.v).toFixed(1)} `;
+  }
+  if (current) paths.push(current);
+
+  const last = points[points.length - 1];
+  return { paths, min, max, latest: last ? last.v : null };
+}
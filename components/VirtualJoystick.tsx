@@ -0,0 +1,110 @@
+import React, { useRef, useState } from 'react';
+import { Joystick } from 'lucide-react';
+
+const SIZE = 200;
+const KNOB = 56;
+const EMIT_INTERVAL_MS = 100;
+
+interface VirtualJoystickProps {
+  maxPwm: number;
+  left: number | null;      // Last PWM sent, for readout
+  right: number | null;
+  onMaxPwmChange: (pwm: number) => void;
+  onMove: (x: number, y: number) => void;
+  onRelease: () => void;
+  disabled?: boolean;       // Another operator holds control
+}
+
+/**
+ * Drag-to-drive analog stick. Reports x (right +) and y (forward +) in
+ * -1..1, throttled to EMIT_INTERVAL_MS, and always reports the release.
+ */
+export function VirtualJoystick({ maxPwm, left, right, onMaxPwmChange, onMove, onRelease, disabled = false }: VirtualJoystickProps) {
+  const [knob, setKnob] = useState<{ x: number, y: number }>({ x: 0, y: 0 });
+  const dragging = useRef(false);
+  const lastEmit = useRef(0);
+
+  const updateFromEvent = (e: React.PointerEvent<HTMLDivElement>, force: boolean = false) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const radius = (SIZE - KNOB) / 2;
+    let dx = e.clientX - (rect.left + rect.width / 2);
+    let dy = e.clientY - (rect.top + rect.height / 2);
+    const dist = Math.hypot(dx, dy);
+    if (dist > radius) {
+      dx = (dx / dist) * radius;
+      dy = (dy / dist) * radius;
+    }
+    setKnob({ x: dx, y: dy });
+
+    const now = Date.now();
+    if (!force && now - lastEmit.current < EMIT_INTERVAL_MS) return;
+    lastEmit.current = now;
+    onMove(dx / radius, -dy / radius);
+  };
+
+  const release = () => {
+    if (!dragging.current) return;
+    dragging.current = false;
+    setKnob({ x: 0, y: 0 });
+    onRelease();
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-bold flex items-center gap-2 mb-6 text-slate-700">
+        <Joystick size={20} className="text-areca-600"/> Analog Drive
+      </h2>
+
+      <div className="flex flex-col sm:flex-row items-center gap-6">
+        <div
+          className={`relative rounded-full bg-gray-100 border-2 border-gray-200 touch-none select-none shrink-0 ${disabled ? 'opacity-40' : ''}`}
+          style={{ width: SIZE, height: SIZE }}
+          onPointerDown={(e) => {
+            if (disabled) return;
+            e.currentTarget.setPointerCapture(e.pointerId);
+            dragging.current = true;
+            updateFromEvent(e, true);
+          }}
+          onPointerMove={(e) => dragging.current && updateFromEvent(e)}
+          onPointerUp={release}
+          onPointerCancel={release}
+          onLostPointerCapture={release}
+        >
+          <div className="absolute left-1/2 top-0 w-px h-full bg-gray-200 pointer-events-none" />
+          <div className="absolute top-1/2 left-0 h-px w-full bg-gray-200 pointer-events-none" />
+          <div
+            className="absolute rounded-full bg-blue-500 border-b-4 border-blue-700 shadow-md pointer-events-none"
+            style={{
+              width: KNOB,
+              height: KNOB,
+              left: SIZE / 2 - KNOB / 2 + knob.x,
+              top: SIZE / 2 - KNOB / 2 + knob.y
+            }}
+          />
+        </div>
+
+        <div className="flex-1 w-full space-y-4">
+          <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider">
+            Max PWM <span className="font-mono text-slate-800">{maxPwm}</span>
+            <input
+              type="range" min={0} max={255} step={5}
+              value={maxPwm}
+              onChange={(e) => onMaxPwmChange(parseInt(e.target.value))}
+              className="w-full mt-1"
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="bg-gray-50 rounded-xl p-3 border border-gray-100 text-center">
+              <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">LSPD</div>
+              <div className="text-xl font-mono font-bold text-slate-800">{left ?? '--'}</div>
+            </div>
+            <div className="bg-gray-50 rounded-xl p-3 border border-gray-100 text-center">
+              <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">RSPD</div>
+              <div className="text-xl font-mono font-bold text-slate-800">{right ?? '--'}</div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
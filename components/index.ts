@@ -0,0 +1,15 @@
+export { TelemetryCharts } from './TelemetryCharts';
+export { GridMap } from './GridMap';
+export { MissionPlanner } from './MissionPlanner';
+export { CommandBadge, CommandStatusPanel } from './CommandStatus';
+export { EStopButton, SafetyBanner } from './SafetyControls';
+export { InputBindingsEditor } from './InputBindingsEditor';
+export { VirtualJoystick } from './VirtualJoystick';
+export { FleetPanel } from './FleetPanel';
+export { SessionPanel } from './SessionPanel';
+export { AlertBanner, AlertsPanel } from './Alerts';
+export { EventConsole } from './EventConsole';
+export { ConnectionPanel } from './ConnectionPanel';
+export { OperatorPanel } from './OperatorPanel';
+export { JobsPanel } from './JobsPanel';
+export { CalibrationPanel } from './CalibrationPanel';
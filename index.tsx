@@ -1,15 +1,24 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { restoreSettings } from './utils/storage';
+import { registerServiceWorker, requestPersistentStorage } from './utils/serviceWorker';
+import './index.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
-const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+if (import.meta.env.PROD) registerServiceWorker();
+requestPersistentStorage();
+
+// Settings are read synchronously by the services, so restore them first
+restoreSettings().finally(() => {
+  const root = ReactDOM.createRoot(rootElement);
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+});
@@ -0,0 +1,52 @@
+import { createHash } from 'crypto';
+import { readFileSync, readdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { gzipSync } from 'zlib';
+import type { Plugin } from 'vite';
+
+const SW_TEMPLATE = path.resolve(__dirname, 'sw.js');
+
+interface PwaOptions {
+  /** Also write index.html.gz for serving from the robot's controller. */
+  gzip?: boolean;
+}
+
+/**
+ * Writes the service worker into the build output with a precache list of
+ * every emitted file plus the copied public assets. The cache version is a
+ * hash of the output, so any change to the build invalidates the old cache.
+ */
+export function pwa({ gzip = false }: PwaOptions = {}): Plugin {
+  let outDir = 'dist';
+  let publicDir = '';
+
+  return {
+    name: 'arecabot-pwa',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+      publicDir = config.publicDir;
+    },
+    writeBundle(_options, bundle) {
+      const hash = createHash('sha256');
+      const files = Object.values(bundle).map(item => {
+        hash.update(item.fileName);
+        hash.update(item.type === 'chunk' ? item.code : item.source);
+        return item.fileName;
+      });
+      const publicFiles = publicDir ? readdirSync(publicDir) : [];
+      publicFiles.forEach(f => hash.update(readFileSync(path.join(publicDir, f))));
+
+      const precache = ['./', ...[...files, ...publicFiles].sort().map(f => `./${f}`)];
+      const sw = readFileSync(SW_TEMPLATE, 'utf8')
+        .replace('__CACHE_VERSION__', hash.digest('hex').slice(0, 12))
+        .replace('__PRECACHE__', JSON.stringify(precache));
+      writeFileSync(path.join(outDir, 'sw.js'), sw);
+
+      if (gzip) {
+        const html = readFileSync(path.join(outDir, 'index.html'));
+        writeFileSync(path.join(outDir, 'index.html.gz'), gzipSync(html, { level: 9 }));
+      }
+    }
+  };
+}
@@ -0,0 +1,52 @@
+/*
+ * Dashboard service worker. The build (pwa/plugin.ts) replaces the two
+ * placeholders below with the cache version and the list of built files.
+ *
+ * - Every built file is cached on install, so the dashboard opens with no
+ *   internet on the robot's access point.
+ * - Page loads go to the network first so a reflashed dashboard is picked
+ *   up, falling back to the cached page offline.
+ * - Robot traffic (Socket.IO, POST /cmd) is never intercepted.
+ */
+const CACHE_VERSION = '__CACHE_VERSION__';
+const PRECACHE = __PRECACHE__;
+const CACHE_NAME = `arecabot-${CACHE_VERSION}`;
+const PASSTHROUGH = ['/socket.io/', '/cmd'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(PRECACHE))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(k => k.startsWith('arecabot-') && k !== CACHE_NAME).map(k => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const req = event.request;
+  const url = new URL(req.url);
+  if (req.method !== 'GET' || url.origin !== self.location.origin) return;
+  if (PASSTHROUGH.some(p => url.pathname.startsWith(p))) return;
+
+  if (req.mode === 'navigate') {
+    event.respondWith(
+      fetch(req)
+        .then(res => {
+          const copy = res.clone();
+          if (res.ok) caches.open(CACHE_NAME).then(cache => cache.put('./index.html', copy));
+          return res;
+        })
+        .catch(() => caches.match('./index.html'))
+    );
+    return;
+  }
+
+  event.respondWith(caches.match(req).then(hit => hit || fetch(req)));
+});
@@ -0,0 +1,291 @@
+import { Alert, AlertMetric, AlertOperator, AlertRule, AlertSettings, TelemetryData } from '../types';
+import { EMPTY_TELEMETRY } from './telemetry';
+import { createId } from '../utils/id';
+import { loadJson, saveJson } from '../utils/storage';
+
+const RULES_KEY = 'alertRules';
+const HISTORY_KEY = 'alertHistory';
+const SETTINGS_KEY = 'alertSettings';
+
+export const MAX_ALERT_HISTORY = 200;
+export const ALARM_REPEAT_MS = 10000;     // Unacknowledged critical alerts re-sound
+export const SNOOZE_OPTIONS_MS = [5 * 60 * 1000, 15 * 60 * 1000, 60 * 60 * 1000];
+export const ACK_REARM_MS = 30000;        // An acknowledged rule alarms again once clear this long
+const TICK_MS = 1000;
+
+export const METRIC_LABELS: Record<AlertMetric, { label: string, unit: string }> = {
+  us: { label: 'Ultrasonic', unit: 'cm' },
+  temp: { label: 'Temperature', unit: '°C' },
+  pressure: { label: 'Pressure', unit: 'hPa' },
+  state: { label: 'Robot state', unit: '' },
+  connection: { label: 'Connection', unit: '' },
+  telemetryAge: { label: 'Telemetry age', unit: 's' },
+};
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'obstacle-close', name: 'Obstacle close', enabled: true, metric: 'us', operator: '<', value: 20, forMs: 0, severity: 'warning', autoStop: false },
+  { id: 'temp-high', name: 'Temperature high', enabled: true, metric: 'temp', operator: '>', value: 60, forMs: 10000, severity: 'warning', autoStop: false },
+  { id: 'telemetry-lost', name: 'No telemetry', enabled: true, metric: 'telemetryAge', operator: '>', value: 5, forMs: 0, severity: 'critical', autoStop: false },
+  { id: 'link-lost', name: 'Robot offline', enabled: true, metric: 'connection', operator: '=', value: 'offline', forMs: 3000, severity: 'critical', autoStop: false },
+  { id: 'state-error', name: 'Robot error', enabled: true, metric: 'state', operator: '=', value: 'ERROR', forMs: 0, severity: 'critical', autoStop: true },
+];
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = { sound: true, notifications: false };
+
+export function loadAlertRules(): AlertRule[] {
+  return loadJson<AlertRule[]>(RULES_KEY, DEFAULT_ALERT_RULES);
+}
+
+export function loadAlertSettings(): AlertSettings {
+  return { ...DEFAULT_ALERT_SETTINGS, ...loadJson<Partial<AlertSettings>>(SETTINGS_KEY, {}) };
+}
+
+export function saveAlertSettings(settings: AlertSettings) {
+  saveJson(SETTINGS_KEY, settings);
+}
+
+export function newAlertRule(): AlertRule {
+  return { id: createId(), name: 'New rule', enabled: true, metric: 'us', operator: '<', value: 30, forMs: 0, severity: 'warning', autoStop: false };
+}
+
+/** Snapshot the rules are evaluated against. */
+export interface AlertInput {
+  telemetry: TelemetryData;
+  connected: boolean;
+  streaming: boolean;             // False when no socket is expected (HTTP-only)
+  telemetryAge: number | null;    // Seconds, null while offline
+}
+
+export function metricValue(metric: AlertMetric, input: AlertInput): number | string | null {
+  switch (metric) {
+    case 'connection': return !input.streaming ? null : input.connected ? 'online' : 'offline';
+    case 'telemetryAge': return input.telemetryAge;
+    default: return input.telemetry[metric];
+  }
+}
+
+/**
+ * Compares a reading against a rule threshold. Missing readings never match,
+ * so a robot that hasn't reported yet doesn't trip every rule.
+ */
+export function compareMetric(actual: number | string | null, operator: AlertOperator, value: number | string): boolean {
+  if (actual === null || actual === undefined) return false;
+  const numeric = typeof actual === 'number' && !isNaN(Number(value));
+  switch (operator) {
+    case '<': return numeric && actual < Number(value);
+    case '>': return numeric && actual > Number(value);
+    case '=': return numeric ? actual === Number(value) : String(actual).toUpperCase() === String(value).toUpperCase();
+    case '!=': return numeric ? actual !== Number(value) : String(actual).toUpperCase() !== String(value).toUpperCase();
+  }
+}
+
+function describe(rule: AlertRule, actual: number | string | null): string {
+  const { label, unit } = METRIC_LABELS[rule.metric];
+  const shown = typeof actual === 'number' ? Math.round(actual * 10) / 10 : actual;
+  return `${label} ${shown}${unit ? ` ${unit}` : ''} (${rule.operator} ${rule.value}${unit ? ` ${unit}` : ''})`;
+}
+
+// ----------------------------------------------------------------------
+// Engine
+// ----------------------------------------------------------------------
+
+/**
+ * Evaluates alert rules against the selected robot's telemetry and link.
+ *
+ * A rule fires once its condition has held for `forMs` and resolves as soon
+ * as the condition clears. Each rule has at most one open alert. Alerts can
+ * be acknowledged (silences the repeat alarm) or snoozed (hidden until the
+ * snooze ends). Both apply to the rule rather than the one alert, so a
+ * condition that flaps opens quiet alerts instead of firing again: snooze
+ * until it ends, acknowledge until the rule has stayed clear for
+ * ACK_REARM_MS. Fired alerts are kept as history in local storage.
+ */
+export class AlertEngine {
+  private rules: AlertRule[] = loadAlertRules();
+  private alerts: Alert[];
+  private since = new Map<string, number>();      // Rule ID → condition start
+  private cleared = new Map<string, number>();    // Rule ID → condition end
+  private acked = new Map<string, number>();      // Rule ID → acknowledged at
+  private snoozed = new Map<string, number>();    // Rule ID → snoozed until
+  private lastAlarm = new Map<string, number>();  // Alert ID → last alarm
+  private telemetry: TelemetryData = EMPTY_TELEMETRY;
+  private connected = false;
+  private streaming = true;
+  private lastTelemetry = 0;
+  private timer: number | null = null;
+  public onChange: ((alerts: Alert[]) => void) | null = null;
+  public onFire: ((alert: Alert, rule: AlertRule) => void) | null = null;
+  public onAlarm: ((alert: Alert) => void) | null = null;
+
+  constructor() {
+    // Alerts left open by a previous page load can no longer resolve themselves
+    const now = Date.now();
+    this.alerts = loadJson<Alert[]>(HISTORY_KEY, []).map(a => a.resolvedAt === null ? { ...a, resolvedAt: now } : a);
+  }
+
+  getRules(): AlertRule[] {
+    return this.rules;
+  }
+
+  getAlerts(): Alert[] {
+    return this.alerts;
+  }
+
+  setRules(rules: AlertRule[]) {
+    this.rules = rules;
+    saveJson(RULES_KEY, rules);
+    this.since.clear();
+    this.evaluate();
+  }
+
+  start() {
+    if (this.timer !== null) return;
+    this.timer = window.setInterval(() => this.evaluate(), TICK_MS);
+  }
+
+  stop() {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  update(telemetry: TelemetryData) {
+    this.telemetry = telemetry;
+    this.lastTelemetry = Date.now();
+    this.evaluate();
+  }
+
+  setConnected(connected: boolean) {
+    // Give a fresh link a full window before judging telemetry age
+    if (connected && !this.connected) this.lastTelemetry = Date.now();
+    this.connected = connected;
+    this.evaluate();
+  }
+
+  /**
+   * Whether the robot link is expected to stream. HTTP-only links never open
+   * a socket, so connection and telemetry-age rules are left unjudged.
+   */
+  setStreaming(streaming: boolean) {
+    if (streaming === this.streaming) return;
+    this.streaming = streaming;
+    this.since.clear();
+    this.evaluate();
+  }
+
+  /** Closes every open alert and starts over, e.g. after switching robots. */
+  reset(telemetry: TelemetryData, connected: boolean) {
+    const now = Date.now();
+    this.telemetry = telemetry;
+    this.connected = connected;
+    this.lastTelemetry = now;
+    this.since.clear();
+    this.cleared.clear();
+    this.acked.clear();
+    this.snoozed.clear();
+    this.setAlerts(this.alerts.map(a => a.resolvedAt === null ? { ...a, resolvedAt: now } : a));
+  }
+
+  acknowledge(alertId: string) {
+    const now = Date.now();
+    const alert = this.alerts.find(a => a.id === alertId);
+    if (alert) this.acked.set(alert.ruleId, now);
+    this.patchAlert(alertId, { acknowledgedAt: now });
+  }
+
+  snooze(alertId: string, durationMs: number) {
+    const until = Date.now() + durationMs;
+    const alert = this.alerts.find(a => a.id === alertId);
+    if (alert) this.snoozed.set(alert.ruleId, until);
+    this.patchAlert(alertId, { snoozedUntil: until });
+  }
+
+  /** Drops resolved alerts; open ones stay. */
+  clearHistory() {
+    this.setAlerts(this.alerts.filter(a => a.resolvedAt === null));
+  }
+
+  private evaluate() {
+    const now = Date.now();
+    const input: AlertInput = {
+      telemetry: this.telemetry,
+      connected: this.connected,
+      streaming: this.streaming,
+      telemetryAge: this.streaming && this.connected ? (now - this.lastTelemetry) / 1000 : null
+    };
+    let alerts = this.alerts;
+    const fired: [Alert, AlertRule][] = [];
+
+    for (const rule of this.rules) {
+      const open = alerts.find(a => a.ruleId === rule.id && a.resolvedAt === null);
+      const actual = metricValue(rule.metric, input);
+      const met = rule.enabled && compareMetric(actual, rule.operator, rule.value);
+
+      if ((this.snoozed.get(rule.id) ?? now) <= now) this.snoozed.delete(rule.id);
+
+      if (!met) {
+        this.since.delete(rule.id);
+        const cleared = this.cleared.get(rule.id) ?? now;
+        this.cleared.set(rule.id, cleared);
+        if (now - cleared >= ACK_REARM_MS) this.acked.delete(rule.id);
+        if (open) {
+          alerts = alerts.map(a => a === open ? { ...a, resolvedAt: now } : a);
+          this.lastAlarm.delete(open.id);
+        }
+        continue;
+      }
+
+      this.cleared.delete(rule.id);
+      const since = this.since.get(rule.id) ?? now;
+      this.since.set(rule.id, since);
+      if (open || now - since < rule.forMs) continue;
+
+      const acknowledgedAt = this.acked.get(rule.id) ?? null;
+      const snoozedUntil = this.snoozed.get(rule.id) ?? null;
+
+      const alert: Alert = {
+        id: createId(),
+        ruleId: rule.id,
+        ruleName: rule.name,
+        severity: rule.severity,
+        message: describe(rule, actual),
+        firedAt: now,
+        resolvedAt: null,
+        acknowledgedAt,
+        snoozedUntil
+      };
+      alerts = [alert, ...alerts];
+      if (acknowledgedAt === null && snoozedUntil === null) fired.push([alert, rule]);
+    }
+
+    // Rules deleted while their alert was open
+    alerts = alerts.map(a => a.resolvedAt === null && !this.rules.some(r => r.id === a.ruleId) ? { ...a, resolvedAt: now } : a);
+
+    if (alerts.some((a, i) => a !== this.alerts[i]) || alerts.length !== this.alerts.length) this.setAlerts(alerts);
+    fired.forEach(([alert, rule]) => {
+      this.lastAlarm.set(alert.id, now);
+      this.onFire?.(alert, rule);
+      this.onAlarm?.(alert);
+    });
+    this.repeatAlarms(now);
+  }
+
+  private repeatAlarms(now: number) {
+    for (const alert of this.alerts) {
+      if (alert.resolvedAt !== null || alert.severity !== 'critical' || alert.acknowledgedAt !== null) continue;
+      if (alert.snoozedUntil !== null && alert.snoozedUntil > now) continue;
+      if (now - (this.lastAlarm.get(alert.id) ?? 0) < ALARM_REPEAT_MS) continue;
+      this.lastAlarm.set(alert.id, now);
+      this.onAlarm?.(alert);
+    }
+  }
+
+  private patchAlert(alertId: string, patch: Partial<Alert>) {
+    this.setAlerts(this.alerts.map(a => a.id === alertId ? { ...a, ...patch } : a));
+  }
+
+  private setAlerts(alerts: Alert[]) {
+    this.alerts = alerts.slice(0, MAX_ALERT_HISTORY);
+    saveJson(HISTORY_KEY, this.alerts);
+    this.onChange?.(this.alerts);
+  }
+}
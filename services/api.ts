@@ -1,87 +1,724 @@
-import { io, Socket } from 'socket.io-client';
-import { Command, ROBOT_HOST, ROBOT_PORT } from '../types';
+import { io, ManagerOptions, Socket, SocketOptions } from 'socket.io-client';
+import {
+  AuditEntry, Command, CommandRecord, ConnectionSettings, ControlHolder, ControlSession, Credentials,
+  FirmwareInfo, LinkDiagnostics, LogRecord, LogType, ROBOT_HOST, ROBOT_PORT, RobotSnapshot, TelemetryData, Transport,
+  TransportMode
+} from '../types';
+import { createId } from '../utils/id';
+import {
+  AckPayload, AuditPayload, ControlFrame, ControlReply, HelloPayload, ProtocolError, SUPPORTED_PROTOCOL_VERSIONS,
+  encodeAuth, encodeCommand, encodeEcho, encodeHello, encodeHttpAuthHeaders, encodeHttpCommand, parseMessage,
+  parseStatusLog, validateCommand, validateRawCommand
+} from './protocol';
+import { CONTROL_PROTOCOL_VERSION, commandPermission, isReadOnlyCommand } from './control';
+import { changesSettings } from './stateSync';
 
-const HTTP_URL = `http://${ROBOT_HOST}:${ROBOT_PORT}/cmd`;
-const WS_URL = `http://${ROBOT_HOST}:${ROBOT_PORT}`;
+// Identifies this dashboard to the robot's control lock. New on every page
+// load, so two tabs count as two dashboards.
+export const CLIENT_ID = createId();
 
-class RobotApi {
+export const DEFAULT_CONNECTION_SETTINGS: ConnectionSettings = {
+  mode: 'auto',
+  socketTransports: ['websocket'],
+  timeoutMs: 5000,
+  reconnectionAttempts: 10,
+  httpPath: '/cmd',
+  pingIntervalMs: 5000
+};
+
+const DIAGNOSTICS_INTERVAL_MS = 1000;
+const RATE_WINDOW_MS = 5000;        // Message rates are averaged over this window
+const PING_TIMEOUT_MS = 3000;
+const CONTROL_TIMEOUT_MS = 3000;
+
+// Firmware that doesn't answer the hello within this window is treated as
+// legacy (protocol 0) and spoken to without a handshake
+const HANDSHAKE_TIMEOUT_MS = 2000;
+
+// Settings changes are followed by a fresh STATUS once a burst of them settles
+const STATUS_REFRESH_DELAY_MS = 1000;
+
+// Commands that must not silently fail get extra retries by default
+const CRITICAL_COMMANDS: string[] = [
+  Command.STOP, Command.ROLLER_ON, Command.ROLLER_OFF, Command.AUTO, Command.MANUAL
+];
+
+export interface AckOptions {
+  timeoutMs: number;        // Wait this long for an ack before retrying
+  retries: number;          // Re-sends after the first attempt
+  criticalRetries: number;  // Re-sends for CRITICAL_COMMANDS
+}
+
+export interface SendOptions {
+  timeoutMs?: number;
+  retries?: number;
+  raw?: boolean;            // Console command: unknown verbs are sent unchecked
+}
+
+/**
+ * Raised when a command is rejected by the robot or never acknowledged.
+ */
+export class CommandError extends Error {
+  record: CommandRecord;
+
+  constructor(message: string, record: CommandRecord) {
+    super(message);
+    this.name = 'CommandError';
+    this.record = record;
+  }
+}
+
+function emptyDiagnostics(mode: TransportMode): LinkDiagnostics {
+  return {
+    mode,
+    connected: false,
+    connectedSince: null,
+    latencyMs: null,
+    pingedAt: null,
+    reconnectAttempts: 0,
+    reconnects: 0,
+    rxPerSec: 0,
+    txPerSec: 0,
+    rxTotal: 0,
+    txTotal: 0,
+    commandsByTransport: { ws: 0, http: 0 },
+    lastError: null
+  };
+}
+
+/**
+ * How a RobotApi reaches its robot: the Socket.IO client and the HTTP
+ * fallback. Tests swap in a fake socket and canned responses.
+ */
+export interface RobotTransport {
+  createSocket: (url: string, options: Partial<ManagerOptions & SocketOptions>) => Socket;
+  fetch: (url: string, init: RequestInit) => Promise<Response>;
+}
+
+export const DEFAULT_TRANSPORT: RobotTransport = {
+  createSocket: (url, options) => io(url, options),
+  fetch: (url, init) => fetch(url, init)
+};
+
+interface PendingEntry {
+  record: CommandRecord;
+  timeoutMs: number;
+  retries: number;
+  raw: boolean;
+  timer: number | null;
+  resolve: (record: CommandRecord) => void;
+  reject: (err: CommandError) => void;
+}
+
+/**
+ * Connection to a single robot. The fleet registry creates one per robot.
+ */
+export class RobotApi {
   private socket: Socket | null = null;
-  public onTelemetry: ((data: any) => void) | null = null;
-  public onLog: ((msg: string) => void) | null = null;
+  private host: string;
+  private port: number;
+  private httpUrl: string;
+  private wsUrl: string;
+  private settings: ConnectionSettings;
+  private transport: RobotTransport;
+  private pending = new Map<string, PendingEntry>();
+  private ackOptions: AckOptions = { timeoutMs: 1500, retries: 1, criticalRetries: 3 };
+  private firmware: FirmwareInfo | null = null;
+  private handshakeTimer: number | null = null;
+  private warned = new Set<string>();
+  private diagnostics: LinkDiagnostics;
+  private rateSamples: { t: number, rx: number, tx: number }[] = [];
+  private diagnosticsTimer: number | null = null;
+  private lastPing = 0;
+  private credentials: Credentials | null = null;
+  private session: ControlSession | null = null;
+  private holder: ControlHolder | null = null;
+  private snapshot: RobotSnapshot | null = null;
+  private statusTimer: number | null = null;
+  public onTelemetry: ((data: Partial<TelemetryData>) => void) | null = null;
+  public onLog: ((record: LogRecord) => void) | null = null;
   public onAck: ((msg: string) => void) | null = null;
   public onConnectChange: ((connected: boolean) => void) | null = null;
+  public onCommandUpdate: ((record: CommandRecord) => void) | null = null;
+  public onFirmware: ((info: FirmwareInfo | null) => void) | null = null;
+  public onProtocolError: ((err: ProtocolError) => void) | null = null;
+  public onDiagnostics: ((diagnostics: LinkDiagnostics) => void) | null = null;
+  public onSession: ((session: ControlSession | null) => void) | null = null;
+  public onControl: ((holder: ControlHolder | null) => void) | null = null;
+  // Robot-reported settings; null until the first STATUS reply after connecting
+  public onSnapshot: ((snapshot: RobotSnapshot | null) => void) | null = null;
+  // Settled commands from this dashboard, and commands the robot reports from others
+  public onAudit: ((entry: Omit<AuditEntry, 'id' | 'robotId' | 'robotName' | 'count'>) => void) | null = null;
+  // Returns a reason to refuse a command (e.g. E-stop latched), or null
+  public commandGuard: ((cmd: string) => string | null) | null = null;
+
+  constructor(
+    host: string = ROBOT_HOST,
+    port: number = ROBOT_PORT,
+    settings: ConnectionSettings = DEFAULT_CONNECTION_SETTINGS,
+    transport: RobotTransport = DEFAULT_TRANSPORT
+  ) {
+    this.transport = transport;
+    this.setAddress(host, port, settings);
+    this.diagnostics = emptyDiagnostics(settings.mode);
+  }
 
   connect() {
-    this.socket = io(WS_URL, {
-      transports: ['websocket'],
-      timeout: 5000,
-      reconnectionAttempts: 10
+    this.diagnostics = emptyDiagnostics(this.settings.mode);
+    this.rateSamples = [];
+    this.diagnosticsTimer = window.setInterval(() => this.tickDiagnostics(), DIAGNOSTICS_INTERVAL_MS);
+    this.emitDiagnostics();
+
+    if (this.settings.mode === 'http') {
+      this.log('sys', 'HTTP-only mode: commands only, no live telemetry', { level: 'warn', transport: 'http' });
+      return;
+    }
+
+    this.socket = this.transport.createSocket(this.wsUrl, {
+      transports: this.settings.socketTransports,
+      timeout: this.settings.timeoutMs,
+      reconnectionAttempts: this.settings.reconnectionAttempts,
+      // A private manager, so new settings for the same URL take effect
+      forceNew: true,
+      auth: encodeAuth(this.credentials, CLIENT_ID)
     });
 
     this.socket.on('connect', () => {
+      this.patchDiagnostics({ connected: true, connectedSince: Date.now(), reconnectAttempts: 0 });
       this.onConnectChange?.(true);
-      this.log('SYS', 'WebSocket Connected');
+      this.log('sys', 'WebSocket connected', { transport: 'ws' });
+      this.startHandshake();
+      this.ping();
     });
 
     this.socket.on('disconnect', () => {
+      this.clearHandshake();
+      this.setSession(null, null);
+      this.setSnapshot(null);
+      this.patchDiagnostics({ connected: false, connectedSince: null });
       this.onConnectChange?.(false);
-      this.log('SYS', 'WebSocket Disconnected');
+      this.log('sys', 'WebSocket disconnected', { level: 'warn', transport: 'ws' });
     });
 
-    this.socket.on('message', (payload: any) => {
-      let obj = payload;
-      if (typeof payload === 'string') {
-        try {
-          obj = JSON.parse(payload);
-        } catch (e) {
-          this.log('RX', payload);
-          return;
-        }
+    this.socket.on('connect_error', (err: Error) => {
+      // The robot refuses the handshake outright; Socket.IO won't retry this
+      if (err.message === 'unauthorized') {
+        this.log('sys', 'Robot rejected the operator credentials', { level: 'error', source: 'protocol', transport: 'ws' });
+        return;
       }
+      this.log('sys', `Connect failed: ${err.message}`, { level: 'error', transport: 'ws' });
+    });
+    this.socket.io.on('reconnect_attempt', (attempt: number) => {
+      this.patchDiagnostics({ reconnectAttempts: attempt });
+      this.log('sys', `Reconnecting (attempt ${attempt}/${this.settings.reconnectionAttempts})`, { level: 'debug', transport: 'ws' });
+    });
+    this.socket.io.on('reconnect', () => {
+      this.patchDiagnostics({ reconnects: this.diagnostics.reconnects + 1 });
+    });
+    this.socket.io.on('reconnect_failed', () => {
+      this.log('sys', `Gave up after ${this.settings.reconnectionAttempts} reconnect attempts`, { level: 'error', transport: 'ws' });
+    });
 
-      if (obj.type === 'telemetry') {
-        this.onTelemetry?.(obj.data);
-      } else if (obj.type === 'ack') {
-        this.onAck?.(JSON.stringify(obj.data));
-        this.log('RX', `ACK: ${JSON.stringify(obj.data)}`);
-      } else if (obj.type === 'log') {
-        this.log('RX', `LOG: ${obj.data}`);
-      } else {
-        this.log('RX', `MSG: ${JSON.stringify(obj)}`);
-      }
+    this.socket.on('message', (payload: unknown) => this.handleMessage(payload));
+    // Older firmware pushes telemetry as its own event
+    this.socket.on('telemetry', (t: unknown) => this.handleMessage({ type: 'telemetry', data: t }));
+  }
+
+  disconnect() {
+    this.clearHandshake();
+    if (this.diagnosticsTimer !== null) clearInterval(this.diagnosticsTimer);
+    this.diagnosticsTimer = null;
+    this.socket?.removeAllListeners();
+    this.socket?.disconnect();
+    this.socket = null;
+    this.setSession(null, null);
+    this.setSnapshot(null);
+    Array.from(this.pending.keys()).forEach(id => this.settle(id, 'failed', 'Disconnected'));
+  }
+
+  /** Credentials go out in the handshake, so changing them reconnects. */
+  setCredentials(credentials: Credentials | null) {
+    this.credentials = credentials;
+    this.reconfigure(this.host, this.port, this.settings);
+  }
+
+  /** Role the robot granted us, null for legacy firmware without auth. */
+  getSession(): ControlSession | null {
+    return this.session;
+  }
+
+  getControlHolder(): ControlHolder | null {
+    return this.holder;
+  }
+
+  holdsControl(): boolean {
+    return this.holder?.clientId === CLIENT_ID;
+  }
+
+  /** Latest robot-reported settings, null until the robot answers STATUS. */
+  getSnapshot(): RobotSnapshot | null {
+    return this.snapshot;
+  }
+
+  /** Asks the robot for a settings snapshot; the reply arrives via onSnapshot. */
+  requestStatus() {
+    if (this.statusTimer !== null) clearTimeout(this.statusTimer);
+    this.statusTimer = null;
+    this.sendCmd(Command.STATUS).catch(() => undefined);
+  }
+
+  /** Takes the single-controller lock. Rejects if another dashboard holds it. */
+  requestControl(): Promise<void> {
+    return this.controlAction({ action: 'acquire' });
+  }
+
+  releaseControl(): Promise<void> {
+    return this.controlAction({ action: 'release' });
+  }
+
+  /**
+   * Moves the connection to a new address or settings. Callbacks stay
+   * bound, so whoever is driving this robot keeps receiving events.
+   */
+  reconfigure(host: string, port: number, settings: ConnectionSettings) {
+    const started = this.socket !== null || this.diagnosticsTimer !== null;
+    const linkUp = this.isConnected();
+    this.disconnect();
+    // disconnect() drops the socket listeners, so report the change here
+    if (linkUp) this.onConnectChange?.(false);
+    if (this.firmware) this.setFirmware(null);
+    this.setAddress(host, port, settings);
+    if (started) this.connect();
+  }
+
+  getSettings(): ConnectionSettings {
+    return this.settings;
+  }
+
+  getDiagnostics(): LinkDiagnostics {
+    return this.diagnostics;
+  }
+
+  /**
+   * Measures the WebSocket round trip with an `echo` probe. Firmware that
+   * doesn't answer leaves the last reading in place. In HTTP-only mode the
+   * latency comes from command round trips instead.
+   */
+  ping() {
+    if (!this.socket?.connected) return;
+    const sent = performance.now();
+    this.lastPing = Date.now();
+    this.socket.timeout(PING_TIMEOUT_MS).emit('echo', encodeEcho(), (err: Error | null) => {
+      if (err) return;
+      this.patchDiagnostics({ latencyMs: Math.round(performance.now() - sent), pingedAt: Date.now() });
     });
+  }
+
+  private setAddress(host: string, port: number, settings: ConnectionSettings) {
+    const path = settings.httpPath.startsWith('/') ? settings.httpPath : `/${settings.httpPath}`;
+    this.settings = settings;
+    this.host = host;
+    this.port = port;
+    this.httpUrl = `http://${host}:${port}${path}`;
+    this.wsUrl = `http://${host}:${port}`;
+  }
+
+  isConnected(): boolean {
+    return !!this.socket?.connected;
+  }
+
+  /** Result of the protocol handshake, null until it settles. */
+  getFirmware(): FirmwareInfo | null {
+    return this.firmware;
+  }
+
+  configureAcks(options: Partial<AckOptions>) {
+    this.ackOptions = { ...this.ackOptions, ...options };
+  }
 
-    this.socket.on('telemetry', (t: any) => this.onTelemetry?.(t));
+  private log(type: LogType, message: string, meta: Partial<Pick<LogRecord, 'level' | 'source' | 'transport'>> = {}) {
+    const record: LogRecord = { time: Date.now(), type, level: 'info', source: 'link', transport: null, ...meta, message };
+    if (record.level === 'error') this.patchDiagnostics({ lastError: { time: record.time, message } });
+    this.onLog?.(record);
   }
 
-  private log(type: string, msg: string) {
-    // Internal logging logic handled by App component via callbacks usually, 
-    // but here we just trigger the callback
-    if (this.onLog) this.onLog(msg); 
+  /**
+   * Sends a command and tracks it until the robot acknowledges it.
+   *
+   * Resolves with the confirmed record once a matching ack arrives (or the
+   * HTTP fallback answers). Unacknowledged commands are re-sent up to
+   * `retries` times before the promise rejects with a CommandError.
+   *
+   * @example
+   * await api.sendCmd(Command.ROLLER_ON);
+   * api.sendCmd(Command.FORWARD, { retries: 0 });
+   */
+  sendCmd(cmd: string, options: SendOptions = {}): Promise<CommandRecord> {
+    const critical = CRITICAL_COMMANDS.includes(cmd);
+    const record: CommandRecord = {
+      id: createId(),
+      cmd,
+      status: 'pending',
+      attempts: 0,
+      sentAt: Date.now(),
+      settledAt: null,
+      transport: 'ws',
+      error: null,
+      operator: this.credentials?.operator ?? null
+    };
+
+    let refusal: string | null = null;
+    try {
+      if (options.raw) validateRawCommand(cmd);
+      else validateCommand(cmd);
+      refusal = (this.session && commandPermission(cmd, this.session.role, this.holder, CLIENT_ID))
+        ?? this.commandGuard?.(cmd) ?? null;
+    } catch (e) {
+      if (!(e instanceof ProtocolError)) throw e;
+      refusal = e.message;
+    }
+    if (refusal) {
+      const refused: CommandRecord = { ...record, status: 'failed', settledAt: Date.now(), error: refusal };
+      this.onCommandUpdate?.(refused);
+      this.log('sys', `Blocked ${cmd}: ${refusal}`, { level: 'warn', source: 'command' });
+      return Promise.reject(new CommandError(`${cmd}: ${refusal}`, refused));
+    }
+
+    return new Promise<CommandRecord>((resolve, reject) => {
+      const entry: PendingEntry = {
+        record,
+        timeoutMs: options.timeoutMs ?? this.ackOptions.timeoutMs,
+        retries: options.retries ?? (critical ? this.ackOptions.criticalRetries : this.ackOptions.retries),
+        raw: options.raw ?? false,
+        timer: null,
+        resolve,
+        reject
+      };
+      this.pending.set(record.id, entry);
+      this.transmit(entry);
+    });
   }
 
-  async sendCmd(cmd: string) {
+  private async transmit(entry: PendingEntry) {
+    const { id, cmd } = entry.record;
+    this.update(entry, { attempts: entry.record.attempts + 1 });
+    const retryNote = entry.record.attempts > 1 ? ` (retry ${entry.record.attempts - 1})` : '';
+
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = window.setTimeout(() => this.handleTimeout(id), entry.timeoutMs);
+
     // 1. Try WebSocket
     if (this.socket && this.socket.connected) {
-      this.socket.emit('cmd', { cmd });
-      this.log('TX', `WS: ${cmd}`);
+      this.update(entry, { transport: 'ws' });
+      this.socket.emit('cmd', encodeCommand(cmd, id, entry.raw));
+      this.countTx('ws');
+      this.log('tx', `${cmd}${retryNote}`, { source: 'command', transport: 'ws' });
+      return;
+    }
+    if (this.settings.mode === 'ws') {
+      // Leave the command pending; the ack timeout decides whether to retry
+      this.log('sys', `WebSocket not connected, ${cmd} not sent (WS-only mode)`, { level: 'error', source: 'command', transport: 'ws' });
       return;
     }
 
     // 2. Fallback to HTTP
     try {
-      this.log('TX', `HTTP: ${cmd} (Fallback)`);
-      const res = await fetch(HTTP_URL, {
+      this.update(entry, { transport: 'http' });
+      this.countTx('http');
+      const note = this.settings.mode === 'http' ? '' : ' (fallback)';
+      this.log('tx', `${cmd}${note}${retryNote}`, { source: 'command', transport: 'http' });
+      const sent = performance.now();
+      const res = await this.transport.fetch(this.httpUrl, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ c: cmd })
+        headers: { 'Content-Type': 'application/json', ...encodeHttpAuthHeaders(this.credentials, CLIENT_ID) },
+        body: JSON.stringify(encodeHttpCommand(cmd, id, entry.raw))
       });
       const text = await res.text();
-      this.log('RX', `HTTP Resp: ${text}`);
-    } catch (e: any) {
-      this.log('SYS', `HTTP Send Failed: ${e.message}`);
+      this.patchDiagnostics({ latencyMs: Math.round(performance.now() - sent), pingedAt: Date.now(), rxTotal: this.diagnostics.rxTotal + 1 });
+      this.log('rx', `HTTP ${res.status}: ${text}`, { level: res.ok ? 'info' : 'error', source: 'command', transport: 'http' });
+      // The HTTP response is the acknowledgement for the fallback path
+      if (res.ok) this.settle(id, 'confirmed', null);
+      else this.settle(id, 'failed', `HTTP ${res.status}`);
+    } catch (e: unknown) {
+      // Leave the command pending; the ack timeout decides whether to retry
+      this.log('sys', `HTTP send failed: ${e instanceof Error ? e.message : String(e)}`, { level: 'error', source: 'command', transport: 'http' });
     }
   }
-}
 
-export const api = new RobotApi();
\ No newline at end of file
+  // ----------------------------------------------------------------------
+  // Inbound frames
+  // ----------------------------------------------------------------------
+
+  private handleMessage(payload: unknown) {
+    this.diagnostics = { ...this.diagnostics, rxTotal: this.diagnostics.rxTotal + 1 };
+    let msg;
+    try {
+      msg = parseMessage(payload);
+    } catch (e) {
+      if (!(e instanceof ProtocolError)) throw e;
+      this.reportProtocolError(e);
+      return;
+    }
+
+    switch (msg.type) {
+      case 'telemetry':
+        msg.data.warnings.forEach(w => this.warnOnce(w));
+        this.onTelemetry?.(msg.data.data);
+        break;
+      case 'ack':
+        this.onAck?.(JSON.stringify(msg.data));
+        this.log('rx', `ACK ${msg.data.cmd ?? msg.data.id ?? '?'}${msg.data.ok ? '' : ` (${msg.data.error})`}`, {
+          level: msg.data.ok ? 'info' : 'error', source: 'command', transport: 'ws'
+        });
+        this.handleAck(msg.data);
+        break;
+      case 'log':
+        this.log('rx', msg.data, { source: 'firmware', transport: 'ws' });
+        this.handleStatusLog(msg.data);
+        break;
+      case 'status':
+        this.setSnapshot(msg.data);
+        break;
+      case 'hello':
+        this.handleHello(msg.data);
+        break;
+      case 'control':
+        this.setControl(msg.data);
+        break;
+      case 'audit':
+        this.handleAudit(msg.data);
+        break;
+    }
+  }
+
+  /**
+   * Matches an ack to its command: by echoed `id` when the firmware supports
+   * it, else the oldest pending command with the same `cmd`, else, for an
+   * ack carrying neither, the oldest pending command overall (firmware acks
+   * in order). An ack whose `id` or `cmd` matches nothing pending is late or
+   * a duplicate for a retried or settled command and is dropped, so it can't
+   * confirm an unrelated one.
+   */
+  private handleAck(ack: AckPayload) {
+    const entries = Array.from(this.pending.values());
+    const entry = ack.id ? this.pending.get(ack.id)
+      : ack.cmd ? entries.find(e => e.record.cmd === ack.cmd)
+      : entries[0];
+    if (!entry) return;
+
+    if (ack.ok) this.settle(entry.record.id, 'confirmed', null);
+    else this.settle(entry.record.id, 'failed', ack.error);
+  }
+
+  private startHandshake() {
+    this.clearHandshake();
+    this.firmware = null;
+    this.warned.clear();
+    this.onFirmware?.(null);
+    this.socket?.emit('hello', encodeHello());
+    this.handshakeTimer = window.setTimeout(() => {
+      this.handshakeTimer = null;
+      this.log('sys', 'No protocol handshake, assuming legacy firmware', { level: 'warn', source: 'protocol' });
+      this.setFirmware({ protocol: 0, version: null, supported: true });
+      this.requestStatus();
+    }, HANDSHAKE_TIMEOUT_MS);
+  }
+
+  private clearHandshake() {
+    if (this.handshakeTimer !== null) clearTimeout(this.handshakeTimer);
+    this.handshakeTimer = null;
+  }
+
+  private handleHello(hello: HelloPayload) {
+    this.clearHandshake();
+    const supported = SUPPORTED_PROTOCOL_VERSIONS.includes(hello.protocol);
+    this.log('sys', `Firmware ${hello.firmware ?? 'unknown'}, protocol v${hello.protocol}`, { source: 'protocol' });
+    if (!supported) {
+      this.reportProtocolError(new ProtocolError(
+        'unsupported-version',
+        `Protocol v${hello.protocol} is not supported (expected ${SUPPORTED_PROTOCOL_VERSIONS.map(v => `v${v}`).join(', ')})`,
+        hello
+      ));
+    }
+    this.setFirmware({ protocol: hello.protocol, version: hello.firmware, supported });
+    if (hello.protocol >= CONTROL_PROTOCOL_VERSION) {
+      this.setSession(hello.session, hello.control);
+      if (hello.session) {
+        this.log('sys', `Signed in as ${hello.session.operator ?? 'anonymous'} (${hello.session.role})`, { source: 'protocol' });
+      }
+    }
+    this.requestStatus();
+  }
+
+  // Our own commands are audited when they settle, so skip their echoes
+  private handleAudit(audit: AuditPayload) {
+    if (audit.clientId === CLIENT_ID) return;
+    // Another dashboard may have changed what we last saw
+    if (audit.ok && changesSettings(audit.cmd)) this.scheduleStatus();
+    if (isReadOnlyCommand(audit.cmd)) return;
+    this.onAudit?.({
+      time: audit.time,
+      operator: audit.operator,
+      self: false,
+      cmd: audit.cmd,
+      status: audit.ok ? 'confirmed' : 'failed',
+      transport: null,
+      error: audit.error
+    });
+  }
+
+  private handleStatusLog(line: string) {
+    try {
+      const snapshot = parseStatusLog(line);
+      if (snapshot) this.setSnapshot(snapshot);
+    } catch (e) {
+      if (!(e instanceof ProtocolError)) throw e;
+      this.reportProtocolError(e);
+    }
+  }
+
+  // Clearing the snapshot (on disconnect) also drops any queued refresh
+  private setSnapshot(snapshot: RobotSnapshot | null) {
+    if (!snapshot && this.statusTimer !== null) {
+      clearTimeout(this.statusTimer);
+      this.statusTimer = null;
+    }
+    if (snapshot === this.snapshot) return;
+    this.snapshot = snapshot;
+    this.onSnapshot?.(snapshot);
+  }
+
+  private scheduleStatus() {
+    if (!this.isConnected()) return;
+    if (this.statusTimer !== null) clearTimeout(this.statusTimer);
+    this.statusTimer = window.setTimeout(() => this.requestStatus(), STATUS_REFRESH_DELAY_MS);
+  }
+
+  private setSession(session: ControlSession | null, holder: ControlHolder | null) {
+    if (session !== this.session) {
+      this.session = session;
+      this.onSession?.(session);
+    }
+    this.setControl(holder);
+  }
+
+  private setControl(holder: ControlHolder | null) {
+    if (holder?.clientId === this.holder?.clientId && holder?.operator === this.holder?.operator) return;
+    this.holder = holder;
+    this.onControl?.(holder);
+  }
+
+  private controlAction(frame: ControlFrame): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (!this.socket?.connected) return reject(new Error('Not connected'));
+      if (!this.session) return reject(new Error('Firmware has no control lock'));
+      this.socket.timeout(CONTROL_TIMEOUT_MS).emit('control', frame, (err: Error | null, reply: ControlReply) => {
+        if (err) return reject(new Error('No reply from robot'));
+        if (!reply?.ok) return reject(new Error(reply?.error ?? 'Refused by robot'));
+        this.log('sys', frame.action === 'acquire' ? 'Took control' : 'Released control', { source: 'command' });
+        resolve();
+      });
+    });
+  }
+
+  private setFirmware(info: FirmwareInfo | null) {
+    this.firmware = info;
+    this.onFirmware?.(info);
+  }
+
+  private reportProtocolError(err: ProtocolError) {
+    this.log('sys', `[${err.code}] ${err.message}`, { level: 'error', source: 'protocol' });
+    this.onProtocolError?.(err);
+  }
+
+  // Non-fatal protocol issues repeat on every frame, so log each once per connection
+  private warnOnce(warning: string) {
+    if (this.warned.has(warning)) return;
+    this.warned.add(warning);
+    this.log('sys', warning, { level: 'warn', source: 'protocol' });
+  }
+
+  private handleTimeout(id: string) {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+
+    if (entry.record.attempts <= entry.retries) {
+      this.log('sys', `No ACK for ${entry.record.cmd}, retrying`, { level: 'warn', source: 'command', transport: entry.record.transport });
+      this.transmit(entry);
+    } else {
+      this.log('sys', `Command failed: ${entry.record.cmd} (no ACK after ${entry.record.attempts} attempts)`, {
+        level: 'error', source: 'command', transport: entry.record.transport
+      });
+      this.settle(id, 'failed', 'No acknowledgement');
+    }
+  }
+
+  private settle(id: string, status: 'confirmed' | 'failed', error: string | null) {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+
+    if (entry.timer) clearTimeout(entry.timer);
+    this.pending.delete(id);
+    this.update(entry, { status, error, settledAt: Date.now() });
+    const { record } = entry;
+    if (!isReadOnlyCommand(record.cmd)) {
+      this.onAudit?.({
+        time: record.settledAt!,
+        operator: record.operator,
+        self: true,
+        cmd: record.cmd,
+        status,
+        transport: record.transport,
+        error
+      });
+    }
+    // Failures too: a half-applied change or a robot-side refusal is worth seeing
+    if (changesSettings(record.cmd)) this.scheduleStatus();
+
+    if (status === 'confirmed') entry.resolve(entry.record);
+    else entry.reject(new CommandError(`${entry.record.cmd}: ${error}`, entry.record));
+  }
+
+  private update(entry: PendingEntry, patch: Partial<CommandRecord>) {
+    entry.record = { ...entry.record, ...patch };
+    this.onCommandUpdate?.(entry.record);
+  }
+
+  // ----------------------------------------------------------------------
+  // Diagnostics
+  // ----------------------------------------------------------------------
+
+  // Counters change on every frame, so they are published on the tick
+  private countTx(transport: Transport) {
+    const d = this.diagnostics;
+    this.diagnostics = {
+      ...d,
+      txTotal: d.txTotal + 1,
+      commandsByTransport: { ...d.commandsByTransport, [transport]: d.commandsByTransport[transport] + 1 }
+    };
+  }
+
+  private tickDiagnostics() {
+    const now = Date.now();
+    const { rxTotal, txTotal } = this.diagnostics;
+    this.rateSamples = [...this.rateSamples.filter(s => now - s.t < RATE_WINDOW_MS), { t: now, rx: rxTotal, tx: txTotal }];
+    const first = this.rateSamples[0];
+    const span = (now - first.t) / 1000;
+    this.patchDiagnostics({
+      rxPerSec: span > 0 ? (rxTotal - first.rx) / span : 0,
+      txPerSec: span > 0 ? (txTotal - first.tx) / span : 0
+    });
+
+    const interval = this.settings.pingIntervalMs;
+    if (interval > 0 && now - this.lastPing >= interval) this.ping();
+  }
+
+  private patchDiagnostics(patch: Partial<LinkDiagnostics>) {
+    this.diagnostics = { ...this.diagnostics, ...patch };
+    this.emitDiagnostics();
+  }
+
+  private emitDiagnostics() {
+    this.onDiagnostics?.(this.diagnostics);
+  }
+}
@@ -0,0 +1,64 @@
+import { AuditEntry } from '../types';
+import { createId } from '../utils/id';
+import { loadJson, saveJson } from '../utils/storage';
+
+const STORAGE_KEY = 'auditTrail';
+export const MAX_AUDIT_ENTRIES = 1000;
+const BURST_WINDOW_MS = 2000;     // Repeats closer than this share an entry
+const SAVE_DELAY_MS = 1000;
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = ['time', 'robotName', 'operator', 'self', 'cmd', 'count', 'status', 'transport', 'error'];
+
+/** Audit trail as CSV with ISO timestamps, oldest first. */
+export function exportAuditCsv(entries: AuditEntry[]): string {
+  const field = (v: unknown) => {
+    if (v === null || v === undefined) return '';
+    const s = String(v);
+    return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  const rows = [...entries].reverse().map(e =>
+    CSV_COLUMNS.map(c => c === 'time' ? new Date(e.time).toISOString() : e[c]).map(field).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Which operator sent which command to which robot. Holds this dashboard's
+ * settled commands plus those the robot reports from other dashboards,
+ * newest first, in local storage. Bursts of the same command (a held
+ * drive button repeats every 250 ms) are folded into one entry with a count.
+ */
+export class AuditLog {
+  private entries: AuditEntry[] = loadJson<AuditEntry[]>(STORAGE_KEY, []);
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  public onChange: ((entries: AuditEntry[]) => void) | null = null;
+
+  getEntries(): AuditEntry[] {
+    return this.entries;
+  }
+
+  add(entry: Omit<AuditEntry, 'id' | 'count'>) {
+    const [last, ...rest] = this.entries;
+    const repeat = last && entry.time - last.time < BURST_WINDOW_MS
+      && last.robotId === entry.robotId && last.operator === entry.operator && last.self === entry.self
+      && last.cmd === entry.cmd && last.status === entry.status;
+    this.setEntries(repeat
+      ? [{ ...last, time: entry.time, count: last.count + 1 }, ...rest]
+      : [{ ...entry, id: createId(), count: 1 }, ...this.entries]);
+  }
+
+  clear() {
+    this.setEntries([]);
+  }
+
+  private setEntries(entries: AuditEntry[]) {
+    this.entries = entries.slice(0, MAX_AUDIT_ENTRIES);
+    this.onChange?.(this.entries);
+    // Serialising the whole trail on every drive repeat is wasteful; batch it
+    if (this.saveTimer === null) {
+      this.saveTimer = setTimeout(() => {
+        this.saveTimer = null;
+        saveJson(STORAGE_KEY, this.entries);
+      }, SAVE_DELAY_MS);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { CalibrationPoint, CalibrationProfile } from '../types';
+import { clampPwm } from './drive';
+import { createId } from '../utils/id';
+import { loadJson, saveJson } from '../utils/storage';
+
+const PROFILES_KEY = 'calibrationProfiles';
+const ACTIVE_KEY = 'activeCalibrationProfiles';
+
+// Quick-pick PWM values when no calibrated profile is active
+export const DEFAULT_PWM_PRESETS = [0, 100, 140, 200, 255];
+// PWM steps the wizard starts from
+export const DEFAULT_CALIBRATION_STEPS = [100, 140, 180, 220, 255];
+
+// Profiles saved before steps had IDs get them on load
+type StoredPoint = Omit<CalibrationPoint, 'id'> & { id?: string };
+
+function withPointIds(points: StoredPoint[]): CalibrationPoint[] {
+  return points.map(p => ({ ...p, id: p.id ?? createId() }));
+}
+
+export function loadProfiles(): CalibrationProfile[] {
+  return loadJson<CalibrationProfile[]>(PROFILES_KEY, []).map(p => ({
+    ...p,
+    drivePoints: withPointIds(p.drivePoints),
+    rollerPoints: withPointIds(p.rollerPoints)
+  }));
+}
+
+export function saveProfiles(profiles: CalibrationProfile[]) {
+  saveJson(PROFILES_KEY, profiles);
+}
+
+/** Last profile applied to each robot, by robot ID. */
+export function loadActiveProfiles(): Record<string, string> {
+  return loadJson<Record<string, string>>(ACTIVE_KEY, {});
+}
+
+export function saveActiveProfiles(active: Record<string, string>) {
+  saveJson(ACTIVE_KEY, active);
+}
+
+export function newCalibrationPoint(pwm: number): CalibrationPoint {
+  return { id: createId(), pwm, speed: null, note: '' };
+}
+
+export function newCalibrationPoints(steps: number[] = DEFAULT_CALIBRATION_STEPS): CalibrationPoint[] {
+  return steps.map(pwm => newCalibrationPoint(pwm));
+}
+
+export function newProfile(left: number, right: number, roller: number): CalibrationProfile {
+  return {
+    id: createId(),
+    name: '',
+    left,
+    right,
+    roller,
+    drivePoints: newCalibrationPoints(),
+    rollerPoints: newCalibrationPoints(),
+    updatedAt: Date.now()
+  };
+}
+
+/**
+ * Quick-pick values for a speed input: the PWMs calibrated in the profile,
+ * plus 0 so there is always a one-click stop. Falls back to the defaults
+ * when there is no profile or it has no points.
+ */
+export function profilePresets(points: CalibrationPoint[] | undefined): number[] {
+  if (!points?.length) return DEFAULT_PWM_PRESETS;
+  return [...new Set([0, ...points.map(p => clampPwm(p.pwm))])].sort((a, b) => a - b);
+}
+
+/** Firmware commands that put a profile's speeds on the robot, trim applied by the caller. */
+export function profileCommands(left: number, right: number, roller: number): string[] {
+  return [`LSPD ${clampPwm(left)}`, `RSPD ${clampPwm(right)}`, `ROLLERSPD ${clampPwm(roller)}`];
+}
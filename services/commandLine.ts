@@ -0,0 +1,48 @@
+import { Command } from '../types';
+import { COMMAND_SPECS } from './protocol';
+import { loadJson, saveJson } from '../utils/storage';
+
+const HISTORY_KEY = 'commandHistory';
+export const MAX_COMMAND_HISTORY = 50;
+
+// Verbs that take a PWM argument, and the values offered after them
+const PWM_VERBS = ['LSPD', 'RSPD', 'ROLLERSPD'];
+export const PWM_SUGGESTIONS = [0, 100, 140, 200, 255];
+
+export interface Suggestion {
+  value: string;            // Full command line to complete to
+  hint: string;             // Argument syntax still to type, if any
+}
+
+/**
+ * Completions for a partly typed command line. Bare verbs come from the
+ * Command enum; LSPD/RSPD/ROLLERSPD complete to a verb plus a trailing
+ * space and then offer common PWM values.
+ */
+export function suggestCommands(input: string): Suggestion[] {
+  const line = input.toUpperCase().replace(/^\s+/, '').replace(/\s+/g, ' ');
+  const [verb, arg] = line.split(' ');
+
+  if (arg !== undefined && PWM_VERBS.includes(verb)) {
+    return PWM_SUGGESTIONS
+      .map(String)
+      .filter(v => v.startsWith(arg) && v !== arg)
+      .map(v => ({ value: `${verb} ${v}`, hint: '' }));
+  }
+
+  const enumValues = (Object.values(Command) as string[]).filter(c => c !== Command.GOTO);
+  const withArgs = COMMAND_SPECS.filter(s => s.args.startsWith('<')).map(s => ({ value: `${s.verb} `, hint: s.args }));
+  return [...enumValues.map(value => ({ value, hint: '' })), ...withArgs]
+    .filter(s => s.value.startsWith(line) && s.value !== line);
+}
+
+export function loadCommandHistory(): string[] {
+  return loadJson<string[]>(HISTORY_KEY, []);
+}
+
+/** Adds a command to the front of the history, dropping an earlier repeat. */
+export function pushCommandHistory(history: string[], cmd: string): string[] {
+  const next = [cmd, ...history.filter(c => c !== cmd)].slice(0, MAX_COMMAND_HISTORY);
+  saveJson(HISTORY_KEY, next);
+  return next;
+}
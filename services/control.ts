@@ -0,0 +1,66 @@
+import { Command, ControlHolder, Credentials, OperatorRole } from '../types';
+import { loadJson, loadSessionJson, removeJson, saveJson, saveSessionJson } from '../utils/storage';
+
+const OPERATOR_KEY = 'operatorName';
+const TOKEN_KEY = 'operatorToken';                    // sessionStorage only
+const LEGACY_CREDENTIALS_KEY = 'operatorCredentials'; // Name and token, saved by older builds
+
+// Protocol version that added operator auth and the control lock
+export const CONTROL_PROTOCOL_VERSION = 2;
+
+// Queries anyone signed in may send, viewers included
+const READ_ONLY_COMMANDS: string[] = [Command.STATUS];
+
+export function isReadOnlyCommand(cmd: string): boolean {
+  return READ_ONLY_COMMANDS.includes(cmd);
+}
+
+/**
+ * Decides whether a client may send a command; returns the refusal or null.
+ * Shared by the dashboard (to refuse early) and the simulator (which
+ * enforces it like the firmware does).
+ *
+ * Viewers may only query. STOP is open to every operator, whoever holds
+ * control, so anyone at a dashboard can halt the robot. Everything else
+ * needs the control lock.
+ */
+export function commandPermission(
+  cmd: string,
+  role: OperatorRole,
+  holder: ControlHolder | null,
+  clientId: string
+): string | null {
+  if (isReadOnlyCommand(cmd)) return null;
+  if (role === 'viewer') return 'Viewers cannot send commands';
+  if (cmd === Command.STOP) return null;
+  if (!holder) return 'Take control before sending commands';
+  if (holder.clientId !== clientId) return `Control held by ${holder.operator ?? 'another dashboard'}`;
+  return null;
+}
+
+/**
+ * Sign-in for this tab. The operator name is remembered across reloads but
+ * the access token lasts only as long as the tab, so it never reaches
+ * localStorage or the IndexedDB mirror. Tokens saved there by older builds
+ * are removed.
+ */
+export function loadCredentials(): Credentials | null {
+  const legacy = loadJson<Credentials | null>(LEGACY_CREDENTIALS_KEY, null);
+  if (legacy) {
+    saveJson(OPERATOR_KEY, legacy.operator);
+    removeJson(LEGACY_CREDENTIALS_KEY);
+  }
+  const operator = loadOperatorName();
+  const token = loadSessionJson<string | null>(TOKEN_KEY, null);
+  return operator && token ? { operator, token } : null;
+}
+
+/** Last operator to sign in, to prefill the sign-in form. */
+export function loadOperatorName(): string {
+  return loadJson<string>(OPERATOR_KEY, '');
+}
+
+export function saveCredentials(credentials: Credentials | null) {
+  if (credentials) saveJson(OPERATOR_KEY, credentials.operator);
+  saveSessionJson(TOKEN_KEY, credentials?.token ?? null);
+}
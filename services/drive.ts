@@ -0,0 +1,83 @@
+import { Command, DriveConfig } from '../types';
+import { loadJson, removeJson, saveJson } from '../utils/storage';
+
+const STORAGE_KEY = 'driveConfigs';   // Robot ID → DriveConfig
+const LEGACY_KEY = 'driveConfig';     // One config shared by every robot, from older builds
+
+export const MAX_PWM = 255;
+export const MAX_TRIM = 50;
+
+export const DEFAULT_DRIVE_CONFIG: DriveConfig = { mode: 'linked', left: 140, right: 140, trim: 0 };
+
+/**
+ * A robot's drive settings. Each robot drifts differently, so the trim (and
+ * the speeds set with it) are kept per robot. A config saved by an older
+ * build goes to the first robot loaded, which is the selected one.
+ */
+export function loadDriveConfig(robotId: string): DriveConfig {
+  const configs = loadJson<Record<string, Partial<DriveConfig>>>(STORAGE_KEY, {});
+  const legacy = loadJson<Partial<DriveConfig> | null>(LEGACY_KEY, null);
+  if (legacy) {
+    removeJson(LEGACY_KEY);
+    if (!Object.keys(configs).length) saveDriveConfig(robotId, { ...DEFAULT_DRIVE_CONFIG, ...legacy });
+    return loadDriveConfig(robotId);
+  }
+  return { ...DEFAULT_DRIVE_CONFIG, ...configs[robotId] };
+}
+
+export function saveDriveConfig(robotId: string, config: DriveConfig) {
+  saveJson(STORAGE_KEY, { ...loadJson<Record<string, DriveConfig>>(STORAGE_KEY, {}), [robotId]: config });
+}
+
+export function clampPwm(val: number): number {
+  return Math.min(MAX_PWM, Math.max(0, Math.floor(val)));
+}
+
+/**
+ * Applies the drift trim by slowing the stronger side rather than boosting
+ * the weaker one, so a motor already at full PWM is still corrected.
+ * Positive trim slows the right motor, negative slows the left.
+ */
+export function applyTrim(left: number, right: number, trim: number): [number, number] {
+  const t = Math.max(-MAX_TRIM, Math.min(MAX_TRIM, trim));
+  return [clampPwm(t < 0 ? left + t : left), clampPwm(t > 0 ? right - t : right)];
+}
+
+/**
+ * Inverse of applyTrim: the untrimmed speeds that produce the given motor
+ * PWM. Used to adopt speeds the robot reports back.
+ */
+export function removeTrim(left: number, right: number, trim: number): [number, number] {
+  const t = Math.max(-MAX_TRIM, Math.min(MAX_TRIM, trim));
+  return [clampPwm(t < 0 ? left - t : left), clampPwm(t > 0 ? right + t : right)];
+}
+
+export interface JoystickDrive {
+  cmd: Command | null;    // Direction to hold, null when centred
+  left: number;           // Left PWM before trim
+  right: number;          // Right PWM before trim
+}
+
+/**
+ * Arcade-style mix of a stick position (x right, y forward, both -1..1)
+ * into a drive command plus per-motor PWM. The firmware only accepts
+ * unsigned PWM, so motor direction is expressed through F/B/L/R: both
+ * wheels forward is F, both back is B, opposite signs spin in place.
+ */
+export function mixJoystick(x: number, y: number, maxPwm: number, deadzone: number = 0.1): JoystickDrive {
+  if (Math.hypot(x, y) < deadzone) return { cmd: null, left: 0, right: 0 };
+
+  let l = y + x;
+  let r = y - x;
+  // Normalise so neither side exceeds full scale
+  const scale = Math.max(1, Math.abs(l), Math.abs(r));
+  l /= scale;
+  r /= scale;
+
+  let cmd: Command;
+  if (l >= 0 && r >= 0) cmd = Command.FORWARD;
+  else if (l <= 0 && r <= 0) cmd = Command.BACK;
+  else cmd = l < r ? Command.LEFT : Command.RIGHT;
+
+  return { cmd, left: clampPwm(Math.abs(l) * maxPwm), right: clampPwm(Math.abs(r) * maxPwm) };
+}
@@ -0,0 +1,176 @@
+import { DEFAULT_CONNECTION_SETTINGS, DEFAULT_TRANSPORT, RobotApi, RobotTransport } from './api';
+import { EMPTY_TELEMETRY } from './telemetry';
+import { AuditEntry, Credentials, ROBOT_HOST, ROBOT_PORT, RobotProfile, RobotSnapshot, RobotStatus, TelemetryData } from '../types';
+import { createId } from '../utils/id';
+import { loadJson, saveJson } from '../utils/storage';
+
+const STORAGE_KEY = 'robots';
+
+// The robot a fresh install starts with isn't saved until the fleet is
+// edited, so its ID is fixed to keep per-robot data across reloads
+export const DEFAULT_ROBOT_ID = 'default';
+
+function loadRobots(): RobotProfile[] {
+  const robots = loadJson<RobotProfile[]>(STORAGE_KEY, []);
+  return robots.length
+    ? robots
+    : [{ id: DEFAULT_ROBOT_ID, name: 'ArecaBot', host: ROBOT_HOST, port: ROBOT_PORT }];
+}
+
+/**
+ * Registry of robots with one RobotApi connection per robot.
+ *
+ * The fleet owns each connection's `onConnectChange`, `onTelemetry`,
+ * `onFirmware`, `onSession`, `onControl`, `onSnapshot` and `onAudit`
+ * callbacks to keep a status summary for the overview, and re-emits
+ * connection, telemetry and audit events tagged with the robot. The remaining RobotApi callbacks are
+ * free for whoever is driving that robot.
+ */
+export class RobotFleet {
+  private robots: RobotProfile[] = loadRobots();
+  private apis = new Map<string, RobotApi>();
+  private status = new Map<string, RobotStatus>();
+  private commandGuard: ((cmd: string) => string | null) | null = null;
+  private credentials: Credentials | null = null;
+  private transport: RobotTransport;
+  public onChange: ((robots: RobotProfile[], status: Record<string, RobotStatus>) => void) | null = null;
+  public onRobotTelemetry: ((id: string, data: Partial<TelemetryData>) => void) | null = null;
+  public onRobotConnectChange: ((id: string, connected: boolean) => void) | null = null;
+  public onRobotSnapshot: ((id: string, snapshot: RobotSnapshot | null) => void) | null = null;
+  public onAudit: ((entry: Omit<AuditEntry, 'id' | 'count'>) => void) | null = null;
+
+  constructor(transport: RobotTransport = DEFAULT_TRANSPORT) {
+    this.transport = transport;
+    // Every robot has a connection from the start, so getApi() works before connectAll()
+    this.robots.forEach(r => this.attach(r));
+  }
+
+  getRobots(): RobotProfile[] {
+    return this.robots;
+  }
+
+  getStatus(): Record<string, RobotStatus> {
+    return Object.fromEntries(this.status);
+  }
+
+  /** Connection for a robot, falling back to the first one for unknown IDs. */
+  getApi(id: string): RobotApi {
+    return this.apis.get(id) ?? this.apis.get(this.robots[0].id)!;
+  }
+
+  has(id: string): boolean {
+    return this.robots.some(r => r.id === id);
+  }
+
+  forEachApi(fn: (api: RobotApi, id: string) => void) {
+    this.apis.forEach(fn);
+  }
+
+  /** Applies the same command guard (e.g. E-stop latch) to every robot. */
+  setCommandGuard(guard: ((cmd: string) => string | null) | null) {
+    this.commandGuard = guard;
+    this.apis.forEach(api => { api.commandGuard = guard; });
+  }
+
+  /** Signs every robot connection in as the same operator (reconnects them). */
+  setCredentials(credentials: Credentials | null) {
+    this.credentials = credentials;
+    this.apis.forEach(api => api.setCredentials(credentials));
+  }
+
+  connectAll() {
+    this.apis.forEach(api => api.connect());
+    this.emit();
+  }
+
+  /** Closes every connection; connectAll() opens them again. */
+  disconnectAll() {
+    this.apis.forEach((api, id) => {
+      api.disconnect();
+      this.patchStatus(id, { connected: false });
+    });
+  }
+
+  add(name: string, host: string, port: number): RobotProfile {
+    const robot: RobotProfile = { id: createId(), name, host, port };
+    this.robots = [...this.robots, robot];
+    this.attach(robot).connect();
+    this.persist();
+    return robot;
+  }
+
+  update(id: string, patch: Partial<Omit<RobotProfile, 'id'>>) {
+    const prev = this.robots.find(r => r.id === id);
+    if (!prev) return;
+    const next = { ...prev, ...patch };
+    this.robots = this.robots.map(r => r.id === id ? next : r);
+    // Reconnect in place so callbacks bound to this robot's API survive
+    const moved = next.host !== prev.host || next.port !== prev.port
+      || JSON.stringify(next.connection) !== JSON.stringify(prev.connection);
+    if (moved) this.apis.get(id)?.reconfigure(next.host, next.port, next.connection ?? DEFAULT_CONNECTION_SETTINGS);
+    this.persist();
+  }
+
+  /** Removes a robot. The last robot cannot be removed. */
+  remove(id: string) {
+    if (this.robots.length <= 1) return;
+    this.detach(id);
+    this.robots = this.robots.filter(r => r.id !== id);
+    this.persist();
+  }
+
+  private attach(robot: RobotProfile): RobotApi {
+    const api = new RobotApi(robot.host, robot.port, robot.connection ?? DEFAULT_CONNECTION_SETTINGS, this.transport);
+    api.commandGuard = this.commandGuard;
+    api.setCredentials(this.credentials);
+    this.status.set(robot.id, {
+      connected: false, telemetry: EMPTY_TELEMETRY, lastSeen: null, firmware: null, session: null, control: null, reported: null
+    });
+
+    api.onConnectChange = (connected) => {
+      this.patchStatus(robot.id, { connected });
+      this.onRobotConnectChange?.(robot.id, connected);
+    };
+    api.onTelemetry = (partial) => {
+      const prev = this.status.get(robot.id);
+      this.patchStatus(robot.id, { telemetry: { ...(prev?.telemetry ?? EMPTY_TELEMETRY), ...partial }, lastSeen: Date.now() });
+      this.onRobotTelemetry?.(robot.id, partial);
+    };
+    api.onFirmware = (firmware) => this.patchStatus(robot.id, { firmware });
+    api.onSession = (session) => this.patchStatus(robot.id, { session });
+    api.onControl = (control) => this.patchStatus(robot.id, { control });
+    api.onSnapshot = (reported) => {
+      this.patchStatus(robot.id, { reported });
+      this.onRobotSnapshot?.(robot.id, reported);
+    };
+    api.onAudit = (entry) => {
+      const name = this.robots.find(r => r.id === robot.id)?.name ?? robot.name;
+      this.onAudit?.({ ...entry, robotId: robot.id, robotName: name });
+    };
+
+    this.apis.set(robot.id, api);
+    return api;
+  }
+
+  private detach(id: string) {
+    this.apis.get(id)?.disconnect();
+    this.apis.delete(id);
+    this.status.delete(id);
+  }
+
+  private patchStatus(id: string, patch: Partial<RobotStatus>) {
+    const prev = this.status.get(id);
+    if (!prev) return;
+    this.status.set(id, { ...prev, ...patch });
+    this.emit();
+  }
+
+  private persist() {
+    saveJson(STORAGE_KEY, this.robots);
+    this.emit();
+  }
+
+  private emit() {
+    this.onChange?.(this.robots, this.getStatus());
+  }
+}
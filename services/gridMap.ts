@@ -0,0 +1,92 @@
+import { GridCell, GridMapState, TelemetryData } from '../types';
+
+export const OBSTACLE_THRESHOLD_CM = 30;
+export const MAX_TRAIL_CELLS = 2000;
+
+const HEADING_NAMES: Record<string, number> = {
+  N: 0, NORTH: 0,
+  E: 90, EAST: 90,
+  S: 180, SOUTH: 180,
+  W: 270, WEST: 270,
+};
+
+/**
+ * Converts the firmware heading into compass degrees (0 = +Y / north,
+ * clockwise). Firmware reports either a compass letter, a quadrant index
+ * 0-3 or raw degrees depending on version. Returns null if unparseable.
+ */
+export function headingToDegrees(dir: number | string): number | null {
+  if (typeof dir === 'string') {
+    const name = dir.trim().toUpperCase();
+    if (name in HEADING_NAMES) return HEADING_NAMES[name];
+    const n = Number(name);
+    if (name === '' || isNaN(n)) return null;
+    return headingToDegrees(n);
+  }
+  if (!isFinite(dir)) return null;
+  // Quadrant index (0=N, 1=E, 2=S, 3=W)
+  if (Number.isInteger(dir) && dir >= 0 && dir <= 3) return dir * 90;
+  return ((dir % 360) + 360) % 360;
+}
+
+/** Grid offset of the cell directly ahead for a heading, snapped to 90°. */
+export function headingToStep(deg: number): GridCell {
+  const q = Math.round(deg / 90) % 4;
+  return ([[0, 1], [1, 0], [0, -1], [-1, 0]] as GridCell[])[q];
+}
+
+export const cellKey = (c: GridCell): string => `${c[0]},${c[1]}`;
+
+/**
+ * Tracks where the robot has been on the plantation grid.
+ *
+ * Each telemetry update extends the breadcrumb trail when the reported cell
+ * changes, and marks the cell ahead as an obstacle when the ultrasonic
+ * reading is below the threshold.
+ */
+export class GridTracker {
+  private state: GridMapState = { pos: null, heading: null, trail: [], obstacles: [] };
+  private obstacleKeys = new Set<string>();
+  private obstacleThresholdCm: number;
+  public onChange: ((state: GridMapState) => void) | null = null;
+
+  constructor(obstacleThresholdCm: number = OBSTACLE_THRESHOLD_CM) {
+    this.obstacleThresholdCm = obstacleThresholdCm;
+  }
+
+  update(t: TelemetryData) {
+    const pos = t.pos;
+    const heading = headingToDegrees(t.dir);
+    let { trail, obstacles } = this.state;
+
+    if (pos) {
+      const last = trail[trail.length - 1];
+      if (!last || last[0] !== pos[0] || last[1] !== pos[1]) {
+        trail = [...trail, [pos[0], pos[1]] as GridCell].slice(-MAX_TRAIL_CELLS);
+      }
+
+      if (heading !== null && t.us !== null && t.us > 0 && t.us < this.obstacleThresholdCm) {
+        const step = headingToStep(heading);
+        const ahead: GridCell = [pos[0] + step[0], pos[1] + step[1]];
+        const key = cellKey(ahead);
+        if (!this.obstacleKeys.has(key)) {
+          this.obstacleKeys.add(key);
+          obstacles = [...obstacles, ahead];
+        }
+      }
+    }
+
+    this.state = { pos, heading, trail, obstacles };
+    this.onChange?.(this.state);
+  }
+
+  getState(): GridMapState {
+    return this.state;
+  }
+
+  reset() {
+    this.obstacleKeys.clear();
+    this.state = { pos: this.state.pos, heading: this.state.heading, trail: [], obstacles: [] };
+    this.onChange?.(this.state);
+  }
+}
@@ -0,0 +1,310 @@
+import { Command, InputAction, InputBindings } from '../types';
+import { loadJson, saveJson } from '../utils/storage';
+
+const STORAGE_KEY = 'inputBindings';
+const SPEED_STEP = 16;            // Min PWM change before the trigger re-sends
+const SPEED_INTERVAL_MS = 200;    // Min time between trigger speed updates
+
+export const INPUT_ACTIONS: { action: InputAction, label: string }[] = [
+  { action: 'forward', label: 'Forward' },
+  { action: 'back', label: 'Back' },
+  { action: 'left', label: 'Left' },
+  { action: 'right', label: 'Right' },
+  { action: 'stop', label: 'Stop' },
+  { action: 'auto', label: 'Auto mode' },
+  { action: 'manual', label: 'Manual mode' },
+  { action: 'rollerToggle', label: 'Roller on/off' },
+  { action: 'speedUp', label: 'Speed up' },
+  { action: 'speedDown', label: 'Speed down' },
+];
+
+// Directional actions are held (hold-to-repeat), everything else fires once
+export const DIRECTION_COMMANDS: Partial<Record<InputAction, Command>> = {
+  forward: Command.FORWARD,
+  back: Command.BACK,
+  left: Command.LEFT,
+  right: Command.RIGHT,
+};
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  keys: {
+    forward: ['KeyW', 'ArrowUp'],
+    back: ['KeyS', 'ArrowDown'],
+    left: ['KeyA', 'ArrowLeft'],
+    right: ['KeyD', 'ArrowRight'],
+    stop: ['Space'],
+    auto: ['KeyP'],
+    manual: ['KeyM'],
+    rollerToggle: ['KeyR'],
+    speedUp: ['Equal'],
+    speedDown: ['Minus'],
+  },
+  // Standard gamepad mapping: 0=A 1=B 2=X 3=Y 4=LB 5=RB 7=RT 12-15=D-pad
+  buttons: {
+    forward: [12],
+    back: [13],
+    left: [14],
+    right: [15],
+    stop: [1],
+    auto: [3],
+    manual: [2],
+    rollerToggle: [0],
+    speedUp: [5],
+    speedDown: [4],
+  },
+  keyboardEnabled: true,
+  gamepadEnabled: true,
+  stickDeadzone: 0.4,
+  speedTrigger: 7,
+};
+
+export function loadBindings(): InputBindings {
+  const stored = loadJson<Partial<InputBindings>>(STORAGE_KEY, {});
+  return {
+    ...DEFAULT_BINDINGS,
+    ...stored,
+    keys: { ...DEFAULT_BINDINGS.keys, ...stored.keys },
+    buttons: { ...DEFAULT_BINDINGS.buttons, ...stored.buttons },
+  };
+}
+
+export function saveBindings(bindings: InputBindings) {
+  saveJson(STORAGE_KEY, bindings);
+}
+
+const KEY_SYMBOLS: Record<string, string> = {
+  ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→',
+  Equal: '=', Minus: '-', Space: 'Space',
+};
+
+/** Human readable name for a KeyboardEvent.code, e.g. "KeyW" -> "W". */
+export function keyLabel(code: string): string {
+  return KEY_SYMBOLS[code] ?? code.replace(/^(Key|Digit)/, '');
+}
+
+function isTextInput(target: EventTarget | null): boolean {
+  const el = target as HTMLElement | null;
+  if (!el) return false;
+  return el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName);
+}
+
+/**
+ * Turns keyboard and gamepad input into drive actions.
+ *
+ * Directional inputs are reported through `onDirection` as the command to
+ * hold (the most recently pressed one wins) or null when all are released,
+ * so callers can reuse the on-screen hold-to-move path. Other bindings fire
+ * `onAction` once per press; the analog speed trigger reports PWM through
+ * `onSpeed`.
+ */
+export class InputController {
+  private bindings: InputBindings;
+  private held: InputAction[] = [];          // Held directional actions, newest last
+  private keySources = new Set<string>();
+  private padSources = new Set<string>();
+  private prevButtons: boolean[] = [];
+  private lastSpeed: number | null = null;
+  private lastSpeedAt = 0;
+  private frame: number | null = null;
+  private direction: Command | null = null;
+  public onDirection: ((cmd: Command | null) => void) | null = null;
+  public onAction: ((action: InputAction) => void) | null = null;
+  public onSpeed: ((pwm: number) => void) | null = null;
+  public onGamepadChange: ((name: string | null) => void) | null = null;
+  // Set while the bindings editor captures a press; swallows normal handling
+  public onCapture: ((input: { key?: string, button?: number }) => void) | null = null;
+
+  constructor(bindings: InputBindings) {
+    this.bindings = bindings;
+  }
+
+  setBindings(bindings: InputBindings) {
+    this.bindings = bindings;
+    this.releaseAll();
+  }
+
+  start() {
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('blur', this.releaseAll);
+    window.addEventListener('gamepadconnected', this.handleGamepadChange);
+    window.addEventListener('gamepaddisconnected', this.handleGamepadChange);
+    this.handleGamepadChange();
+  }
+
+  stop() {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('blur', this.releaseAll);
+    window.removeEventListener('gamepadconnected', this.handleGamepadChange);
+    window.removeEventListener('gamepaddisconnected', this.handleGamepadChange);
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.frame = null;
+    this.releaseAll();
+  }
+
+  releaseAll = () => {
+    this.keySources.clear();
+    this.padSources.clear();
+    this.held = [];
+    this.emitDirection();
+  };
+
+  // ----------------------------------------------------------------------
+  // Keyboard
+  // ----------------------------------------------------------------------
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (isTextInput(e.target)) return;
+    if (this.onCapture) {
+      e.preventDefault();
+      this.onCapture({ key: e.code });
+      return;
+    }
+    if (!this.bindings.keyboardEnabled) return;
+
+    const action = this.actionForKey(e.code);
+    if (!action) return;
+    e.preventDefault();
+    if (e.repeat) return;
+
+    if (DIRECTION_COMMANDS[action]) this.press(action, this.keySources, e.code);
+    else this.onAction?.(action);
+  };
+
+  private handleKeyUp = (e: KeyboardEvent) => {
+    const action = this.actionForKey(e.code);
+    if (action && DIRECTION_COMMANDS[action]) this.release(action, this.keySources, e.code);
+  };
+
+  private actionForKey(code: string): InputAction | null {
+    const entry = (Object.keys(this.bindings.keys) as InputAction[])
+      .find(a => this.bindings.keys[a].includes(code));
+    return entry ?? null;
+  }
+
+  // ----------------------------------------------------------------------
+  // Gamepad
+  // ----------------------------------------------------------------------
+
+  private handleGamepadChange = () => {
+    const pad = this.firstGamepad();
+    this.onGamepadChange?.(pad ? pad.id : null);
+    if (pad && this.frame === null) {
+      this.frame = requestAnimationFrame(this.poll);
+    }
+    if (!pad) {
+      this.padSources.clear();
+      this.held = this.held.filter(a => this.isHeldByAnySource(a));
+      this.emitDirection();
+    }
+  };
+
+  private firstGamepad(): Gamepad | null {
+    const pads = navigator.getGamepads?.() ?? [];
+    return Array.from(pads).find((p): p is Gamepad => !!p && p.connected) ?? null;
+  }
+
+  private poll = () => {
+    const pad = this.firstGamepad();
+    if (!pad) {
+      this.frame = null;
+      return;
+    }
+
+    const pressed = pad.buttons.map(b => b.pressed);
+    if (this.onCapture) {
+      const idx = pressed.findIndex((p, i) => p && !this.prevButtons[i]);
+      if (idx >= 0) this.onCapture({ button: idx });
+    } else if (this.bindings.gamepadEnabled) {
+      this.pollButtons(pressed);
+      this.pollStick(pad);
+      this.pollSpeed(pad);
+    }
+
+    this.prevButtons = pressed;
+    this.frame = requestAnimationFrame(this.poll);
+  };
+
+  private pollButtons(pressed: boolean[]) {
+    (Object.keys(this.bindings.buttons) as InputAction[]).forEach(action => {
+      this.bindings.buttons[action].forEach(i => {
+        const down = !!pressed[i];
+        const wasDown = !!this.prevButtons[i];
+        if (down === wasDown) return;
+        const source = `btn${i}`;
+        if (DIRECTION_COMMANDS[action]) {
+          if (down) this.press(action, this.padSources, source);
+          else this.release(action, this.padSources, source);
+        } else if (down) {
+          this.onAction?.(action);
+        }
+      });
+    });
+  }
+
+  private pollStick(pad: Gamepad) {
+    const [x = 0, y = 0] = pad.axes;
+    const dz = this.bindings.stickDeadzone;
+    let action: InputAction | null = null;
+    // Dominant axis wins; gamepad Y is negative when pushed up
+    if (Math.max(Math.abs(x), Math.abs(y)) > dz) {
+      if (Math.abs(y) >= Math.abs(x)) action = y < 0 ? 'forward' : 'back';
+      else action = x < 0 ? 'left' : 'right';
+    }
+
+    (['forward', 'back', 'left', 'right'] as InputAction[]).forEach(a => {
+      const source = `stick:${a}`;
+      if (a === action && !this.padSources.has(source)) this.press(a, this.padSources, source);
+      if (a !== action && this.padSources.has(source)) this.release(a, this.padSources, source);
+    });
+  }
+
+  private pollSpeed(pad: Gamepad) {
+    const idx = this.bindings.speedTrigger;
+    if (idx === null || !pad.buttons[idx]) return;
+    const value = pad.buttons[idx].value;
+    // Resting trigger keeps the last speed rather than dropping to zero
+    if (value < 0.05) return;
+
+    const pwm = Math.round(value * 255);
+    const now = Date.now();
+    if (this.lastSpeed !== null && Math.abs(pwm - this.lastSpeed) < SPEED_STEP) return;
+    if (now - this.lastSpeedAt < SPEED_INTERVAL_MS) return;
+    this.lastSpeed = pwm;
+    this.lastSpeedAt = now;
+    this.onSpeed?.(pwm);
+  }
+
+  // ----------------------------------------------------------------------
+  // Held direction tracking
+  // ----------------------------------------------------------------------
+
+  private press(action: InputAction, sources: Set<string>, source: string) {
+    sources.add(source);
+    this.held = [...this.held.filter(a => a !== action), action];
+    this.emitDirection();
+  }
+
+  private release(action: InputAction, sources: Set<string>, source: string) {
+    sources.delete(source);
+    if (!this.isHeldByAnySource(action)) {
+      this.held = this.held.filter(a => a !== action);
+    }
+    this.emitDirection();
+  }
+
+  private isHeldByAnySource(action: InputAction): boolean {
+    const keyHeld = this.bindings.keys[action].some(k => this.keySources.has(k));
+    const btnHeld = this.bindings.buttons[action].some(b => this.padSources.has(`btn${b}`));
+    return keyHeld || btnHeld || this.padSources.has(`stick:${action}`);
+  }
+
+  private emitDirection() {
+    const top = this.held[this.held.length - 1];
+    const cmd = top ? DIRECTION_COMMANDS[top] ?? null : null;
+    if (cmd === this.direction) return;
+    this.direction = cmd;
+    this.onDirection?.(cmd);
+  }
+}
@@ -0,0 +1,357 @@
+import { Command, JobRecord, JobSummary, PlotSize, RobotState, TelemetryData } from '../types';
+import { cellKey } from './gridMap';
+import { createId } from '../utils/id';
+import { loadJson, saveJson } from '../utils/storage';
+
+const STORAGE_KEY = 'jobs';
+const PLOT_KEY = 'plotSize';
+export const MAX_JOBS = 200;
+export const JOB_IDLE_GAP_MS = 15 * 60 * 1000;  // Idle this long closes a job
+const MAX_SAMPLE_GAP_MS = 5000;     // Longer telemetry gaps (link loss) are not counted
+const HALT_MS = 5000;               // Moving but in one cell this long counts as a stop
+const SWEEP_MS = 60 * 1000;
+const SAVE_DELAY_MS = 2000;
+
+export const DEFAULT_PLOT_SIZE: PlotSize = { cols: 10, rows: 10 };
+
+const MOVING_STATES = [RobotState.MANUAL, RobotState.AUTO, RobotState.GOTO];
+const AUTO_STATES = [RobotState.AUTO, RobotState.GOTO];
+
+export function loadPlotSize(): PlotSize {
+  return loadJson<PlotSize>(PLOT_KEY, DEFAULT_PLOT_SIZE);
+}
+
+export function savePlotSize(plot: PlotSize) {
+  saveJson(PLOT_KEY, plot);
+}
+
+// What the tracker last saw of a robot; not persisted
+interface LiveState {
+  state: RobotState;
+  pos: [number, number] | null;
+  roller: boolean;
+  rollerAt: number;                 // When the roller last switched
+  at: number | null;
+  movedAt: number | null;           // When the robot last changed cell under way
+  halted: boolean;                  // Whether the stop since movedAt has been counted
+}
+
+const NEW_LIVE: LiveState = { state: RobotState.UNKNOWN, pos: null, roller: false, rollerAt: 0, at: null, movedAt: null, halted: false };
+
+/**
+ * Infers field jobs from telemetry. A job opens when a robot starts moving
+ * (or its roller is switched on) and closes once it has been idle or
+ * offline for JOB_IDLE_GAP_MS, ending at its last activity.
+ *
+ * Time between telemetry frames is credited to the state of the earlier
+ * frame, so gaps longer than MAX_SAMPLE_GAP_MS are capped rather than
+ * counted as work. Telemetry does not carry the roller, so roller time
+ * follows confirmed ROLLER ON/OFF and STOP commands (STOP also stops the
+ * roller), corrected by the roller state in each STATUS reply, and runs from
+ * the time of each switch. A stop is the robot coming to rest after changing
+ * cell: a confirmed STOP, leaving the moving states, or HALT_MS in one cell,
+ * so switching between AUTO and MANUAL is not one. Jobs are kept newest
+ * first in local storage.
+ */
+export class JobTracker {
+  private jobs: JobRecord[] = loadJson<JobRecord[]>(STORAGE_KEY, []);
+  private live = new Map<string, LiveState>();
+  private timer: number | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  public onChange: ((jobs: JobRecord[]) => void) | null = null;
+
+  getJobs(): JobRecord[] {
+    return this.jobs;
+  }
+
+  start() {
+    if (this.timer !== null) return;
+    this.sweep();
+    this.timer = window.setInterval(() => this.sweep(), SWEEP_MS);
+  }
+
+  stop() {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+    this.flush();
+  }
+
+  /** Feeds a robot's merged telemetry snapshot. */
+  update(robotId: string, robotName: string, t: TelemetryData, now: number = Date.now()) {
+    const live = this.live.get(robotId) ?? NEW_LIVE;
+    const dt = sampleGap(live.at, now);
+    const wasMoving = MOVING_STATES.includes(live.state);
+    const moving = MOVING_STATES.includes(t.state);
+    const travelled = (wasMoving || moving) && !!t.pos && !!live.pos && cellKey(t.pos) !== cellKey(live.pos);
+    const halt = !travelled && !live.halted && live.movedAt !== null && (!moving || now - live.movedAt >= HALT_MS);
+
+    let job = this.openJob(robotId, now);
+    if (!job && (moving || live.roller)) job = this.startJob(robotId, robotName, now);
+
+    if (job) {
+      const next: JobRecord = { ...job, robotName };
+      if (wasMoving) {
+        next.runtimeMs += dt;
+        if (AUTO_STATES.includes(live.state)) next.autoMs += dt;
+        else next.manualMs += dt;
+      }
+      if (live.roller) next.rollerMs += sampleGap(Math.max(live.at ?? live.rollerAt, live.rollerAt), now);
+      if (halt) next.stops++;
+      if (t.pos && live.pos) next.cells += Math.abs(t.pos[0] - live.pos[0]) + Math.abs(t.pos[1] - live.pos[1]);
+      if (t.pos && !next.visited.includes(cellKey(t.pos))) next.visited = [...next.visited, cellKey(t.pos)];
+      if (wasMoving || moving || live.roller) next.lastActiveAt = now;
+      this.replace(next);
+    }
+
+    this.live.set(robotId, {
+      ...live, state: t.state, pos: t.pos, at: now,
+      movedAt: travelled ? now : live.movedAt,
+      halted: travelled ? false : live.halted || halt
+    });
+  }
+
+  /** Feeds a command the robot confirmed, from this or another dashboard. */
+  noteCommand(robotId: string, robotName: string, cmd: string, now: number = Date.now()) {
+    if (cmd === Command.STOP) this.noteHalt(robotId, now);
+    if (cmd === Command.ROLLER_ON) this.noteRoller(robotId, robotName, true, now);
+    else if (cmd === Command.ROLLER_OFF || cmd === Command.STOP) this.noteRoller(robotId, robotName, false, now);
+  }
+
+  /** Feeds the roller state the robot reported, e.g. in a STATUS reply. */
+  noteRoller(robotId: string, robotName: string, on: boolean, now: number = Date.now()) {
+    const live = this.live.get(robotId) ?? NEW_LIVE;
+    if (on === live.roller) return;
+    this.live.set(robotId, { ...live, roller: on, rollerAt: now });
+    const job = this.openJob(robotId, now);
+    if (on && !job) this.startJob(robotId, robotName, now);
+    // Credit the roller time since the last frame, which the next frame no longer will
+    if (!on && job) {
+      const rollerMs = sampleGap(Math.max(live.at ?? live.rollerAt, live.rollerAt), now);
+      this.replace({ ...job, rollerMs: job.rollerMs + rollerMs, lastActiveAt: now });
+    }
+  }
+
+  /** Closes a robot's open job now, e.g. when the operator finishes a block. */
+  endJob(id: string, now: number = Date.now()) {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job || job.endedAt !== null) return;
+    this.replace({ ...job, endedAt: now });
+  }
+
+  remove(id: string) {
+    this.setJobs(this.jobs.filter(j => j.id !== id));
+  }
+
+  clear() {
+    this.setJobs(this.jobs.filter(j => j.endedAt === null));
+  }
+
+  /** Closes jobs whose robot has gone quiet. */
+  sweep(now: number = Date.now()) {
+    if (this.jobs.some(j => this.isStale(j, now))) {
+      this.setJobs(this.jobs.map(j => this.isStale(j, now) ? { ...j, endedAt: j.lastActiveAt } : j));
+    }
+  }
+
+  private noteHalt(robotId: string, now: number) {
+    const live = this.live.get(robotId);
+    if (!live || live.movedAt === null || live.halted) return;
+    this.live.set(robotId, { ...live, halted: true });
+    const job = this.openJob(robotId, now);
+    if (job) this.replace({ ...job, stops: job.stops + 1 });
+  }
+
+  private isStale(job: JobRecord, now: number): boolean {
+    return job.endedAt === null && now - job.lastActiveAt > JOB_IDLE_GAP_MS;
+  }
+
+  private openJob(robotId: string, now: number): JobRecord | null {
+    this.sweep(now);
+    return this.jobs.find(j => j.robotId === robotId && j.endedAt === null) ?? null;
+  }
+
+  private startJob(robotId: string, robotName: string, now: number): JobRecord {
+    const job: JobRecord = {
+      id: createId(), robotId, robotName, startedAt: now, endedAt: null, lastActiveAt: now,
+      runtimeMs: 0, autoMs: 0, manualMs: 0, rollerMs: 0, cells: 0, stops: 0, visited: []
+    };
+    this.setJobs([job, ...this.jobs]);
+    return job;
+  }
+
+  private replace(job: JobRecord) {
+    this.setJobs(this.jobs.map(j => j.id === job.id ? job : j));
+  }
+
+  private setJobs(jobs: JobRecord[]) {
+    this.jobs = jobs.slice(0, MAX_JOBS);
+    this.onChange?.(this.jobs);
+    // Telemetry arrives several times a second; batch the writes
+    if (this.saveTimer === null) this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY_MS);
+  }
+
+  private flush() {
+    if (this.saveTimer !== null) clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    saveJson(STORAGE_KEY, this.jobs);
+  }
+}
+
+// ----------------------------------------------------------------------
+// Reports
+// ----------------------------------------------------------------------
+
+/**
+ * Rolls jobs up into report lines, newest first: one per job, or one per
+ * local calendar day. A job that runs past midnight counts towards the
+ * day it started.
+ */
+export function summarizeJobs(jobs: JobRecord[], groupBy: 'job' | 'day'): JobSummary[] {
+  const groups = new Map<string, JobRecord[]>();
+  jobs.forEach(j => {
+    const key = groupBy === 'job' ? j.id : dayKey(j.startedAt);
+    groups.set(key, [...(groups.get(key) ?? []), j]);
+  });
+
+  return [...groups].map(([key, group]) => {
+    const sum = (f: (j: JobRecord) => number) => group.reduce((acc, j) => acc + f(j), 0);
+    const open = group.some(j => j.endedAt === null);
+    const first = Math.min(...group.map(j => j.startedAt));
+    return {
+      key,
+      label: groupBy === 'job'
+        ? `${group[0].robotName} · ${new Date(first).toLocaleString()}`
+        : new Date(first).toLocaleDateString(undefined, { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' }),
+      robots: [...new Set(group.map(j => j.robotName))],
+      jobs: group.length,
+      startedAt: first,
+      endedAt: open ? null : Math.max(...group.map(j => j.endedAt!)),
+      runtimeMs: sum(j => j.runtimeMs),
+      autoMs: sum(j => j.autoMs),
+      manualMs: sum(j => j.manualMs),
+      rollerMs: sum(j => j.rollerMs),
+      cells: sum(j => j.cells),
+      stops: sum(j => j.stops),
+      visited: [...new Set(group.flatMap(j => j.visited))]
+    };
+  }).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/** Fraction of each plot row (y = 0 first) the covered cells touch. */
+export function rowCoverage(visited: string[], plot: PlotSize): number[] {
+  const counts = new Array(plot.rows).fill(0);
+  visited.forEach(key => {
+    const [x, y] = key.split(',').map(Number);
+    if (x >= 0 && x < plot.cols && y >= 0 && y < plot.rows) counts[y]++;
+  });
+  return counts.map(n => n / plot.cols);
+}
+
+/** Fraction of the whole plot covered. */
+export function plotCoverage(visited: string[], plot: PlotSize): number {
+  const rows = rowCoverage(visited, plot);
+  return rows.length ? rows.reduce((a, b) => a + b, 0) / rows.length : 0;
+}
+
+const CSV_COLUMNS = [
+  'label', 'robots', 'jobs', 'started', 'ended', 'runtime_min', 'auto_min', 'manual_min',
+  'roller_min', 'cells', 'stops', 'coverage_pct'
+];
+
+export function exportJobsCsv(summaries: JobSummary[], plot: PlotSize): string {
+  const field = (v: unknown) => {
+    if (v === null || v === undefined) return '';
+    const s = String(v);
+    return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  const rows = summaries.map(s => [
+    s.label, s.robots.join(' '), s.jobs, new Date(s.startedAt).toISOString(),
+    s.endedAt === null ? '' : new Date(s.endedAt).toISOString(),
+    minutes(s.runtimeMs), minutes(s.autoMs), minutes(s.manualMs), minutes(s.rollerMs),
+    s.cells, s.stops, Math.round(plotCoverage(s.visited, plot) * 100)
+  ].map(field).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Standalone HTML report with inline styles, laid out for A4 so the
+ * browser's Print → Save as PDF gives a clean document.
+ */
+export function exportJobsHtml(summaries: JobSummary[], plot: PlotSize, title: string): string {
+  const sections = summaries.map(s => {
+    const rows = rowCoverage(s.visited, plot).map((f, y) => `
+        <tr><td>Row ${y}</td><td><div class="bar"><div style="width:${Math.round(f * 100)}%"></div></div></td><td class="num">${Math.round(f * 100)}%</td></tr>`)
+      .reverse().join('');
+    return `
+    <section>
+      <h2>${escapeHtml(s.label)}</h2>
+      <p class="meta">${escapeHtml(s.robots.join(', '))} · ${s.jobs} job${s.jobs === 1 ? '' : 's'} ·
+        ${new Date(s.startedAt).toLocaleString()} – ${s.endedAt === null ? 'in progress' : new Date(s.endedAt).toLocaleString()}</p>
+      <table class="stats">
+        <tr><th>Runtime</th><th>Auto</th><th>Manual</th><th>Roller on</th><th>Cells travelled</th><th>Stops</th><th>Coverage</th></tr>
+        <tr><td>${formatDuration(s.runtimeMs)}</td><td>${formatDuration(s.autoMs)}</td><td>${formatDuration(s.manualMs)}</td>
+          <td>${formatDuration(s.rollerMs)}</td><td>${s.cells}</td><td>${s.stops}</td><td>${Math.round(plotCoverage(s.visited, plot) * 100)}%</td></tr>
+      </table>
+      <table class="rows">${rows}
+      </table>
+    </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4; margin: 16mm; }
+  body { font-family: system-ui, sans-serif; color: #1e293b; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 0 0 2px; }
+  .meta { color: #64748b; margin: 0 0 8px; }
+  section { break-inside: avoid; border-top: 1px solid #e2e8f0; padding: 12px 0; }
+  table { border-collapse: collapse; width: 100%; }
+  .stats th { text-align: left; font-size: 10px; text-transform: uppercase; color: #64748b; padding: 2px 6px 2px 0; }
+  .stats td { font-weight: bold; padding: 2px 6px 8px 0; }
+  .rows td { padding: 1px 6px 1px 0; }
+  .rows td:first-child { width: 60px; color: #64748b; }
+  .rows td.num { width: 40px; text-align: right; }
+  .bar { background: #f1f5f9; height: 8px; border-radius: 4px; overflow: hidden; }
+  .bar div { background: #059669; height: 100%; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="meta">Generated ${new Date().toLocaleString()} · Plot ${plot.cols} × ${plot.rows} cells</p>${sections || '\n  <p>No jobs recorded.</p>'}
+</body>
+</html>
+`;
+}
+
+export function formatDuration(ms: number): string {
+  if (ms < 60000) return `${Math.round(ms / 1000)}s`;
+  const m = Math.round(ms / 60000);
+  if (m < 60) return `${m}m`;
+  return `${Math.floor(m / 60)}h${(m % 60).toString().padStart(2, '0')}m`;
+}
+
+// ----------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------
+
+// Time since a sample, capped so link loss does not count as work
+function sampleGap(since: number | null, now: number): number {
+  return since === null ? 0 : Math.min(Math.max(now - since, 0), MAX_SAMPLE_GAP_MS);
+}
+
+function dayKey(t: number): string {
+  const d = new Date(t);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function minutes(ms: number): string {
+  return (ms / 60000).toFixed(1);
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
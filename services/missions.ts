@@ -0,0 +1,191 @@
+import { Command, Mission, MissionProgress, MissionStep, RobotState, TelemetryData } from '../types';
+import { createId } from '../utils/id';
+import { loadJson, saveJson } from '../utils/storage';
+
+const STORAGE_KEY = 'missions';
+
+// ----------------------------------------------------------------------
+// Persistence & import/export
+// ----------------------------------------------------------------------
+
+export function newMission(): Mission {
+  return { id: createId(), name: 'New mission', steps: [], updatedAt: Date.now() };
+}
+
+export function loadMissions(): Mission[] {
+  return loadJson<Mission[]>(STORAGE_KEY, []);
+}
+
+export function saveMissions(missions: Mission[]) {
+  saveJson(STORAGE_KEY, missions);
+}
+
+export function exportMissions(missions: Mission[]): string {
+  return JSON.stringify({ version: 1, missions }, null, 2);
+}
+
+/**
+ * Parses an exported mission file. Accepts the `{ version, missions }`
+ * envelope, a bare array or a single mission. Imported missions get fresh
+ * IDs so they never overwrite local ones.
+ *
+ * @throws Error if the file is not valid mission JSON
+ */
+export function parseMissions(text: string): Mission[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error('File is not valid JSON');
+  }
+
+  const list: unknown[] = Array.isArray(raw) ? raw : isObject(raw) && Array.isArray(raw.missions) ? raw.missions : [raw];
+  return list.map((m, i) => {
+    if (!isObject(m) || typeof m.name !== 'string' || !Array.isArray(m.steps)) {
+      throw new Error(`Mission #${i + 1} is missing a name or steps`);
+    }
+    const name = m.name;
+    return {
+      id: createId(),
+      name,
+      steps: m.steps.map((s: unknown, j: number) => parseStep(s, `${name} step ${j + 1}`)),
+      updatedAt: Date.now()
+    };
+  });
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function parseStep(s: unknown, where: string): MissionStep {
+  if (!isObject(s)) throw new Error(`Invalid ${where}`);
+  const cell = s.cell;
+  if (s.kind === 'waypoint' && Array.isArray(cell) && cell.length === 2
+      && cell.every((n: unknown) => Number.isInteger(n))) {
+    return { id: createId(), kind: 'waypoint', cell: [cell[0], cell[1]] };
+  }
+  if (s.kind === 'roller' && typeof s.on === 'boolean') {
+    return { id: createId(), kind: 'roller', on: s.on };
+  }
+  throw new Error(`Invalid ${where}`);
+}
+
+export function stepToCommand(step: MissionStep): string {
+  return step.kind === 'waypoint'
+    ? `${Command.GOTO} ${step.cell[0]} ${step.cell[1]}`
+    : step.on ? Command.ROLLER_ON : Command.ROLLER_OFF;
+}
+
+// ----------------------------------------------------------------------
+// Runner
+// ----------------------------------------------------------------------
+
+/**
+ * Dispatches a mission to the robot one step at a time.
+ *
+ * Waypoints are sent as `GOTO x y` and only count as done once telemetry
+ * reports the robot in that cell; roller actions complete as soon as they
+ * are sent. Pausing and aborting send STOP, resuming re-sends the current
+ * step. A step the robot never acknowledges pauses the mission, and so does
+ * a reported ERROR, a robot that leaves GOTO before reaching the waypoint
+ * (manual or auto driving, or halting short) and a STOP sent from outside
+ * the mission, so the runner never sends the next step on its own.
+ */
+export class MissionRunner {
+  private mission: Mission | null = null;
+  private progress: MissionProgress = { missionId: null, status: 'idle', stepIndex: 0, reason: null };
+  private enRoute = false;  // Robot has reported GOTO for the current waypoint
+  private send: (cmd: string) => Promise<unknown>;
+  public onChange: ((progress: MissionProgress) => void) | null = null;
+
+  constructor(send: (cmd: string) => Promise<unknown>) {
+    this.send = send;
+  }
+
+  getProgress(): MissionProgress {
+    return this.progress;
+  }
+
+  start(mission: Mission) {
+    this.mission = mission;
+    this.setProgress({ missionId: mission.id, status: 'running', stepIndex: 0, reason: null });
+    this.execute();
+  }
+
+  pause(reason: string | null = null) {
+    if (this.progress.status !== 'running') return;
+    this.send(Command.STOP).catch(() => undefined);
+    this.setProgress({ ...this.progress, status: 'paused', reason });
+  }
+
+  /** Pauses after the robot was sent STOP from outside the mission. */
+  interrupt() {
+    if (this.progress.status !== 'running') return;
+    this.setProgress({ ...this.progress, status: 'paused', reason: 'Stopped by the operator' });
+  }
+
+  resume() {
+    if (this.progress.status !== 'paused') return;
+    this.setProgress({ ...this.progress, status: 'running', reason: null });
+    this.execute();
+  }
+
+  abort() {
+    if (this.progress.status !== 'running' && this.progress.status !== 'paused') return;
+    this.send(Command.STOP).catch(() => undefined);
+    this.setProgress({ ...this.progress, status: 'aborted' });
+  }
+
+  /** Feed every merged telemetry snapshot to advance waypoint steps. */
+  update(t: TelemetryData) {
+    const step = this.currentStep();
+    if (this.progress.status !== 'running') return;
+    if (t.state === RobotState.ERROR) {
+      this.pause('Robot reported ERROR');
+      return;
+    }
+    if (step?.kind !== 'waypoint') return;
+
+    const arrived = !!t.pos && t.pos[0] === step.cell[0] && t.pos[1] === step.cell[1];
+    const driven = t.state === RobotState.MANUAL || t.state === RobotState.AUTO;
+    if (t.state === RobotState.GOTO) {
+      this.enRoute = true;
+      if (arrived) this.advance();
+    } else if (this.enRoute) {
+      // Left GOTO: done only if it halted in the cell by itself
+      if (arrived && !driven) this.advance();
+      else this.pause(driven ? `Robot switched to ${t.state} before reaching the waypoint` : 'Robot stopped short of the waypoint');
+    } else if (arrived && !driven) {
+      // Already in the cell, or firmware that doesn't report GOTO
+      this.advance();
+    }
+  }
+
+  private currentStep(): MissionStep | null {
+    return this.mission?.steps[this.progress.stepIndex] ?? null;
+  }
+
+  private execute() {
+    const step = this.currentStep();
+    if (!step) {
+      this.setProgress({ ...this.progress, status: 'completed' });
+      return;
+    }
+    this.enRoute = false;
+    this.send(stepToCommand(step)).catch(() => {
+      if (this.progress.status === 'running') this.setProgress({ ...this.progress, status: 'paused', reason: 'Robot did not confirm the step' });
+    });
+    if (step.kind === 'roller') this.advance();
+  }
+
+  private advance() {
+    this.setProgress({ ...this.progress, stepIndex: this.progress.stepIndex + 1 });
+    this.execute();
+  }
+
+  private setProgress(progress: MissionProgress) {
+    this.progress = progress;
+    this.onChange?.(progress);
+  }
+}
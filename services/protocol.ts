@@ -0,0 +1,432 @@
+import { ControlHolder, ControlSession, Credentials, OperatorRole, RobotSnapshot, RobotState, TelemetryData } from '../types';
+import { TELEMETRY_ALIASES, normalizeTelemetry, parseHeading, parseRobotState } from './telemetry';
+
+/**
+ * Wire protocol between the dashboard and the robot firmware.
+ *
+ * Robot → dashboard: Socket.IO `message` frames `{ type, data }` where type is
+ * `telemetry`, `ack`, `log`, `hello`, and from v2 `control` (who holds the
+ * control lock), `audit` (who sent which command) and `status` (settings
+ * snapshot; older firmware answers STATUS with a `STATUS {json}` log line
+ * instead). Dashboard → robot:
+ * `cmd` events `{ cmd, id }`, a `hello` handshake, an `echo` latency probe
+ * answered through the Socket.IO ack, and the `POST /cmd` fallback `{ c, id }`.
+ * From v2 the Socket.IO handshake carries `auth` credentials, the HTTP
+ * fallback sends them as headers, and `control` events take or release the
+ * lock.
+ * Every inbound frame is validated here; anything that doesn't fit raises a
+ * ProtocolError instead of reaching the UI half-parsed.
+ */
+
+export const PROTOCOL_VERSION = 2;
+export const SUPPORTED_PROTOCOL_VERSIONS = [1, 2];
+export const CLIENT_NAME = 'arecabot-dashboard';
+
+export type ProtocolErrorCode =
+  | 'invalid-json'
+  | 'invalid-frame'
+  | 'unknown-type'
+  | 'invalid-field'
+  | 'invalid-command'
+  | 'unsupported-version';
+
+/**
+ * A frame or command that doesn't match the protocol. `frame` holds the raw
+ * payload for diagnostics.
+ */
+export class ProtocolError extends Error {
+  code: ProtocolErrorCode;
+  frame: unknown;
+
+  constructor(code: ProtocolErrorCode, message: string, frame: unknown = null) {
+    super(message);
+    this.name = 'ProtocolError';
+    this.code = code;
+    this.frame = frame;
+  }
+}
+
+// ----------------------------------------------------------------------
+// Frames
+// ----------------------------------------------------------------------
+
+export interface AckPayload {
+  id: string | null;        // Echoed command ID, if the firmware supports it
+  cmd: string | null;
+  ok: boolean;
+  error: string | null;
+}
+
+export interface HelloPayload {
+  protocol: number;
+  firmware: string | null;
+  session: ControlSession | null;   // v2+: role granted for our credentials
+  control: ControlHolder | null;
+}
+
+export interface AuditPayload {
+  time: number;
+  operator: string | null;
+  clientId: string | null;
+  cmd: string;
+  ok: boolean;
+  error: string | null;
+}
+
+export interface TelemetryPayload {
+  data: Partial<TelemetryData>;
+  warnings: string[];       // Non-fatal issues, e.g. unknown fields
+}
+
+export type RobotMessage =
+  | { type: 'telemetry', data: TelemetryPayload }
+  | { type: 'ack', data: AckPayload }
+  | { type: 'log', data: string }
+  | { type: 'hello', data: HelloPayload }
+  | { type: 'control', data: ControlHolder | null }
+  | { type: 'audit', data: AuditPayload }
+  | { type: 'status', data: RobotSnapshot };
+
+export interface CommandFrame {
+  cmd: string;
+  id: string;
+}
+
+export interface HttpCommandFrame {
+  c: string;
+  id: string;
+}
+
+export interface HelloFrame {
+  protocol: number;
+  client: string;
+}
+
+export interface AuthPayload {
+  token: string | null;
+  operator: string | null;
+  clientId: string;
+}
+
+export interface ControlFrame {
+  action: 'acquire' | 'release';
+}
+
+export interface ControlReply {
+  ok: boolean;
+  error?: string;
+}
+
+export interface EchoFrame {
+  t: number;                // Client send time, echoed back unchanged
+}
+
+/**
+ * Parses a `message` payload. Plain text that isn't JSON is treated as a
+ * log line, which is how older firmware prints diagnostics.
+ */
+export function parseMessage(payload: unknown): RobotMessage {
+  let obj: unknown = payload;
+  if (typeof payload === 'string') {
+    const text = payload.trim();
+    if (!text.startsWith('{')) return { type: 'log', data: payload };
+    try {
+      obj = JSON.parse(text);
+    } catch {
+      throw new ProtocolError('invalid-json', 'Message is not valid JSON', payload);
+    }
+  }
+  if (!isObject(obj) || typeof obj.type !== 'string') {
+    throw new ProtocolError('invalid-frame', 'Message has no type', payload);
+  }
+
+  switch (obj.type) {
+    case 'telemetry':
+      return { type: 'telemetry', data: validateTelemetry(obj.data) };
+    case 'ack':
+      return { type: 'ack', data: validateAck(obj.data) };
+    case 'log':
+      return { type: 'log', data: validateLog(obj.data) };
+    case 'hello':
+      return { type: 'hello', data: validateHello(obj.data) };
+    case 'control':
+      return { type: 'control', data: validateControl(obj.data) };
+    case 'audit':
+      return { type: 'audit', data: validateAudit(obj.data) };
+    case 'status':
+      return { type: 'status', data: validateStatus(obj.data) };
+    default:
+      throw new ProtocolError('unknown-type', `Unknown message type "${obj.type}"`, payload);
+  }
+}
+
+/**
+ * Type-checks a telemetry packet and normalizes its field aliases. Fields
+ * with the wrong type fail the whole frame; unknown fields and unrecognised
+ * state/heading values are returned as warnings so a firmware rename shows
+ * up in the log instead of silently blanking the UI.
+ */
+export function validateTelemetry(raw: unknown): TelemetryPayload {
+  if (!isObject(raw)) throw new ProtocolError('invalid-frame', 'Telemetry data must be an object', raw);
+
+  const known = new Set(Object.values(TELEMETRY_ALIASES).flat());
+  const warnings = Object.keys(raw).filter(k => !known.has(k)).map(k => `Unknown telemetry field "${k}"`);
+
+  const field = (name: keyof TelemetryData) => {
+    const key = TELEMETRY_ALIASES[name].find(k => raw[k] !== undefined);
+    return key === undefined ? undefined : { key, value: raw[key] };
+  };
+  const fail = (key: string, expected: string) => {
+    throw new ProtocolError('invalid-field', `Telemetry field "${key}" must be ${expected}`, raw);
+  };
+
+  for (const name of ['us', 'temp', 'pressure'] as const) {
+    const f = field(name);
+    if (f && f.value !== null && !isFiniteNumber(f.value)) fail(f.key, 'a number');
+  }
+  const pos = field('pos');
+  if (pos && pos.value !== null && !(Array.isArray(pos.value) && pos.value.length === 2 && pos.value.every(isFiniteNumber))) {
+    fail(pos.key, 'an [x, y] pair');
+  }
+  const state = field('state');
+  if (state) {
+    if (typeof state.value !== 'string' && typeof state.value !== 'number') fail(state.key, 'a name or ID');
+    if (parseRobotState(state.value) === null) warnings.push(`Unknown robot state "${state.value}"`);
+  }
+  const dir = field('dir');
+  if (dir) {
+    if (typeof dir.value !== 'string' && typeof dir.value !== 'number') fail(dir.key, 'a heading');
+    if (parseHeading(dir.value) === null) warnings.push(`Unknown heading "${dir.value}"`);
+  }
+
+  const data = normalizeTelemetry(raw);
+  if (!Object.keys(data).length) {
+    throw new ProtocolError('invalid-field', 'Telemetry frame has no known fields', raw);
+  }
+  return { data, warnings };
+}
+
+/** Acks may be a bare command string or an object with id/cmd/ok/status. */
+export function validateAck(raw: unknown): AckPayload {
+  if (typeof raw === 'string') return { id: null, cmd: raw, ok: true, error: null };
+  if (!isObject(raw)) throw new ProtocolError('invalid-frame', 'Ack data must be an object or string', raw);
+
+  const id = raw.id ?? null;
+  const cmd = raw.cmd ?? raw.c ?? null;
+  if (id !== null && typeof id !== 'string' && typeof id !== 'number') {
+    throw new ProtocolError('invalid-field', 'Ack id must be a string', raw);
+  }
+  if (cmd !== null && typeof cmd !== 'string') throw new ProtocolError('invalid-field', 'Ack cmd must be a string', raw);
+
+  const rejected = raw.ok === false || raw.status === 'error' || raw.status === 'rejected';
+  return {
+    id: id === null ? null : String(id),
+    cmd: typeof cmd === 'string' ? cmd : null,
+    ok: !rejected,
+    error: rejected ? String(raw.error ?? raw.msg ?? 'Rejected by robot') : null
+  };
+}
+
+export function validateLog(raw: unknown): string {
+  if (typeof raw === 'string') return raw;
+  if (typeof raw === 'number' || typeof raw === 'boolean') return String(raw);
+  throw new ProtocolError('invalid-field', 'Log data must be text', raw);
+}
+
+export function validateHello(raw: unknown): HelloPayload {
+  if (!isObject(raw) || typeof raw.protocol !== 'number' || !Number.isInteger(raw.protocol)) {
+    throw new ProtocolError('invalid-field', 'Hello needs an integer protocol version', raw);
+  }
+  return {
+    protocol: raw.protocol,
+    firmware: typeof raw.firmware === 'string' ? raw.firmware : null,
+    session: raw.session === undefined || raw.session === null ? null : validateSession(raw.session),
+    control: raw.control === undefined ? null : validateControl(raw.control)
+  };
+}
+
+const isOperatorRole = (v: unknown): v is OperatorRole => v === 'viewer' || v === 'operator';
+
+function validateSession(raw: unknown): ControlSession {
+  if (!isObject(raw) || !isOperatorRole(raw.role)) {
+    throw new ProtocolError('invalid-field', 'Session role must be viewer or operator', raw);
+  }
+  return { role: raw.role, operator: typeof raw.operator === 'string' ? raw.operator : null };
+}
+
+/** Control lock state; null means nobody holds control. */
+export function validateControl(raw: unknown): ControlHolder | null {
+  if (raw === null) return null;
+  if (!isObject(raw) || typeof raw.clientId !== 'string') {
+    throw new ProtocolError('invalid-field', 'Control holder needs a clientId', raw);
+  }
+  return { clientId: raw.clientId, operator: typeof raw.operator === 'string' ? raw.operator : null };
+}
+
+export function validateAudit(raw: unknown): AuditPayload {
+  if (!isObject(raw) || typeof raw.cmd !== 'string' || typeof raw.ok !== 'boolean') {
+    throw new ProtocolError('invalid-field', 'Audit entry needs cmd and ok', raw);
+  }
+  return {
+    time: isFiniteNumber(raw.time) ? raw.time : Date.now(),
+    operator: typeof raw.operator === 'string' ? raw.operator : null,
+    clientId: typeof raw.clientId === 'string' ? raw.clientId : null,
+    cmd: raw.cmd,
+    ok: raw.ok,
+    error: typeof raw.error === 'string' ? raw.error : null
+  };
+}
+
+const STATUS_LOG = /^STATUS\s+(\{.*\})$/;
+
+/**
+ * Reads the settings snapshot out of a `STATUS {json}` log line. Returns
+ * null for any other line.
+ */
+export function parseStatusLog(line: string): RobotSnapshot | null {
+  const match = STATUS_LOG.exec(line.trim());
+  if (!match) return null;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(match[1]);
+  } catch {
+    throw new ProtocolError('invalid-json', 'STATUS reply is not valid JSON', line);
+  }
+  return validateStatus(raw);
+}
+
+/** Settings snapshot; the roller may be a boolean, 0/1 or ON/OFF. */
+export function validateStatus(raw: unknown): RobotSnapshot {
+  if (!isObject(raw)) throw new ProtocolError('invalid-frame', 'Status data must be an object', raw);
+
+  const pwm = (key: string): number | null => {
+    const v = raw[key];
+    if (v === undefined || v === null) return null;
+    if (typeof v !== 'number' || !Number.isInteger(v) || v < 0 || v > 255) {
+      throw new ProtocolError('invalid-field', `Status field "${key}" must be a PWM value 0-255`, raw);
+    }
+    return v;
+  };
+
+  let mode: RobotState | null = null;
+  if (raw.mode !== undefined && raw.mode !== null) {
+    mode = parseRobotState(raw.mode);
+    if (mode === null) throw new ProtocolError('invalid-field', `Unknown robot mode "${raw.mode}"`, raw);
+  }
+
+  let roller: boolean | null = null;
+  if (raw.roller !== undefined && raw.roller !== null) {
+    const v = typeof raw.roller === 'string' ? raw.roller.trim().toUpperCase() : raw.roller;
+    if (v === true || v === 1 || v === 'ON') roller = true;
+    else if (v === false || v === 0 || v === 'OFF') roller = false;
+    else throw new ProtocolError('invalid-field', 'Status field "roller" must be on or off', raw);
+  }
+
+  return { mode, roller, lspd: pwm('lspd'), rspd: pwm('rspd'), rollerspd: pwm('rollerspd'), at: Date.now() };
+}
+
+// ----------------------------------------------------------------------
+// Commands
+// ----------------------------------------------------------------------
+
+export interface CommandSpec {
+  verb: string;
+  args: string;             // Human-readable argument syntax
+  pattern: RegExp;
+}
+
+export const COMMAND_SPECS: CommandSpec[] = [
+  { verb: 'F', args: '', pattern: /^F$/ },
+  { verb: 'B', args: '', pattern: /^B$/ },
+  { verb: 'L', args: '', pattern: /^L$/ },
+  { verb: 'R', args: '', pattern: /^R$/ },
+  { verb: 'STOP', args: '', pattern: /^STOP$/ },
+  { verb: 'AUTO', args: '', pattern: /^AUTO$/ },
+  { verb: 'MANUAL', args: '', pattern: /^MANUAL$/ },
+  { verb: 'STATUS', args: '', pattern: /^STATUS$/ },
+  { verb: 'ROLLER', args: 'ON|OFF', pattern: /^ROLLER (ON|OFF)$/ },
+  { verb: 'LSPD', args: '<0-255>', pattern: /^LSPD (\d{1,3})$/ },
+  { verb: 'RSPD', args: '<0-255>', pattern: /^RSPD (\d{1,3})$/ },
+  { verb: 'ROLLERSPD', args: '<0-255>', pattern: /^ROLLERSPD (\d{1,3})$/ },
+  { verb: 'GOTO', args: '<x> <y>', pattern: /^GOTO (-?\d+) (-?\d+)$/ },
+];
+
+/** Checks a command string against COMMAND_SPECS. Throws ProtocolError. */
+export function validateCommand(cmd: string) {
+  const spec = COMMAND_SPECS.find(s => s.pattern.test(cmd));
+  if (!spec) throw new ProtocolError('invalid-command', `Unknown or malformed command "${cmd}"`, cmd);
+  const pwm = spec.args === '<0-255>' ? Number(cmd.match(spec.pattern)![1]) : null;
+  if (pwm !== null && pwm > 255) throw new ProtocolError('invalid-command', `PWM out of range in "${cmd}"`, cmd);
+}
+
+/** True if a command matches COMMAND_SPECS, arguments included. */
+export function isKnownCommand(cmd: string): boolean {
+  try {
+    validateCommand(cmd);
+    return true;
+  } catch (e) {
+    if (!(e instanceof ProtocolError)) throw e;
+    return false;
+  }
+}
+
+// Raw commands must still be one line of printable words the firmware can split
+const RAW_COMMAND_PATTERN = /^[\x21-\x7e]+( [\x21-\x7e]+)*$/;
+const MAX_RAW_COMMAND_LENGTH = 64;
+
+/**
+ * Checks a command typed into the raw console. Verbs the dashboard doesn't
+ * know are let through so new firmware commands can be tried before they
+ * get a button; known verbs must still match their spec. Throws ProtocolError.
+ */
+export function validateRawCommand(cmd: string) {
+  if (cmd.length > MAX_RAW_COMMAND_LENGTH || !RAW_COMMAND_PATTERN.test(cmd)) {
+    throw new ProtocolError('invalid-command', `Malformed command "${cmd}"`, cmd);
+  }
+  const verb = cmd.split(' ')[0];
+  if (COMMAND_SPECS.some(s => s.verb === verb)) validateCommand(cmd);
+}
+
+export function encodeCommand(cmd: string, id: string, raw: boolean = false): CommandFrame {
+  if (raw) validateRawCommand(cmd);
+  else validateCommand(cmd);
+  return { cmd, id };
+}
+
+export function encodeHttpCommand(cmd: string, id: string, raw: boolean = false): HttpCommandFrame {
+  if (raw) validateRawCommand(cmd);
+  else validateCommand(cmd);
+  return { c: cmd, id };
+}
+
+export function encodeHello(): HelloFrame {
+  return { protocol: PROTOCOL_VERSION, client: CLIENT_NAME };
+}
+
+export function encodeAuth(credentials: Credentials | null, clientId: string): AuthPayload {
+  return { token: credentials?.token ?? null, operator: credentials?.operator ?? null, clientId };
+}
+
+/** Credentials for the HTTP fallback, mirroring the Socket.IO `auth` payload. */
+export function encodeHttpAuthHeaders(credentials: Credentials | null, clientId: string): Record<string, string> {
+  const headers: Record<string, string> = { 'X-Client-Id': clientId };
+  if (credentials?.token) headers['Authorization'] = `Bearer ${credentials.token}`;
+  if (credentials?.operator) headers['X-Operator'] = encodeURIComponent(credentials.operator);
+  return headers;
+}
+
+export function encodeEcho(): EchoFrame {
+  return { t: Date.now() };
+}
+
+// ----------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === 'number' && isFinite(v);
+}
@@ -0,0 +1,147 @@
+import { Command, SafetyState, SafetyTripReason } from '../types';
+import { loadJson, saveJson } from '../utils/storage';
+
+const STORAGE_KEY = 'estopLatched';
+
+export const HEARTBEAT_TIMEOUT_MS = 750;     // Hold-to-move repeats every 250 ms
+export const TELEMETRY_TIMEOUT_MS = 3000;
+const TICK_MS = 200;
+
+// Commands that make the robot move (or start a tool) and are refused while
+// the emergency stop is latched. STOP is always allowed.
+const MOTION_COMMANDS: string[] = [
+  Command.FORWARD, Command.BACK, Command.LEFT, Command.RIGHT,
+  Command.AUTO, Command.GOTO, Command.ROLLER_ON
+];
+
+export function isMotionCommand(cmd: string): boolean {
+  const verb = cmd.trim().toUpperCase();
+  return MOTION_COMMANDS.some(m => verb === m || verb.startsWith(`${m} `));
+}
+
+export const TRIP_LABELS: Record<SafetyTripReason, string> = {
+  'estop': 'Emergency stop pressed',
+  'link-lost': 'Connection lost',
+  'page-hidden': 'Dashboard hidden during manual drive',
+  'window-blur': 'Dashboard lost focus during manual drive',
+  'telemetry-stale': 'Telemetry stopped arriving',
+  'heartbeat-lapsed': 'Drive heartbeat lapsed',
+};
+
+/**
+ * Dead-man watchdog for manual driving.
+ *
+ * Sends STOP whenever a safety condition trips: the link drops, telemetry
+ * goes stale, or (while a hold-to-move is active) the drive heartbeat lapses
+ * or the page is hidden or loses focus. The emergency-stop latch survives
+ * reloads and must be cleared explicitly before motion is allowed again.
+ */
+export class SafetyWatchdog {
+  private state: SafetyState = {
+    estopLatched: loadJson<boolean>(STORAGE_KEY, false),
+    telemetryStale: false,
+    lastTrip: null
+  };
+  private send: (cmd: string) => Promise<unknown>;
+  private connected = false;
+  private motionActive = false;
+  private lastHeartbeat = 0;
+  private lastTelemetry = 0;
+  private timer: number | null = null;
+  public onChange: ((state: SafetyState) => void) | null = null;
+  public onTrip: ((reason: SafetyTripReason) => void) | null = null;
+
+  constructor(send: (cmd: string) => Promise<unknown>) {
+    this.send = send;
+  }
+
+  getState(): SafetyState {
+    return this.state;
+  }
+
+  start() {
+    if (this.timer !== null) return;
+    document.addEventListener('visibilitychange', this.handleVisibility);
+    window.addEventListener('blur', this.handleBlur);
+    this.timer = window.setInterval(() => this.tick(), TICK_MS);
+  }
+
+  stop() {
+    document.removeEventListener('visibilitychange', this.handleVisibility);
+    window.removeEventListener('blur', this.handleBlur);
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  setConnected(connected: boolean) {
+    const wasConnected = this.connected;
+    this.connected = connected;
+    // Give a fresh link a full timeout before judging telemetry stale
+    if (connected) this.lastTelemetry = Date.now();
+    if (wasConnected && !connected) this.trip('link-lost');
+  }
+
+  /** Adopts a new link state without tripping, e.g. after switching robots. */
+  resetLink(connected: boolean) {
+    this.connected = connected;
+    this.lastTelemetry = Date.now();
+    this.setState({ telemetryStale: false });
+  }
+
+  noteTelemetry() {
+    this.lastTelemetry = Date.now();
+    if (this.state.telemetryStale) this.setState({ telemetryStale: false });
+  }
+
+  /** Called on every hold-to-move repeat while the operator is driving. */
+  heartbeat() {
+    this.motionActive = true;
+    this.lastHeartbeat = Date.now();
+  }
+
+  endMotion() {
+    this.motionActive = false;
+  }
+
+  engageEstop() {
+    saveJson(STORAGE_KEY, true);
+    this.setState({ estopLatched: true });
+    this.trip('estop');
+  }
+
+  clearEstop() {
+    saveJson(STORAGE_KEY, false);
+    this.setState({ estopLatched: false });
+  }
+
+  private tick() {
+    const now = Date.now();
+    if (this.motionActive && now - this.lastHeartbeat > HEARTBEAT_TIMEOUT_MS) {
+      this.trip('heartbeat-lapsed');
+    }
+    if (this.connected && !this.state.telemetryStale && now - this.lastTelemetry > TELEMETRY_TIMEOUT_MS) {
+      this.setState({ telemetryStale: true });
+      this.trip('telemetry-stale');
+    }
+  }
+
+  private handleVisibility = () => {
+    if (document.visibilityState === 'hidden' && this.motionActive) this.trip('page-hidden');
+  };
+
+  private handleBlur = () => {
+    if (this.motionActive) this.trip('window-blur');
+  };
+
+  private trip(reason: SafetyTripReason) {
+    this.motionActive = false;
+    this.setState({ lastTrip: { reason, at: Date.now() } });
+    this.send(Command.STOP).catch(() => undefined);
+    this.onTrip?.(reason);
+  }
+
+  private setState(patch: Partial<SafetyState>) {
+    this.state = { ...this.state, ...patch };
+    this.onChange?.(this.state);
+  }
+}
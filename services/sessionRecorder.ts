@@ -0,0 +1,152 @@
+import { LogRecord, RobotProfile, SessionEvent, SessionInfo, TelemetryData } from '../types';
+import { createId } from '../utils/id';
+import { idbDelete, idbDeleteByIndex, idbGetAll, idbGetAllByIndex, idbPut, idbPutMany } from '../utils/idb';
+
+const FLUSH_INTERVAL_MS = 1000;
+const FLUSH_BATCH_SIZE = 200;
+
+export async function listSessions(): Promise<SessionInfo[]> {
+  const sessions = await idbGetAll<SessionInfo>('sessions');
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/** Events of a session in recording order. */
+export async function loadSessionEvents(sessionId: string): Promise<SessionEvent[]> {
+  const events = await idbGetAllByIndex<SessionEvent>('events', 'sessionId', sessionId);
+  return events.sort((a, b) => a.t - b.t);
+}
+
+export async function deleteSession(sessionId: string): Promise<void> {
+  await idbDeleteByIndex('events', 'sessionId', sessionId);
+  await idbDelete('sessions', sessionId);
+}
+
+// ----------------------------------------------------------------------
+// Export
+// ----------------------------------------------------------------------
+
+const CSV_COLUMNS = ['time', 'kind', 'type', 'level', 'source', 'transport', 'message', 'us', 'temp', 'pressure', 'state', 'x', 'y', 'dir'];
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const s = String(value);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** One JSON object per line, with the session header first. */
+export function exportSessionJsonl(session: SessionInfo, events: SessionEvent[]): string {
+  const lines = [JSON.stringify({ session }), ...events.map(({ sessionId, ...e }) => JSON.stringify(e))];
+  return lines.join('\n') + '\n';
+}
+
+/** Flat CSV with telemetry fields spread into columns and ISO timestamps. */
+export function exportSessionCsv(events: SessionEvent[]): string {
+  const rows = events.map(e => {
+    const time = new Date(e.t).toISOString();
+    if (e.kind === 'log') return [time, e.kind, e.type, e.level, e.source, e.transport, e.message];
+    const d = e.data;
+    return [time, e.kind, '', '', '', '', '', d.us, d.temp, d.pressure, d.state, d.pos?.[0], d.pos?.[1], d.dir];
+  });
+  return [CSV_COLUMNS, ...rows].map(r => r.map(csvField).join(',')).join('\n') + '\n';
+}
+
+// ----------------------------------------------------------------------
+// Recorder
+// ----------------------------------------------------------------------
+
+/**
+ * Records the selected robot's log events and telemetry frames to
+ * IndexedDB. Events are buffered and written in batches so a fast
+ * telemetry stream doesn't open a transaction per frame.
+ */
+export class SessionRecorder {
+  private session: SessionInfo | null = null;
+  private buffer: SessionEvent[] = [];
+  private timer: number | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  public onChange: ((session: SessionInfo | null) => void) | null = null;
+  public onError: ((message: string) => void) | null = null;
+
+  getSession(): SessionInfo | null {
+    return this.session;
+  }
+
+  isRecording(): boolean {
+    return this.session !== null;
+  }
+
+  start(robot: RobotProfile): SessionInfo {
+    if (this.session) return this.session;
+    const startedAt = Date.now();
+    this.session = {
+      id: createId(),
+      name: `${robot.name} ${new Date(startedAt).toLocaleString()}`,
+      robotId: robot.id,
+      robotName: robot.name,
+      startedAt,
+      endedAt: null,
+      eventCount: 0
+    };
+    const session = this.session;
+    this.enqueueWrite(() => idbPut('sessions', session));
+    this.timer = window.setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    document.addEventListener('visibilitychange', this.flushWhenHidden);
+    this.onChange?.(this.session);
+    return session;
+  }
+
+  /** Ends the recording once every buffered event has been written. */
+  async stop(): Promise<void> {
+    if (!this.session) return;
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+    document.removeEventListener('visibilitychange', this.flushWhenHidden);
+    this.flush();
+    const finished = { ...this.session, endedAt: Date.now() };
+    this.session = null;
+    await this.enqueueWrite(() => idbPut('sessions', finished));
+    this.onChange?.(null);
+  }
+
+  recordLog({ time, ...record }: LogRecord) {
+    if (!this.session) return;
+    this.push({ sessionId: this.session.id, t: time, kind: 'log', ...record });
+  }
+
+  recordTelemetry(data: Partial<TelemetryData>, t: number = Date.now()) {
+    if (!this.session) return;
+    this.push({ sessionId: this.session.id, t, kind: 'telemetry', data });
+  }
+
+  // Mobile browsers may kill a backgrounded tab without warning, so don't
+  // leave up to a second of events sitting in the buffer
+  private flushWhenHidden = () => {
+    if (document.visibilityState === 'hidden') this.flush();
+  };
+
+  private push(event: SessionEvent) {
+    this.buffer.push(event);
+    this.session = { ...this.session!, eventCount: this.session!.eventCount + 1 };
+    if (this.buffer.length >= FLUSH_BATCH_SIZE) this.flush();
+  }
+
+  private flush() {
+    if (!this.session || !this.buffer.length) return;
+    const batch = this.buffer;
+    const session = this.session;
+    this.buffer = [];
+    this.enqueueWrite(async () => {
+      await idbPutMany('events', batch);
+      await idbPut('sessions', session);
+    });
+    this.onChange?.(session);
+  }
+
+  // Writes are chained so the stored event count never runs ahead of the events
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    this.writing = this.writing
+      .then(write)
+      .catch(err => this.onError?.(`Session write failed: ${err?.message ?? err}`));
+    return this.writing;
+  }
+}
@@ -0,0 +1,115 @@
+import { LogRecord, ReplayState, SessionEvent, SessionInfo, TelemetryData } from '../types';
+import { loadSessionEvents } from './sessionRecorder';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8];
+const TICK_MS = 50;
+
+/**
+ * Plays a recorded session back on its original timeline.
+ *
+ * Events come out through `onTelemetry`/`onLog` with their recorded
+ * timestamps, so the dashboard can route them through the same handlers as
+ * live data. Seeking backwards fires `onReset` and then replays everything
+ * up to the new position, so derived views (history, grid trail) are rebuilt.
+ */
+export class SessionPlayer {
+  private events: SessionEvent[] = [];
+  private cursor = 0;
+  private state: ReplayState | null = null;
+  private timer: number | null = null;
+  private lastTick = 0;
+  public onTelemetry: ((data: Partial<TelemetryData>, t: number) => void) | null = null;
+  public onLog: ((record: LogRecord) => void) | null = null;
+  public onReset: (() => void) | null = null;
+  public onChange: ((state: ReplayState | null) => void) | null = null;
+
+  getState(): ReplayState | null {
+    return this.state;
+  }
+
+  async load(session: SessionInfo): Promise<void> {
+    this.close();
+    this.events = await loadSessionEvents(session.id);
+    const end = session.endedAt ?? this.events[this.events.length - 1]?.t ?? session.startedAt;
+    this.cursor = 0;
+    this.onReset?.();
+    this.setState({ session, playing: false, position: 0, duration: Math.max(0, end - session.startedAt), speed: 1 });
+  }
+
+  play() {
+    if (!this.state || this.state.playing) return;
+    // Restart from the top once the end has been reached
+    if (this.state.position >= this.state.duration) this.seek(0);
+    this.lastTick = Date.now();
+    this.timer = window.setInterval(() => this.tick(), TICK_MS);
+    this.setState({ playing: true });
+  }
+
+  pause() {
+    if (!this.state) return;
+    this.clearTimer();
+    this.setState({ playing: false });
+  }
+
+  seek(position: number) {
+    if (!this.state) return;
+    const target = Math.max(0, Math.min(this.state.duration, position));
+    if (target < this.state.position) {
+      this.cursor = 0;
+      this.onReset?.();
+    }
+    this.emitUntil(this.state.session.startedAt + target);
+    this.setState({ position: target });
+  }
+
+  setSpeed(speed: number) {
+    if (!this.state) return;
+    this.setState({ speed });
+  }
+
+  /** Leaves replay mode. */
+  close() {
+    this.clearTimer();
+    this.events = [];
+    this.cursor = 0;
+    if (this.state) {
+      this.state = null;
+      this.onChange?.(null);
+    }
+  }
+
+  private tick() {
+    if (!this.state) return;
+    const now = Date.now();
+    const position = Math.min(this.state.duration, this.state.position + (now - this.lastTick) * this.state.speed);
+    this.lastTick = now;
+    this.emitUntil(this.state.session.startedAt + position);
+    if (position >= this.state.duration) {
+      this.clearTimer();
+      this.setState({ position, playing: false });
+    } else {
+      this.setState({ position });
+    }
+  }
+
+  private emitUntil(t: number) {
+    while (this.cursor < this.events.length && this.events[this.cursor].t <= t) {
+      const e = this.events[this.cursor++];
+      if (e.kind === 'telemetry') this.onTelemetry?.(e.data, e.t);
+      else this.onLog?.({
+        // Recordings made before structured logs only carry type and message
+        time: e.t, type: e.type, level: e.level ?? 'info', source: e.source ?? 'link', transport: e.transport ?? null, message: e.message
+      });
+    }
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private setState(patch: Partial<ReplayState>) {
+    this.state = { ...this.state!, ...patch };
+    this.onChange?.(this.state);
+  }
+}
@@ -0,0 +1,39 @@
+import { CommandRecord, RobotSnapshot, SyncField } from '../types';
+
+// Commands that change what a STATUS reply reports
+const SETTINGS_VERBS = ['STOP', 'AUTO', 'MANUAL', 'GOTO', 'ROLLER', 'LSPD', 'RSPD', 'ROLLERSPD'];
+
+export function changesSettings(cmd: string): boolean {
+  return SETTINGS_VERBS.includes(cmd.trim().split(/\s+/)[0].toUpperCase());
+}
+
+// What the dashboard last asked the robot for
+export interface DesiredSettings {
+  roller: boolean;
+  lspd: number;             // Motor PWM as sent, trim applied
+  rspd: number;
+  rollerspd: number;
+}
+
+/**
+ * Fields where the robot reports something other than what the dashboard
+ * asked for. Fields the robot didn't report never disagree.
+ *
+ * A snapshot taken before the latest settings command that is still in
+ * flight or already confirmed is out of date (a refresh follows every
+ * confirmed change), so it reports no mismatches rather than flagging
+ * every change for a moment. Failed commands don't count: the robot kept
+ * its old value, which is exactly the disagreement to show.
+ */
+export function findMismatches(
+  desired: DesiredSettings,
+  reported: RobotSnapshot | null,
+  commands: CommandRecord[]
+): SyncField[] {
+  if (!reported) return [];
+  const stale = commands.some(c => c.status !== 'failed' && changesSettings(c.cmd) && c.sentAt > reported.at);
+  if (stale) return [];
+
+  const fields: SyncField[] = ['roller', 'lspd', 'rspd', 'rollerspd'];
+  return fields.filter(f => reported[f] !== null && reported[f] !== desired[f]);
+}
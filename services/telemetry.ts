@@ -0,0 +1,63 @@
+import { Heading, RobotState, TelemetryData } from '../types';
+import { headingToDegrees } from './gridMap';
+
+export const EMPTY_TELEMETRY: TelemetryData = {
+  us: null, temp: null, pressure: null, state: RobotState.UNKNOWN, pos: null, dir: Heading.UNKNOWN
+};
+
+// Wire names for each field; older firmware uses the short upper-case keys
+export const TELEMETRY_ALIASES: Record<keyof TelemetryData, string[]> = {
+  us: ['us', 'US'],
+  temp: ['temp', 'T'],
+  pressure: ['pressure', 'P'],
+  state: ['state', 'ST'],
+  pos: ['pos', 'POS'],
+  dir: ['dir', 'DIR']
+};
+
+// Numeric state IDs reported by legacy firmware
+const STATE_IDS: RobotState[] = [RobotState.IDLE, RobotState.MANUAL, RobotState.AUTO, RobotState.GOTO, RobotState.ERROR];
+
+const QUADRANT_HEADINGS: Heading[] = [Heading.N, Heading.E, Heading.S, Heading.W];
+
+/** Maps a state name or legacy ID to RobotState, or null if unrecognised. */
+export function parseRobotState(value: unknown): RobotState | null {
+  if (typeof value === 'number') return STATE_IDS[value] ?? null;
+  if (typeof value !== 'string') return null;
+  const name = value.trim().toUpperCase();
+  if (name !== '' && !isNaN(Number(name))) return parseRobotState(Number(name));
+  return (Object.values(RobotState) as string[]).includes(name) ? name as RobotState : null;
+}
+
+/** Snaps a compass letter, quadrant index or degrees to a Heading, or null. */
+export function parseHeading(value: unknown): Heading | null {
+  if (typeof value !== 'number' && typeof value !== 'string') return null;
+  const deg = headingToDegrees(value);
+  if (deg === null) return null;
+  return QUADRANT_HEADINGS[Math.round(deg / 90) % 4];
+}
+
+/**
+ * Resolves field aliases into TelemetryData. Only fields present in the
+ * packet are returned, so the result can be merged over the last snapshot.
+ * Values are not type-checked here; see validateTelemetry in protocol.ts.
+ */
+export const normalizeTelemetry = (d: Record<string, unknown>): Partial<TelemetryData> => {
+  const out: Partial<TelemetryData> = {};
+  const pick = (field: keyof TelemetryData) => {
+    const key = TELEMETRY_ALIASES[field].find(k => d[k] !== undefined);
+    return key === undefined ? undefined : d[key];
+  };
+
+  for (const field of ['us', 'temp', 'pressure'] as const) {
+    const value = pick(field);
+    if (value !== undefined) out[field] = value === null ? null : Number(value);
+  }
+  const state = pick('state');
+  if (state !== undefined) out.state = parseRobotState(state) ?? RobotState.UNKNOWN;
+  const pos = pick('pos');
+  if (pos !== undefined) out.pos = Array.isArray(pos) ? [Number(pos[0]), Number(pos[1])] : null;
+  const dir = pick('dir');
+  if (dir !== undefined) out.dir = parseHeading(dir) ?? Heading.UNKNOWN;
+  return out;
+};
@@ -0,0 +1,54 @@
+import { TelemetryData, TelemetryFrame } from '../types';
+
+export const DEFAULT_RETENTION_MS = 5 * 60 * 1000;
+export const MAX_HISTORY_FRAMES = 5000;
+
+/**
+ * Rolling buffer of timestamped telemetry frames.
+ *
+ * Frames older than the retention window are dropped on every push, and the
+ * buffer is hard-capped at MAX_HISTORY_FRAMES so a chatty firmware cannot
+ * grow it without bound.
+ */
+export class TelemetryHistory {
+  private frames: TelemetryFrame[] = [];
+  private retentionMs: number;
+  public onChange: ((frames: TelemetryFrame[]) => void) | null = null;
+
+  constructor(retentionMs: number = DEFAULT_RETENTION_MS) {
+    this.retentionMs = retentionMs;
+  }
+
+  push(data: TelemetryData, t: number = Date.now()) {
+    this.frames = [...this.frames, { t, data }];
+    this.prune(t);
+    this.onChange?.(this.frames);
+  }
+
+  getFrames(): TelemetryFrame[] {
+    return this.frames;
+  }
+
+  getRetention(): number {
+    return this.retentionMs;
+  }
+
+  setRetention(retentionMs: number) {
+    this.retentionMs = retentionMs;
+    this.prune(Date.now());
+    this.onChange?.(this.frames);
+  }
+
+  clear() {
+    this.frames = [];
+    this.onChange?.(this.frames);
+  }
+
+  private prune(now: number) {
+    const cutoff = now - this.retentionMs;
+    let start = 0;
+    while (start < this.frames.length && this.frames[start].t < cutoff) start++;
+    start = Math.max(start, this.frames.length - MAX_HISTORY_FRAMES);
+    if (start > 0) this.frames = this.frames.slice(start);
+  }
+}
@@ -0,0 +1,43 @@
+import type { GridCell } from '../types';
+
+/**
+ * Plantation layout the simulator drives around. Cells are addressed
+ * [x, y] from the bottom-left corner, with +Y as north.
+ */
+export interface FieldLayout {
+  cols: number;
+  rows: number;
+  cellCm: number;             // Edge length of one grid cell
+  obstacles: GridCell[];      // Trees, posts and other blocked cells
+  start: { pos: GridCell, dir: 'N' | 'E' | 'S' | 'W' };
+}
+
+// A small orchard: two rows of palms with a gap to turn through
+export const DEFAULT_FIELD: FieldLayout = {
+  cols: 10,
+  rows: 10,
+  cellCm: 50,
+  obstacles: [
+    [3, 2], [3, 3], [3, 4], [3, 5], [3, 6],
+    [6, 3], [6, 4], [6, 5], [6, 6], [6, 7]
+  ],
+  start: { pos: [0, 0], dir: 'N' }
+};
+
+/** Validates a parsed field file, filling anything missing from the default. */
+export function parseField(raw: any): FieldLayout {
+  const field: FieldLayout = { ...DEFAULT_FIELD, ...raw, start: { ...DEFAULT_FIELD.start, ...raw?.start } };
+  if (!(field.cols > 0) || !(field.rows > 0)) throw new Error('Field needs positive cols and rows');
+  if (!(field.cellCm > 0)) throw new Error('Field needs a positive cellCm');
+  if (!Array.isArray(field.obstacles) || !field.obstacles.every(isCell)) {
+    throw new Error('Field obstacles must be [x, y] pairs');
+  }
+  if (!isCell(field.start.pos) || !['N', 'E', 'S', 'W'].includes(field.start.dir)) {
+    throw new Error('Field start needs pos [x, y] and dir N/E/S/W');
+  }
+  return field;
+}
+
+function isCell(c: any): c is GridCell {
+  return Array.isArray(c) && c.length === 2 && c.every(n => Number.isInteger(n));
+}
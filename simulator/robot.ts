@@ -0,0 +1,287 @@
+import { GridCell, Heading, RobotState } from '../types';
+import { headingToStep } from '../services/gridMap';
+import { FieldLayout } from './field';
+
+// Grid speed at full PWM; lower PWM scales these down linearly
+const CELLS_PER_SEC = 2;
+const QUARTER_TURNS_PER_SEC = 2;
+// Manual drive stops unless the command is repeated within this window,
+// matching the firmware's dead-man timeout for hold-to-move
+const HOLD_TIMEOUT_MS = 500;
+const SENSOR_GAP_CM = 20;           // Reading with an obstacle in the next cell
+const SENSOR_RANGE_CM = 400;
+const MAX_PWM = 255;
+
+const HEADINGS = [Heading.N, Heading.E, Heading.S, Heading.W];
+
+type Move = 'F' | 'B' | 'L' | 'R';
+export type SimMode = 'MANUAL' | 'AUTO' | 'GOTO';
+
+export interface SimResult {
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * Grid-level model of the robot for the local simulator.
+ *
+ * Moves one cell at a time for F/B and turns in 90° steps for L/R, at a
+ * rate scaled by the drive PWM. AUTO sweeps the field in a serpentine,
+ * GOTO drives to a cell along X then Y. Time only advances through
+ * `tick`, so the model is deterministic and has no timers of its own.
+ */
+export class SimRobot {
+  private field: FieldLayout;
+  private blocked: Set<string>;
+  private pos: GridCell;
+  private heading: number;          // Quadrant, 0 = N
+  private mode: SimMode = 'MANUAL';
+  private roller = false;
+  private lspd = 140;
+  private rspd = 140;
+  private rollerSpeed = 140;
+  private clock = 0;
+  private drive: { move: Move, until: number } | null = null;
+  private target: GridCell | null = null;
+  private autoQueue: Move[] = [];
+  private autoTurn: Move = 'R';
+  private progress = 0;
+  private lastBlockedLog: string | null = null;
+  public onLog: ((msg: string) => void) | null = null;
+
+  constructor(field: FieldLayout) {
+    this.field = field;
+    this.blocked = new Set(field.obstacles.map(c => `${c[0]},${c[1]}`));
+    this.pos = [...field.start.pos] as GridCell;
+    this.heading = HEADINGS.indexOf(field.start.dir as Heading);
+  }
+
+  /** Applies a firmware command string, e.g. `LSPD 200` or `GOTO 3 4`. */
+  handle(raw: string): SimResult {
+    const [verb, ...args] = raw.trim().toUpperCase().split(/\s+/);
+    switch (verb) {
+      case 'F': case 'B': case 'L': case 'R': {
+        const move = verb as Move;
+        if (this.drive?.move !== move) this.progress = 0;
+        this.mode = 'MANUAL';
+        this.target = null;
+        this.drive = { move, until: this.clock + HOLD_TIMEOUT_MS };
+        return { ok: true };
+      }
+      case 'STOP':
+        this.halt();
+        this.roller = false;
+        return { ok: true };
+      case 'AUTO':
+        this.halt();
+        this.mode = 'AUTO';
+        return { ok: true };
+      case 'MANUAL':
+        this.halt();
+        return { ok: true };
+      case 'STATUS':
+        this.onLog?.(`STATUS ${JSON.stringify(this.status())}`);
+        return { ok: true };
+      case 'ROLLER':
+        if (args[0] !== 'ON' && args[0] !== 'OFF') return { ok: false, error: 'Expected ROLLER ON|OFF' };
+        this.roller = args[0] === 'ON';
+        return { ok: true };
+      case 'LSPD': case 'RSPD': case 'ROLLERSPD': {
+        const pwm = Number(args[0]);
+        if (!Number.isInteger(pwm) || pwm < 0 || pwm > MAX_PWM) return { ok: false, error: `PWM must be 0-${MAX_PWM}` };
+        if (verb === 'LSPD') this.lspd = pwm;
+        else if (verb === 'RSPD') this.rspd = pwm;
+        else this.rollerSpeed = pwm;
+        return { ok: true };
+      }
+      case 'GOTO': {
+        const cell: GridCell = [Number(args[0]), Number(args[1])];
+        if (!cell.every(Number.isInteger) || !this.inField(cell)) return { ok: false, error: 'Target outside field' };
+        if (this.isBlocked(cell)) return { ok: false, error: 'Target cell is blocked' };
+        this.halt();
+        this.mode = 'GOTO';
+        this.target = cell;
+        return { ok: true };
+      }
+      default:
+        return { ok: false, error: `Unknown command ${verb ?? ''}`.trim() };
+    }
+  }
+
+  /** Advances the simulation by `dtMs` of robot time. */
+  tick(dtMs: number) {
+    this.clock += dtMs;
+    if (this.drive && this.clock > this.drive.until) {
+      this.drive = null;
+      this.progress = 0;
+    }
+
+    const move = this.nextMove();
+    if (!move) return;
+    if (this.perform(move, dtMs) && this.mode === 'AUTO') this.autoQueue.shift();
+  }
+
+  telemetry() {
+    const t = this.clock / 1000;
+    return {
+      us: this.rangeAhead(),
+      temp: Math.round((27 + Math.sin(t / 30) + (this.roller ? this.rollerSpeed / MAX_PWM : 0)) * 10) / 10,
+      pressure: Math.round((1012 + Math.sin(t / 90) * 2) * 10) / 10,
+      state: this.state(),
+      pos: [...this.pos] as GridCell,
+      dir: HEADINGS[this.heading]
+    };
+  }
+
+  status() {
+    return {
+      mode: this.mode,
+      roller: this.roller,
+      lspd: this.lspd,
+      rspd: this.rspd,
+      rollerspd: this.rollerSpeed
+    };
+  }
+
+  // ----------------------------------------------------------------------
+  // Motion
+  // ----------------------------------------------------------------------
+
+  private state(): RobotState {
+    if (this.mode === 'AUTO') return RobotState.AUTO;
+    if (this.mode === 'GOTO') return RobotState.GOTO;
+    return this.drive ? RobotState.MANUAL : RobotState.IDLE;
+  }
+
+  private halt() {
+    this.mode = 'MANUAL';
+    this.drive = null;
+    this.target = null;
+    this.autoQueue = [];
+    this.progress = 0;
+  }
+
+  private nextMove(): Move | null {
+    if (this.mode === 'MANUAL') return this.drive?.move ?? null;
+    if (this.mode === 'GOTO') return this.gotoMove();
+    return this.autoMove();
+  }
+
+  // Turns towards the target, closing the X gap before the Y gap, and
+  // switches axis when the preferred one is blocked
+  private gotoMove(): Move | null {
+    const target = this.target!;
+    const dx = target[0] - this.pos[0];
+    const dy = target[1] - this.pos[1];
+    if (dx === 0 && dy === 0) {
+      this.onLog?.(`GOTO reached ${target[0]} ${target[1]}`);
+      this.halt();
+      return null;
+    }
+
+    const xHeading = dx > 0 ? 1 : 3;
+    const yHeading = dy > 0 ? 0 : 2;
+    let want = dx !== 0 ? xHeading : yHeading;
+    if (this.isBlocked(this.cellAhead(want))) {
+      const alt = dx !== 0 && dy !== 0 ? yHeading : null;
+      if (alt === null || this.isBlocked(this.cellAhead(alt))) {
+        this.onLog?.(`GOTO blocked at ${this.pos[0]} ${this.pos[1]}`);
+        this.halt();
+        return null;
+      }
+      want = alt;
+    }
+    return this.turnTowards(want);
+  }
+
+  // Serpentine sweep: drive until blocked, then U-turn into the next lane,
+  // alternating the turn direction each time
+  private autoMove(): Move | null {
+    if (!this.autoQueue.length) {
+      if (!this.isBlocked(this.cellAhead(this.heading))) {
+        this.autoQueue = ['F'];
+      } else {
+        const turn = this.autoTurn;
+        this.autoTurn = turn === 'R' ? 'L' : 'R';
+        this.autoQueue = [turn, 'F', turn];
+      }
+    }
+
+    const move = this.autoQueue[0];
+    // The lane change itself is blocked: nowhere left to sweep
+    if (move === 'F' && this.isBlocked(this.cellAhead(this.heading))) {
+      if (this.autoQueue.length > 1) {
+        this.onLog?.('AUTO sweep complete');
+        this.halt();
+        return null;
+      }
+      this.autoQueue = [];
+      return this.autoMove();
+    }
+    return move;
+  }
+
+  private turnTowards(want: number): Move {
+    if (want === this.heading) return 'F';
+    return (want - this.heading + 4) % 4 === 3 ? 'L' : 'R';
+  }
+
+  /** Accumulates progress on a move; returns true when the move completes. */
+  private perform(move: Move, dtMs: number): boolean {
+    const pwm = (this.lspd + this.rspd) / 2 / MAX_PWM;
+
+    if (move === 'L' || move === 'R') {
+      this.progress += (dtMs / 1000) * QUARTER_TURNS_PER_SEC * pwm;
+      if (this.progress < 1) return false;
+      this.heading = (this.heading + (move === 'R' ? 1 : 3)) % 4;
+      this.progress = 0;
+      return true;
+    }
+
+    const dirIndex = move === 'F' ? this.heading : (this.heading + 2) % 4;
+    const next = this.cellAhead(dirIndex);
+    if (this.isBlocked(next)) {
+      const key = `${next[0]},${next[1]}`;
+      if (this.lastBlockedLog !== key) this.onLog?.(`Obstacle at ${next[0]} ${next[1]}`);
+      this.lastBlockedLog = key;
+      this.progress = 0;
+      return false;
+    }
+
+    this.progress += (dtMs / 1000) * CELLS_PER_SEC * pwm;
+    if (this.progress < 1) return false;
+    this.pos = next;
+    this.progress = 0;
+    this.lastBlockedLog = null;
+    return true;
+  }
+
+  // ----------------------------------------------------------------------
+  // Field queries
+  // ----------------------------------------------------------------------
+
+  private cellAhead(quadrant: number): GridCell {
+    const [sx, sy] = headingToStep(quadrant * 90);
+    return [this.pos[0] + sx, this.pos[1] + sy];
+  }
+
+  private inField(c: GridCell): boolean {
+    return c[0] >= 0 && c[1] >= 0 && c[0] < this.field.cols && c[1] < this.field.rows;
+  }
+
+  private isBlocked(c: GridCell): boolean {
+    return !this.inField(c) || this.blocked.has(`${c[0]},${c[1]}`);
+  }
+
+  // Ultrasonic reading: free cells ahead, with the field edge as a wall
+  private rangeAhead(): number {
+    let free = 0;
+    let c = this.cellAhead(this.heading);
+    while (!this.isBlocked(c) && free * this.field.cellCm < SENSOR_RANGE_CM) {
+      free++;
+      const [sx, sy] = headingToStep(this.heading * 90);
+      c = [c[0] + sx, c[1] + sy];
+    }
+    return Math.min(SENSOR_RANGE_CM, free * this.field.cellCm + SENSOR_GAP_CM);
+  }
+}
@@ -0,0 +1,222 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { readFileSync } from 'fs';
+import { Server } from 'socket.io';
+import { PROTOCOL_VERSION } from '../services/protocol';
+import { commandPermission } from '../services/control';
+import { ControlHolder, OperatorRole } from '../types';
+import { DEFAULT_FIELD, FieldLayout, parseField } from './field';
+import { SimRobot } from './robot';
+
+/**
+ * Local stand-in for the robot firmware.
+ *
+ * Speaks the same protocol as the bot: Socket.IO `cmd`, `hello`, `echo` and
+ * `control` events in, `message` frames (`telemetry`, `ack`, `log`, `hello`,
+ * `control`, `audit`) out, plus the `POST /cmd` HTTP fallback. Run with
+ * `npm run sim -- [--port 8765] [--field file.json] [--drop-acks 0.2]
+ * [--ack-delay 100] [--operator-token secret] [--viewer-token secret]`.
+ *
+ * Without `--operator-token` auth is off and every client is an operator.
+ * With it, clients need the operator token to drive; the viewer token (or no
+ * token, if no viewer token is set) connects read-only.
+ */
+
+const TICK_MS = 50;
+const TELEMETRY_INTERVAL_MS = 200;
+const FIRMWARE_VERSION = 'sim-1.0';
+
+interface SimOptions {
+  port: number;
+  field: FieldLayout;
+  dropAcks: number;       // Fraction of WS acks to drop, to exercise retries
+  ackDelayMs: number;
+  operatorToken: string | null;
+  viewerToken: string | null;
+}
+
+interface SimClient {
+  role: OperatorRole;
+  operator: string | null;
+  clientId: string;
+}
+
+function parseArgs(argv: string[]): SimOptions {
+  const get = (name: string) => {
+    const i = argv.indexOf(`--${name}`);
+    return i >= 0 ? argv[i + 1] : undefined;
+  };
+  const fieldPath = get('field');
+  return {
+    port: Number(get('port') ?? 8765),
+    field: fieldPath ? parseField(JSON.parse(readFileSync(fieldPath, 'utf8'))) : DEFAULT_FIELD,
+    dropAcks: Number(get('drop-acks') ?? 0),
+    ackDelayMs: Number(get('ack-delay') ?? 0),
+    operatorToken: get('operator-token') ?? null,
+    viewerToken: get('viewer-token') ?? null
+  };
+}
+
+const options = parseArgs(process.argv.slice(2));
+const robot = new SimRobot(options.field);
+
+let holder: ControlHolder | null = null;
+
+/** Maps handshake credentials to a client, or null to refuse the connection. */
+function authenticate(token: unknown, operator: unknown, clientId: unknown): SimClient | null {
+  const given = typeof token === 'string' && token ? token : null;
+  let role: OperatorRole | null = null;
+  if (!options.operatorToken || given === options.operatorToken) role = 'operator';
+  else if (options.viewerToken ? given === options.viewerToken : given === null) role = 'viewer';
+  if (!role) return null;
+  return {
+    role,
+    operator: typeof operator === 'string' && operator ? operator : null,
+    clientId: typeof clientId === 'string' && clientId ? clientId : 'anonymous'
+  };
+}
+
+function setHolder(next: ControlHolder | null) {
+  holder = next;
+  console.log(next ? `Control taken by ${next.operator ?? next.clientId}` : 'Control released');
+  io.emit('message', { type: 'control', data: holder });
+}
+
+function runCommand(cmd: string, id: string | undefined, client: SimClient) {
+  const denied = commandPermission(cmd.trim().toUpperCase().replace(/\s+/g, ' '), client.role, holder, client.clientId);
+  const result = denied ? { ok: false, error: denied } : robot.handle(cmd);
+  console.log(`${client.operator ?? 'anonymous'} (${client.role}): ${cmd}${id ? ` [${id}]` : ''} -> ${result.ok ? 'ok' : result.error}`);
+  io.emit('message', {
+    type: 'audit',
+    data: { time: Date.now(), operator: client.operator, clientId: client.clientId, cmd, ok: result.ok, error: result.error ?? null }
+  });
+  return { id, cmd, ok: result.ok, ...(result.error ? { error: result.error } : {}) };
+}
+
+// ----------------------------------------------------------------------
+// HTTP fallback
+// ----------------------------------------------------------------------
+
+function sendCors(res: ServerResponse, status: number, body: string = '') {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Operator, X-Client-Id',
+    'Content-Type': 'text/plain'
+  });
+  res.end(body);
+}
+
+function handleHttp(req: IncomingMessage, res: ServerResponse) {
+  if (req.url !== '/cmd') return sendCors(res, 404, 'Not found');
+  if (req.method === 'OPTIONS') return sendCors(res, 204);
+  if (req.method !== 'POST') return sendCors(res, 405, 'POST only');
+  const header = (name: string) => {
+    const v = req.headers[name];
+    return Array.isArray(v) ? v[0] : v;
+  };
+  const client = authenticate(
+    header('authorization')?.replace(/^Bearer\s+/i, ''),
+    decodeURIComponent(header('x-operator') ?? ''),
+    header('x-client-id')
+  );
+  if (!client) return sendCors(res, 401, 'Unauthorized');
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    let payload: any;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return sendCors(res, 400, 'Invalid JSON');
+    }
+    if (typeof payload?.c !== 'string') return sendCors(res, 400, 'Missing c');
+    const ack = runCommand(payload.c, payload.id, client);
+    sendCors(res, ack.ok ? 200 : 400, ack.ok ? 'OK' : ack.error);
+  });
+}
+
+// ----------------------------------------------------------------------
+// Socket.IO
+// ----------------------------------------------------------------------
+
+const httpServer = createServer(handleHttp);
+const io = new Server(httpServer, { cors: { origin: '*' } });
+
+io.use((socket, next) => {
+  const { token, operator, clientId } = socket.handshake.auth ?? {};
+  const client = authenticate(token, operator, clientId);
+  if (!client) return next(new Error('unauthorized'));
+  socket.data.client = client;
+  next();
+});
+
+io.on('connection', (socket) => {
+  const client: SimClient = socket.data.client;
+  console.log(`Client connected: ${socket.id} (${client.operator ?? 'anonymous'}, ${client.role})`);
+  socket.emit('message', { type: 'log', data: 'ArecaBot simulator ready' });
+
+  socket.on('hello', () => {
+    socket.emit('message', {
+      type: 'hello',
+      data: {
+        protocol: PROTOCOL_VERSION,
+        firmware: FIRMWARE_VERSION,
+        session: { role: client.role, operator: client.operator },
+        control: holder
+      }
+    });
+  });
+
+  socket.on('control', (frame: any, reply?: (data: unknown) => void) => {
+    const respond = (ok: boolean, error?: string) => typeof reply === 'function' && reply(ok ? { ok } : { ok, error });
+    if (frame?.action === 'acquire') {
+      if (client.role !== 'operator') return respond(false, 'Viewers cannot take control');
+      if (holder && holder.clientId !== client.clientId) return respond(false, `Control held by ${holder.operator ?? 'another dashboard'}`);
+      if (!holder) setHolder({ clientId: client.clientId, operator: client.operator });
+      return respond(true);
+    }
+    if (frame?.action === 'release') {
+      if (holder?.clientId === client.clientId) setHolder(null);
+      return respond(true);
+    }
+    respond(false, 'Unknown control action');
+  });
+
+  // Latency probe: answer through the Socket.IO ack after the usual delay
+  socket.on('echo', (payload: unknown, reply?: (data: unknown) => void) => {
+    if (typeof reply === 'function') setTimeout(() => reply(payload), options.ackDelayMs);
+  });
+
+  socket.on('cmd', (payload: any) => {
+    const cmd = typeof payload === 'string' ? payload : payload?.cmd;
+    if (typeof cmd !== 'string') return;
+    const ack = runCommand(cmd, payload?.id, client);
+    if (Math.random() < options.dropAcks) {
+      console.log(`  (dropped ack for ${cmd})`);
+      return;
+    }
+    setTimeout(() => socket.emit('message', { type: 'ack', data: ack }), options.ackDelayMs);
+  });
+
+  socket.on('disconnect', () => {
+    console.log(`Client disconnected: ${socket.id}`);
+    // The lock belongs to a dashboard, not a socket; keep it while another
+    // socket from the same dashboard is still connected
+    const stillHere = [...io.sockets.sockets.values()].some(s => s.data.client?.clientId === client.clientId);
+    if (holder?.clientId === client.clientId && !stillHere) setHolder(null);
+  });
+});
+
+robot.onLog = (msg) => {
+  console.log(`log: ${msg}`);
+  io.emit('message', { type: 'log', data: msg });
+};
+
+setInterval(() => robot.tick(TICK_MS), TICK_MS);
+setInterval(() => io.emit('message', { type: 'telemetry', data: robot.telemetry() }), TELEMETRY_INTERVAL_MS);
+
+httpServer.listen(options.port, () => {
+  const { cols, rows, obstacles } = options.field;
+  console.log(`ArecaBot simulator on :${options.port} (${cols}x${rows} field, ${obstacles.length} obstacles)`);
+});
@@ -0,0 +1,20 @@
+import type { Config } from 'tailwindcss';
+
+export default {
+  content: ['./index.html', './index.tsx', './App.tsx', './components/**/*.tsx', './services/**/*.ts'],
+  theme: {
+    extend: {
+      colors: {
+        areca: {
+          50: '#ecfdf5',
+          100: '#d1fae5',
+          500: '#10b981',
+          600: '#059669',
+          700: '#047857',
+          800: '#065f46',
+          900: '#064e3b',
+        }
+      }
+    }
+  }
+} satisfies Config;
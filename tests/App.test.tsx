@@ -0,0 +1,327 @@
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen, within } from '@testing-library/react';
+import App from '../App';
+import { CLIENT_ID } from '../services/api';
+import { FakeSocket, createMockTransport } from './mockTransport';
+
+const DRIVE_COMMANDS = ['F', 'B', 'L', 'R'];
+
+// Renders the dashboard against a mock transport and brings the link up
+function renderConnected(): FakeSocket {
+  const transport = createMockTransport();
+  render(<App transport={transport} />);
+  const socket = transport.sockets[0];
+  act(() => socket.connectNow());
+  socket.sent = [];
+  return socket;
+}
+
+const sentCommands = (socket: FakeSocket) => socket.commands().map(f => f.cmd);
+const driveCommands = (socket: FakeSocket) => sentCommands(socket).filter(cmd => DRIVE_COMMANDS.includes(cmd));
+
+// The card holding a SpeedControlInput, found by its label
+function speedInput(label: string) {
+  const card = within(screen.getByText(label).closest('.rounded-xl') as HTMLElement);
+  return { input: card.getByRole('spinbutton') as HTMLInputElement, card };
+}
+
+function setSpeed(label: string, value: string) {
+  const { input, card } = speedInput(label);
+  fireEvent.change(input, { target: { value } });
+  fireEvent.click(card.getByText('SET'));
+  return input;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+describe('dashboard', () => {
+  it('builds its services once, not on every render', () => {
+    const getItem = vi.spyOn(Storage.prototype, 'getItem');
+    const socket = renderConnected();
+    const fleetLoads = () => getItem.mock.calls.filter(([key]) => key === 'arecabot.robots').length;
+    const loadsAfterMount = fleetLoads();
+
+    for (let i = 0; i < 5; i++) {
+      act(() => socket.receive({ type: 'telemetry', data: { us: 50 + i } }));
+    }
+
+    expect(loadsAfterMount).toBe(1);
+    expect(fleetLoads()).toBe(1);
+    getItem.mockRestore();
+  });
+
+  it('switches to each robot\'s own trim', () => {
+    window.localStorage.setItem('arecabot.robots', JSON.stringify([
+      { id: 'r1', name: 'Robot 1', host: '10.0.0.1', port: 80 },
+      { id: 'r2', name: 'Robot 2', host: '10.0.0.2', port: 80 }
+    ]));
+    window.localStorage.setItem('arecabot.selectedRobot', JSON.stringify('r1'));
+    window.localStorage.setItem('arecabot.driveConfigs', JSON.stringify({
+      r1: { mode: 'linked', left: 140, right: 140, trim: 20 },
+      r2: { mode: 'linked', left: 140, right: 140, trim: 0 }
+    }));
+    const transport = createMockTransport();
+    render(<App transport={transport} />);
+    const [first, second] = transport.sockets;
+    [first, second].forEach(socket => act(() => socket.connectNow()));
+    const selector = screen.getByDisplayValue('Robot 1');
+
+    fireEvent.change(selector, { target: { value: 'r2' } });
+    second.sent = [];
+    setSpeed('Motor Power (PWM)', '180');
+    expect(sentCommands(second)).toEqual(['LSPD 180', 'RSPD 180']);
+
+    fireEvent.change(selector, { target: { value: 'r1' } });
+    first.sent = [];
+    setSpeed('Motor Power (PWM)', '180');
+    expect(sentCommands(first)).toEqual(['LSPD 180', 'RSPD 160']);
+  });
+
+  it('restores a profile on another robot with that robot\'s own trim', () => {
+    const profile = {
+      id: 'wet', name: 'Wet ground', left: 180, right: 180, roller: 120,
+      drivePoints: [], rollerPoints: [], updatedAt: 0
+    };
+    window.localStorage.setItem('arecabot.robots', JSON.stringify([
+      { id: 'r1', name: 'Robot 1', host: '10.0.0.1', port: 80 },
+      { id: 'r2', name: 'Robot 2', host: '10.0.0.2', port: 80 }
+    ]));
+    window.localStorage.setItem('arecabot.selectedRobot', JSON.stringify('r1'));
+    window.localStorage.setItem('arecabot.driveConfigs', JSON.stringify({
+      r1: { mode: 'linked', left: 140, right: 140, trim: 20 },
+      r2: { mode: 'linked', left: 140, right: 140, trim: -10 }
+    }));
+    window.localStorage.setItem('arecabot.calibrationProfiles', JSON.stringify([profile]));
+    window.localStorage.setItem('arecabot.activeCalibrationProfiles', JSON.stringify({ r1: 'wet', r2: 'wet' }));
+    const transport = createMockTransport();
+    render(<App transport={transport} />);
+    const [selected, other] = transport.sockets;
+
+    [selected, other].forEach(socket => {
+      act(() => socket.connectNow());
+      act(() => socket.receive({ type: 'hello', data: { protocol: 2 } }));
+    });
+
+    expect(sentCommands(selected)).toEqual(expect.arrayContaining(['LSPD 180', 'RSPD 160', 'ROLLERSPD 120']));
+    expect(sentCommands(other)).toEqual(expect.arrayContaining(['LSPD 170', 'RSPD 180', 'ROLLERSPD 120']));
+  });
+});
+
+describe('alerts', () => {
+  it('sends STOP when an auto-STOP rule fires', () => {
+    const socket = renderConnected();
+
+    act(() => socket.receive({ type: 'telemetry', data: { state: 'ERROR' } }));
+
+    expect(sentCommands(socket)).toContain('STOP');
+  });
+
+  it('does not raise link alerts for an HTTP-only robot', () => {
+    window.localStorage.setItem('arecabot.robots', JSON.stringify([{
+      id: 'r1', name: 'Robot 1', host: '10.0.0.1', port: 80,
+      connection: { mode: 'http', socketTransports: ['websocket'], timeoutMs: 5000, reconnectionAttempts: 10, httpPath: '/cmd', pingIntervalMs: 5000 }
+    }]));
+    const transport = createMockTransport();
+    render(<App transport={transport} />);
+
+    act(() => vi.advanceTimersByTime(15000));
+
+    expect(transport.sockets).toHaveLength(0);
+    expect(screen.getByText('HTTP ONLY')).toBeTruthy();
+    expect(screen.queryByText('Robot offline')).toBeNull();
+  });
+
+  it('does not send STOP again when a snoozed auto-STOP rule flaps', () => {
+    const socket = renderConnected();
+    act(() => socket.receive({ type: 'telemetry', data: { state: 'ERROR' } }));
+    fireEvent.click(screen.getAllByTitle('Snooze')[0]);
+    socket.sent = [];
+
+    act(() => socket.receive({ type: 'telemetry', data: { state: 'MANUAL' } }));
+    act(() => socket.receive({ type: 'telemetry', data: { state: 'ERROR' } }));
+
+    expect(sentCommands(socket)).not.toContain('STOP');
+  });
+});
+
+describe('missions', () => {
+  it('pauses a running mission when STOP is pressed', () => {
+    const socket = renderConnected();
+    fireEvent.click(screen.getByText('Waypoint'));
+    fireEvent.click(screen.getByText('Send Mission'));
+    act(() => socket.receive({ type: 'telemetry', data: { state: 'GOTO' } }));
+
+    // The drive pad's STOP, not the E-stop
+    const stop = screen.getAllByText('STOP').map(el => el.closest('button')!).find(b => b.className.includes('aspect-square'))!;
+    fireEvent.click(stop);
+
+    expect(screen.getByText('Resume')).toBeTruthy();
+    expect(screen.getByText('Stopped by the operator')).toBeTruthy();
+  });
+});
+
+describe('hold-to-move', () => {
+  it('repeats the drive command while the button is held', () => {
+    const socket = renderConnected();
+    const forward = screen.getByText('FWD').closest('button')!;
+
+    fireEvent.pointerDown(forward);
+    expect(driveCommands(socket)).toEqual(['F']);
+
+    act(() => vi.advanceTimersByTime(500));
+    expect(driveCommands(socket)).toEqual(['F', 'F', 'F']);
+
+    fireEvent.pointerUp(forward);
+    act(() => vi.advanceTimersByTime(1000));
+    expect(driveCommands(socket)).toEqual(['F', 'F', 'F']);
+  });
+
+  it('stops when the pointer leaves the button', () => {
+    const socket = renderConnected();
+    const left = screen.getByText('LEFT').closest('button')!;
+
+    fireEvent.pointerDown(left);
+    fireEvent.pointerLeave(left);
+    act(() => vi.advanceTimersByTime(1000));
+
+    expect(driveCommands(socket)).toEqual(['L']);
+  });
+
+  it('switches direction without leaving the old command repeating', () => {
+    const socket = renderConnected();
+
+    fireEvent.pointerDown(screen.getByText('FWD').closest('button')!);
+    fireEvent.pointerDown(screen.getByText('BACK').closest('button')!);
+    act(() => vi.advanceTimersByTime(250));
+
+    expect(driveCommands(socket)).toEqual(['F', 'B', 'B']);
+  });
+
+  it('does not move while the E-stop is latched', () => {
+    window.localStorage.setItem('arecabot.estopLatched', 'true');
+    const socket = renderConnected();
+
+    fireEvent.pointerDown(screen.getByText('FWD').closest('button')!);
+    act(() => vi.advanceTimersByTime(500));
+
+    expect(driveCommands(socket)).toEqual([]);
+  });
+
+  it('disables driving for a viewer', () => {
+    const socket = renderConnected();
+    act(() => socket.receive({ type: 'hello', data: { protocol: 2, session: { role: 'viewer', operator: 'Ravi' }, control: null } }));
+    const forward = screen.getByText('FWD').closest('button')!;
+
+    fireEvent.pointerDown(forward);
+    act(() => vi.advanceTimersByTime(500));
+
+    expect(forward.disabled).toBe(true);
+    expect(driveCommands(socket)).toEqual([]);
+  });
+
+  it('enables driving once this dashboard holds control', () => {
+    const socket = renderConnected();
+    act(() => socket.receive({ type: 'hello', data: { protocol: 2, session: { role: 'operator', operator: 'Asha' }, control: null } }));
+    const forward = screen.getByText('FWD').closest('button')!;
+    expect(forward.disabled).toBe(true);
+
+    act(() => socket.receive({ type: 'control', data: { clientId: CLIENT_ID, operator: 'Asha' } }));
+    fireEvent.pointerDown(forward);
+
+    expect(forward.disabled).toBe(false);
+    expect(driveCommands(socket)).toEqual(['F']);
+  });
+
+  it('disables mode, roller and mission controls for a viewer', () => {
+    const socket = renderConnected();
+    act(() => socket.receive({ type: 'hello', data: { protocol: 2, session: { role: 'viewer', operator: 'Ravi' }, control: null } }));
+    fireEvent.click(screen.getByText('Waypoint'));
+    socket.sent = [];
+
+    const buttons = ['Auto Mode', 'Manual', 'IDLE', 'Send Mission'].map(label => screen.getByText(label).closest('button')!);
+    buttons.forEach(button => fireEvent.click(button));
+    ['KeyP', 'KeyM', 'KeyR'].forEach(code => fireEvent.keyDown(window, { code }));
+
+    buttons.forEach(button => expect(button.disabled).toBe(true));
+    expect(sentCommands(socket)).toEqual([]);
+  });
+
+  it('ends the hold when control is taken away', () => {
+    const socket = renderConnected();
+    act(() => socket.receive({ type: 'hello', data: { protocol: 2, session: { role: 'operator', operator: 'Asha' }, control: { clientId: CLIENT_ID } } }));
+
+    fireEvent.pointerDown(screen.getByText('FWD').closest('button')!);
+    act(() => socket.receive({ type: 'control', data: { clientId: 'other-dashboard', operator: 'Ravi' } }));
+    act(() => vi.advanceTimersByTime(1000));
+
+    expect(driveCommands(socket)).toEqual(['F']);
+  });
+});
+
+describe('speed input', () => {
+  it('sends linked drive speeds to both motors', () => {
+    const socket = renderConnected();
+
+    setSpeed('Motor Power (PWM)', '180');
+
+    expect(sentCommands(socket)).toEqual(['LSPD 180', 'RSPD 180']);
+  });
+
+  it('clamps values above the PWM range', () => {
+    const socket = renderConnected();
+
+    const input = setSpeed('Motor Power (PWM)', '300');
+
+    expect(sentCommands(socket)).toEqual(['LSPD 255', 'RSPD 255']);
+    expect(input.value).toBe('255');
+  });
+
+  it('treats negative and empty values as zero', () => {
+    const socket = renderConnected();
+
+    setSpeed('Motor Power (PWM)', '-20');
+    setSpeed('Roller PWM', '');
+
+    expect(sentCommands(socket)).toEqual(['LSPD 0', 'RSPD 0', 'ROLLERSPD 0']);
+  });
+
+  it('submits on Enter', () => {
+    const socket = renderConnected();
+    const { input } = speedInput('Roller PWM');
+
+    fireEvent.change(input, { target: { value: '999' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(sentCommands(socket)).toEqual(['ROLLERSPD 255']);
+  });
+
+  it('does not send until the value is submitted', () => {
+    const socket = renderConnected();
+
+    fireEvent.change(speedInput('Motor Power (PWM)').input, { target: { value: '90' } });
+
+    expect(sentCommands(socket)).toEqual([]);
+  });
+
+  it('sends a preset straight away', () => {
+    const socket = renderConnected();
+
+    fireEvent.click(speedInput('Motor Power (PWM)').card.getByText('100'));
+
+    expect(sentCommands(socket)).toEqual(['LSPD 100', 'RSPD 100']);
+    expect(speedInput('Motor Power (PWM)').input.value).toBe('100');
+  });
+
+  it('changes one motor at a time in independent mode', () => {
+    const socket = renderConnected();
+    fireEvent.click(screen.getByText('Split'));
+    socket.sent = [];
+
+    setSpeed('Left Motor (PWM)', '400');
+
+    expect(sentCommands(socket)).toEqual(['LSPD 255', 'RSPD 140']);
+  });
+});
@@ -0,0 +1,55 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { EventConsole } from '../components';
+
+function renderConsole() {
+  const onSend = vi.fn();
+  render(<EventConsole logs={[]} canSend={true} onSend={onSend} onClear={() => undefined} />);
+  const input = screen.getByPlaceholderText('Command, e.g. LSPD 180');
+  const enter = (text: string) => {
+    fireEvent.change(input, { target: { value: text } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+  };
+  return { onSend, input, enter };
+}
+
+describe('command line', () => {
+  it('sends known commands straight away', () => {
+    const { onSend, enter } = renderConsole();
+
+    enter('lspd  180');
+
+    expect(onSend).toHaveBeenCalledWith('LSPD 180', false);
+  });
+
+  it('blocks malformed known commands', () => {
+    const { onSend, enter } = renderConsole();
+
+    enter('LSPD 300');
+
+    expect(onSend).not.toHaveBeenCalled();
+    expect(screen.getByText('PWM out of range in "LSPD 300"')).toBeTruthy();
+  });
+
+  it('sends an unknown command unchecked after a second Enter', () => {
+    const { onSend, input, enter } = renderConsole();
+
+    enter('BEEP 3');
+    expect(onSend).not.toHaveBeenCalled();
+    expect(screen.getByText(/BEEP is not a known command/)).toBeTruthy();
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onSend).toHaveBeenCalledWith('BEEP 3', true);
+    expect(screen.queryByText(/not a known command/)).toBeNull();
+  });
+
+  it('asks again when the unknown command is edited', () => {
+    const { onSend, enter } = renderConsole();
+
+    enter('BEEP 3');
+    enter('BEEP 4');
+
+    expect(onSend).not.toHaveBeenCalled();
+  });
+});
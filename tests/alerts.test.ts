@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ACK_REARM_MS, ALARM_REPEAT_MS, AlertEngine } from '../services/alerts';
+import { EMPTY_TELEMETRY } from '../services/telemetry';
+import { AlertRule, RobotState } from '../types';
+
+const OBSTACLE: AlertRule = {
+  id: 'obstacle-close', name: 'Obstacle close', enabled: true, metric: 'us', operator: '<', value: 20,
+  forMs: 0, severity: 'critical', autoStop: false
+};
+
+let engine: AlertEngine;
+let onFire: ReturnType<typeof vi.fn>;
+let onAlarm: ReturnType<typeof vi.fn>;
+
+function start(rules: AlertRule[]) {
+  engine = new AlertEngine();
+  engine.setRules(rules);
+  engine.setConnected(true);
+  onFire = vi.fn();
+  onAlarm = vi.fn();
+  engine.onFire = onFire;
+  engine.onAlarm = onAlarm;
+}
+
+const distance = (us: number) => engine.update({ ...EMPTY_TELEMETRY, us });
+const openAlert = () => engine.getAlerts().find(a => a.resolvedAt === null);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(0);
+});
+
+describe('AlertEngine', () => {
+  it('fires only once the condition has held for the rule delay', () => {
+    start([{ ...OBSTACLE, forMs: 2000 }]);
+
+    distance(10);
+    vi.advanceTimersByTime(1500);
+    distance(10);
+    expect(onFire).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(500);
+    distance(10);
+    expect(onFire).toHaveBeenCalledTimes(1);
+    expect(openAlert()).toMatchObject({ ruleId: 'obstacle-close', firedAt: 2000 });
+  });
+
+  it('restarts the delay when the condition clears', () => {
+    start([{ ...OBSTACLE, forMs: 2000 }]);
+
+    distance(10);
+    vi.advanceTimersByTime(1500);
+    distance(50);
+    vi.advanceTimersByTime(1000);
+    distance(10);
+
+    expect(onFire).not.toHaveBeenCalled();
+  });
+
+  it('stops repeating the alarm once acknowledged', () => {
+    start([OBSTACLE]);
+    distance(10);
+    vi.advanceTimersByTime(ALARM_REPEAT_MS);
+    distance(10);
+    expect(onAlarm).toHaveBeenCalledTimes(2);
+
+    engine.acknowledge(openAlert()!.id);
+    vi.advanceTimersByTime(ALARM_REPEAT_MS);
+    distance(10);
+
+    expect(onAlarm).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps an acknowledged rule quiet while the condition flaps', () => {
+    start([OBSTACLE]);
+    distance(10);
+    engine.acknowledge(openAlert()!.id);
+
+    distance(50);
+    distance(10);
+    expect(onFire).toHaveBeenCalledTimes(1);
+    expect(openAlert()!.acknowledgedAt).not.toBeNull();
+
+    distance(50);
+    vi.advanceTimersByTime(ACK_REARM_MS);
+    distance(50);
+    distance(10);
+    expect(onFire).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps a snoozed rule quiet across a flap until the snooze ends', () => {
+    start([OBSTACLE]);
+    distance(10);
+    engine.snooze(openAlert()!.id, 60000);
+
+    distance(50);
+    distance(10);
+    expect(onFire).toHaveBeenCalledTimes(1);
+    expect(onAlarm).toHaveBeenCalledTimes(1);
+    expect(openAlert()).toMatchObject({ snoozedUntil: 60000, acknowledgedAt: null });
+
+    vi.advanceTimersByTime(60000);
+    distance(50);
+    distance(10);
+    expect(onFire).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves link rules unjudged when no socket is expected', () => {
+    start([{ id: 'link-lost', name: 'Robot offline', enabled: true, metric: 'connection', operator: '=', value: 'offline', forMs: 0, severity: 'critical', autoStop: false }]);
+    engine.setStreaming(false);
+
+    engine.setConnected(false);
+    vi.advanceTimersByTime(ALARM_REPEAT_MS);
+    distance(50);
+
+    expect(onFire).not.toHaveBeenCalled();
+    expect(openAlert()).toBeUndefined();
+  });
+
+  it('hands auto-STOP rules to onFire', () => {
+    start([{ id: 'state-error', name: 'Robot error', enabled: true, metric: 'state', operator: '=', value: 'ERROR', forMs: 0, severity: 'critical', autoStop: true }]);
+
+    engine.update({ ...EMPTY_TELEMETRY, state: RobotState.ERROR });
+
+    expect(onFire).toHaveBeenCalledWith(expect.objectContaining({ ruleId: 'state-error' }), expect.objectContaining({ autoStop: true }));
+  });
+});
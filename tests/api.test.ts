@@ -0,0 +1,270 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CLIENT_ID, CommandError, DEFAULT_CONNECTION_SETTINGS, RobotApi } from '../services/api';
+import { ConnectionSettings, Heading, LogRecord, RobotState } from '../types';
+import { MockTransport, createMockTransport } from './mockTransport';
+
+const HTTP_URL = 'http://10.0.0.5:81/cmd';
+
+let transport: MockTransport;
+let api: RobotApi;
+let logs: LogRecord[];
+
+function start(settings: Partial<ConnectionSettings> = {}) {
+  api = new RobotApi('10.0.0.5', 81, { ...DEFAULT_CONNECTION_SETTINGS, ...settings }, transport);
+  api.onLog = (record) => logs.push(record);
+  api.connect();
+  return transport.sockets[0];
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  transport = createMockTransport();
+  logs = [];
+});
+
+afterEach(() => {
+  api.disconnect();
+});
+
+describe('RobotApi message handler', () => {
+  it('normalizes telemetry sent as JSON text', () => {
+    const socket = start();
+    const onTelemetry = vi.fn();
+    api.onTelemetry = onTelemetry;
+    socket.connectNow();
+
+    socket.receive('{"type":"telemetry","data":{"US":42,"T":31.5,"ST":2,"POS":[3,4],"DIR":"E"}}');
+
+    expect(onTelemetry).toHaveBeenCalledWith({ us: 42, temp: 31.5, state: RobotState.AUTO, pos: [3, 4], dir: Heading.E });
+  });
+
+  it('logs plain text as firmware output', () => {
+    const socket = start();
+    const onTelemetry = vi.fn();
+    api.onTelemetry = onTelemetry;
+    socket.connectNow();
+
+    socket.receive('Motor driver ready');
+
+    expect(onTelemetry).not.toHaveBeenCalled();
+    expect(logs).toContainEqual(expect.objectContaining({ type: 'rx', source: 'firmware', message: 'Motor driver ready' }));
+  });
+
+  it('reports malformed frames without dispatching them', () => {
+    const socket = start();
+    const onTelemetry = vi.fn();
+    const onProtocolError = vi.fn();
+    api.onTelemetry = onTelemetry;
+    api.onProtocolError = onProtocolError;
+    socket.connectNow();
+
+    socket.receive('{"type":');
+    socket.receive({ data: {} });
+    socket.receive({ type: 'bogus' });
+    socket.receive({ type: 'telemetry', data: { us: 'far' } });
+
+    expect(onTelemetry).not.toHaveBeenCalled();
+    expect(onProtocolError.mock.calls.map(([err]) => err.code)).toEqual([
+      'invalid-json', 'invalid-frame', 'unknown-type', 'invalid-field'
+    ]);
+  });
+
+  it('warns about unknown telemetry fields once per connection', () => {
+    const socket = start();
+    socket.connectNow();
+
+    socket.receive({ type: 'telemetry', data: { us: 10, rpm: 900 } });
+    socket.receive({ type: 'telemetry', data: { us: 11, rpm: 910 } });
+
+    expect(logs.filter(l => l.message === 'Unknown telemetry field "rpm"')).toHaveLength(1);
+  });
+
+  it('confirms a command when its ack arrives', async () => {
+    const socket = start();
+    socket.connectNow();
+
+    const result = api.sendCmd('ROLLER ON');
+    const [frame] = socket.commands();
+    socket.receive({ type: 'ack', data: { id: frame.id, ok: true } });
+
+    expect(frame.cmd).toBe('ROLLER ON');
+    await expect(result).resolves.toMatchObject({ cmd: 'ROLLER ON', status: 'confirmed', transport: 'ws', attempts: 1 });
+  });
+
+  it('matches legacy acks by command name', async () => {
+    const socket = start();
+    socket.connectNow();
+
+    const left = api.sendCmd('LSPD 100');
+    const right = api.sendCmd('RSPD 90');
+    socket.receive({ type: 'ack', data: 'RSPD 90' });
+    await expect(right).resolves.toMatchObject({ status: 'confirmed' });
+
+    socket.receive({ type: 'ack', data: { cmd: 'LSPD 100' } });
+    await expect(left).resolves.toMatchObject({ status: 'confirmed' });
+  });
+
+  it('drops a duplicate ack for a command that already settled', async () => {
+    const socket = start();
+    socket.connectNow();
+
+    const stop = api.sendCmd('STOP', { timeoutMs: 100 });
+    await vi.advanceTimersByTimeAsync(100);
+    const [first, retry] = socket.commands();
+    socket.receive({ type: 'ack', data: { id: retry.id, ok: true } });
+    await expect(stop).resolves.toMatchObject({ status: 'confirmed', attempts: 2 });
+
+    const roller = api.sendCmd('ROLLER ON');
+    const onRoller = vi.fn();
+    roller.then(onRoller, onRoller);
+    socket.receive({ type: 'ack', data: { id: first.id, ok: true } });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onRoller).not.toHaveBeenCalled();
+    socket.receive({ type: 'ack', data: { id: socket.commands()[2].id, ok: true } });
+    await expect(roller).resolves.toMatchObject({ cmd: 'ROLLER ON', status: 'confirmed' });
+  });
+
+  it('drops a late legacy ack for a command that already failed', async () => {
+    const socket = start();
+    socket.connectNow();
+
+    const stop = api.sendCmd('STOP', { timeoutMs: 100, retries: 0 });
+    const stopped = expect(stop).rejects.toMatchObject({ record: { status: 'failed' } });
+    await vi.advanceTimersByTimeAsync(100);
+    await stopped;
+
+    const roller = api.sendCmd('ROLLER ON');
+    const onRoller = vi.fn();
+    roller.then(onRoller, onRoller);
+    socket.receive({ type: 'ack', data: { cmd: 'STOP', ok: true } });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onRoller).not.toHaveBeenCalled();
+    socket.receive({ type: 'ack', data: { cmd: 'ROLLER ON', ok: true } });
+    await expect(roller).resolves.toMatchObject({ cmd: 'ROLLER ON', status: 'confirmed' });
+  });
+
+  it('rejects a command the robot refuses', async () => {
+    const socket = start();
+    socket.connectNow();
+
+    const result = api.sendCmd('AUTO');
+    socket.receive({ type: 'ack', data: { id: socket.commands()[0].id, ok: false, error: 'Obstacle ahead' } });
+
+    await expect(result).rejects.toBeInstanceOf(CommandError);
+    await expect(result).rejects.toMatchObject({ record: { status: 'failed', error: 'Obstacle ahead' } });
+  });
+
+  it('sends unknown console commands only when marked raw', async () => {
+    const socket = start();
+    socket.connectNow();
+
+    await expect(api.sendCmd('BEEP 3')).rejects.toMatchObject({ record: { error: 'Unknown or malformed command "BEEP 3"' } });
+    api.sendCmd('BEEP 3', { raw: true }).catch(() => undefined);
+    await expect(api.sendCmd('LSPD 300', { raw: true })).rejects.toMatchObject({ record: { error: 'PWM out of range in "LSPD 300"' } });
+
+    expect(socket.commands().map(f => f.cmd)).toEqual(['BEEP 3']);
+  });
+
+  it('reads the firmware version from the hello reply', () => {
+    const socket = start();
+    socket.connectNow();
+
+    socket.receive({ type: 'hello', data: { protocol: 2, firmware: '1.4.0' } });
+
+    expect(socket.sent[0].event).toBe('hello');
+    expect(api.getFirmware()).toEqual({ protocol: 2, version: '1.4.0', supported: true });
+  });
+
+  it('flags firmware speaking an unsupported protocol', () => {
+    const socket = start();
+    const onProtocolError = vi.fn();
+    api.onProtocolError = onProtocolError;
+    socket.connectNow();
+
+    socket.receive({ type: 'hello', data: { protocol: 9 } });
+
+    expect(onProtocolError).toHaveBeenCalledWith(expect.objectContaining({ code: 'unsupported-version' }));
+    expect(api.getFirmware()).toMatchObject({ protocol: 9, supported: false });
+  });
+});
+
+describe('RobotApi HTTP fallback', () => {
+  it('posts commands over HTTP while the socket is down', async () => {
+    start();
+
+    const record = await api.sendCmd('F');
+
+    expect(record).toMatchObject({ status: 'confirmed', transport: 'http' });
+    expect(transport.requests).toHaveLength(1);
+    expect(transport.requests[0]).toMatchObject({
+      url: HTTP_URL,
+      headers: { 'Content-Type': 'application/json', 'X-Client-Id': CLIENT_ID },
+      body: { c: 'F', id: record.id }
+    });
+    expect(logs).toContainEqual(expect.objectContaining({ type: 'tx', message: 'F (fallback)', transport: 'http' }));
+  });
+
+  it('uses the socket once it is connected', () => {
+    const socket = start();
+    socket.connectNow();
+
+    api.sendCmd('F').catch(() => undefined);
+
+    expect(socket.commands().map(f => f.cmd)).toEqual(['F']);
+    expect(transport.requests).toHaveLength(0);
+  });
+
+  it('sends the operator credentials as headers', async () => {
+    start();
+    api.setCredentials({ operator: 'Asha Rao', token: 's3cret' });
+
+    await api.sendCmd('B');
+
+    expect(transport.requests[0].headers).toMatchObject({ Authorization: 'Bearer s3cret', 'X-Operator': 'Asha%20Rao' });
+  });
+
+  it('fails the command on an HTTP error status', async () => {
+    start();
+    transport.http = { status: 403, text: 'Forbidden' };
+
+    const result = api.sendCmd('AUTO');
+
+    await expect(result).rejects.toMatchObject({ record: { status: 'failed', transport: 'http', error: 'HTTP 403' } });
+  });
+
+  it('retries when the request cannot be made', async () => {
+    start();
+    transport.http = new Error('Network unreachable');
+
+    const result = expect(api.sendCmd('F', { retries: 1, timeoutMs: 100 })).rejects.toMatchObject({
+      record: { attempts: 2, error: 'No acknowledgement' }
+    });
+    await vi.advanceTimersByTimeAsync(200);
+
+    await result;
+    expect(transport.requests).toHaveLength(2);
+    expect(logs).toContainEqual(expect.objectContaining({ message: 'HTTP send failed: Network unreachable' }));
+  });
+
+  it('never falls back in WebSocket-only mode', async () => {
+    start({ mode: 'ws' });
+
+    const result = expect(api.sendCmd('F', { retries: 0, timeoutMs: 100 })).rejects.toBeInstanceOf(CommandError);
+    await vi.advanceTimersByTimeAsync(100);
+
+    await result;
+    expect(transport.requests).toHaveLength(0);
+  });
+
+  it('sends every command over HTTP in HTTP-only mode', async () => {
+    start({ mode: 'http' });
+
+    await api.sendCmd('L');
+
+    expect(transport.sockets).toHaveLength(0);
+    expect(transport.requests[0].body).toMatchObject({ c: 'L' });
+    expect(logs).toContainEqual(expect.objectContaining({ type: 'tx', message: 'L', transport: 'http' }));
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { loadCredentials, loadOperatorName, saveCredentials } from '../services/control';
+
+const CREDENTIALS = { operator: 'Asha', token: 's3cret' };
+
+const persisted = () => Object.keys(window.localStorage).map(k => window.localStorage.getItem(k)).join('\n');
+
+describe('operator credentials', () => {
+  it('keeps the token out of localStorage', () => {
+    saveCredentials(CREDENTIALS);
+
+    expect(persisted()).not.toContain('s3cret');
+    expect(loadCredentials()).toEqual(CREDENTIALS);
+  });
+
+  it('forgets the token when the tab session ends but remembers the name', () => {
+    saveCredentials(CREDENTIALS);
+    window.sessionStorage.clear();
+
+    expect(loadCredentials()).toBeNull();
+    expect(loadOperatorName()).toBe('Asha');
+  });
+
+  it('removes a token saved by an older build', () => {
+    window.localStorage.setItem('arecabot.operatorCredentials', JSON.stringify(CREDENTIALS));
+
+    expect(loadCredentials()).toBeNull();
+    expect(persisted()).not.toContain('s3cret');
+    expect(loadOperatorName()).toBe('Asha');
+  });
+
+  it('drops the token on sign-out', () => {
+    saveCredentials(CREDENTIALS);
+    saveCredentials(null);
+
+    expect(loadCredentials()).toBeNull();
+    expect(window.sessionStorage.length).toBe(0);
+  });
+});
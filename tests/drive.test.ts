@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DRIVE_CONFIG, applyTrim, clampPwm, loadDriveConfig, removeTrim, saveDriveConfig } from '../services/drive';
+
+describe('clampPwm', () => {
+  it('limits values to the 0-255 PWM range', () => {
+    expect(clampPwm(-40)).toBe(0);
+    expect(clampPwm(300)).toBe(255);
+    expect(clampPwm(140)).toBe(140);
+  });
+
+  it('rounds fractions down', () => {
+    expect(clampPwm(99.9)).toBe(99);
+  });
+});
+
+describe('applyTrim', () => {
+  it('slows the stronger side', () => {
+    expect(applyTrim(200, 200, 10)).toEqual([200, 190]);
+    expect(applyTrim(200, 200, -10)).toEqual([190, 200]);
+  });
+
+  it('still corrects a motor at full power', () => {
+    expect(applyTrim(255, 255, 20)).toEqual([255, 235]);
+  });
+
+  it('never goes below zero', () => {
+    expect(applyTrim(5, 5, -20)).toEqual([0, 5]);
+  });
+
+  it('is undone by removeTrim', () => {
+    expect(removeTrim(...applyTrim(180, 160, 15), 15)).toEqual([180, 160]);
+  });
+});
+
+describe('drive config', () => {
+  it('keeps each robot\'s trim separately', () => {
+    saveDriveConfig('r1', { ...DEFAULT_DRIVE_CONFIG, trim: 20 });
+    saveDriveConfig('r2', { ...DEFAULT_DRIVE_CONFIG, trim: -10 });
+
+    expect(loadDriveConfig('r1').trim).toBe(20);
+    expect(loadDriveConfig('r2').trim).toBe(-10);
+    expect(loadDriveConfig('r3')).toEqual(DEFAULT_DRIVE_CONFIG);
+  });
+
+  it('gives a config saved by an older build to the first robot loaded only', () => {
+    window.localStorage.setItem('arecabot.driveConfig', JSON.stringify({ mode: 'independent', left: 180, right: 170, trim: 15 }));
+
+    expect(loadDriveConfig('r1')).toEqual({ mode: 'independent', left: 180, right: 170, trim: 15 });
+    expect(loadDriveConfig('r2')).toEqual(DEFAULT_DRIVE_CONFIG);
+    expect(window.localStorage.getItem('arecabot.driveConfig')).toBeNull();
+  });
+});
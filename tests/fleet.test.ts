@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ROBOT_ID, RobotFleet } from '../services/fleet';
+import { createMockTransport } from './mockTransport';
+
+describe('RobotFleet', () => {
+  it('keeps the default robot ID across reloads', () => {
+    const first = new RobotFleet(createMockTransport()).getRobots();
+    const second = new RobotFleet(createMockTransport()).getRobots();
+
+    expect(first.map(r => r.id)).toEqual([DEFAULT_ROBOT_ID]);
+    expect(second.map(r => r.id)).toEqual([DEFAULT_ROBOT_ID]);
+  });
+
+  it('has a connection for every robot before connecting', () => {
+    const transport = createMockTransport();
+    const fleet = new RobotFleet(transport);
+
+    expect(fleet.getApi(DEFAULT_ROBOT_ID)).toBeDefined();
+    expect(fleet.getApi(DEFAULT_ROBOT_ID).isConnected()).toBe(false);
+    expect(transport.sockets).toHaveLength(0);
+  });
+});
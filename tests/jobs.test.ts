@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { JOB_IDLE_GAP_MS, JobTracker } from '../services/jobs';
+import { EMPTY_TELEMETRY } from '../services/telemetry';
+import { Command, RobotState } from '../types';
+
+const IDLE = { ...EMPTY_TELEMETRY, state: RobotState.IDLE };
+
+const at = (state: RobotState, pos: [number, number]) => ({ ...EMPTY_TELEMETRY, state, pos });
+
+describe('JobTracker', () => {
+  it('counts roller time the robot reported without a command', () => {
+    const tracker = new JobTracker();
+
+    tracker.noteRoller('r1', 'Robot 1', true, 0);
+    tracker.update('r1', 'Robot 1', IDLE, 1000);
+    tracker.update('r1', 'Robot 1', IDLE, 3000);
+
+    expect(tracker.getJobs()).toHaveLength(1);
+    expect(tracker.getJobs()[0].rollerMs).toBe(3000);
+  });
+
+  it('starts roller time at the switch, not the next frame', () => {
+    const tracker = new JobTracker();
+
+    tracker.update('r1', 'Robot 1', IDLE, 0);
+    tracker.noteRoller('r1', 'Robot 1', true, 500);
+    tracker.update('r1', 'Robot 1', IDLE, 1000);
+
+    expect(tracker.getJobs()[0].rollerMs).toBe(500);
+  });
+
+  it('stops counting when a STATUS reply shows the roller off', () => {
+    const tracker = new JobTracker();
+
+    tracker.noteCommand('r1', 'Robot 1', Command.ROLLER_ON, 0);
+    tracker.update('r1', 'Robot 1', IDLE, 1000);
+    tracker.update('r1', 'Robot 1', IDLE, 2000);
+    tracker.noteRoller('r1', 'Robot 1', false, 2500);
+    tracker.update('r1', 'Robot 1', IDLE, 4000);
+
+    expect(tracker.getJobs()[0].rollerMs).toBe(2500);
+  });
+
+  it('splits runtime between manual and auto driving', () => {
+    const tracker = new JobTracker();
+
+    tracker.update('r1', 'Robot 1', at(RobotState.MANUAL, [0, 0]), 0);
+    tracker.update('r1', 'Robot 1', at(RobotState.AUTO, [1, 0]), 1000);
+    tracker.update('r1', 'Robot 1', at(RobotState.GOTO, [2, 0]), 3000);
+    tracker.update('r1', 'Robot 1', at(RobotState.IDLE, [2, 0]), 4000);
+
+    expect(tracker.getJobs()[0]).toMatchObject({
+      runtimeMs: 4000, manualMs: 1000, autoMs: 3000, cells: 2, stops: 1, visited: ['0,0', '1,0', '2,0']
+    });
+  });
+
+  it('counts halts, not mode changes, as stops', () => {
+    const tracker = new JobTracker();
+
+    tracker.update('r1', 'Robot 1', at(RobotState.MANUAL, [0, 0]), 0);
+    tracker.update('r1', 'Robot 1', at(RobotState.IDLE, [0, 0]), 1000);
+    tracker.update('r1', 'Robot 1', at(RobotState.MANUAL, [0, 0]), 2000);
+    tracker.update('r1', 'Robot 1', at(RobotState.MANUAL, [1, 0]), 3000);
+    expect(tracker.getJobs()[0].stops).toBe(0);
+
+    tracker.update('r1', 'Robot 1', at(RobotState.MANUAL, [1, 0]), 8000);
+    tracker.update('r1', 'Robot 1', at(RobotState.MANUAL, [1, 0]), 12000);
+    expect(tracker.getJobs()[0].stops).toBe(1);
+
+    tracker.update('r1', 'Robot 1', at(RobotState.MANUAL, [2, 0]), 13000);
+    tracker.noteCommand('r1', 'Robot 1', Command.STOP, 13500);
+    tracker.update('r1', 'Robot 1', at(RobotState.IDLE, [2, 0]), 14000);
+    expect(tracker.getJobs()[0].stops).toBe(2);
+  });
+
+  it('closes the job at its last activity once the robot has idled for the gap', () => {
+    const tracker = new JobTracker();
+
+    tracker.update('r1', 'Robot 1', at(RobotState.MANUAL, [0, 0]), 0);
+    tracker.update('r1', 'Robot 1', at(RobotState.IDLE, [1, 0]), 1000);
+    tracker.sweep(1000 + JOB_IDLE_GAP_MS);
+    expect(tracker.getJobs()[0].endedAt).toBeNull();
+
+    tracker.sweep(1001 + JOB_IDLE_GAP_MS);
+    expect(tracker.getJobs()[0].endedAt).toBe(1000);
+
+    tracker.update('r1', 'Robot 1', at(RobotState.MANUAL, [1, 0]), 2000 + JOB_IDLE_GAP_MS);
+    expect(tracker.getJobs()).toHaveLength(2);
+  });
+});
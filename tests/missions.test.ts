@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MissionRunner, parseMissions } from '../services/missions';
+import { EMPTY_TELEMETRY } from '../services/telemetry';
+import { Mission, RobotState } from '../types';
+
+const MISSION: Mission = {
+  id: 'm1',
+  name: 'Row 1',
+  steps: [
+    { id: 's1', kind: 'waypoint', cell: [2, 0] },
+    { id: 's2', kind: 'waypoint', cell: [2, 3] }
+  ],
+  updatedAt: 0
+};
+
+let sent: string[];
+let runner: MissionRunner;
+
+const report = (state: RobotState, pos: [number, number]) => runner.update({ ...EMPTY_TELEMETRY, state, pos });
+
+beforeEach(() => {
+  sent = [];
+  runner = new MissionRunner(async (cmd) => { sent.push(cmd); });
+  runner.start(MISSION);
+});
+
+describe('MissionRunner', () => {
+  it('moves on once the robot reaches the waypoint under GOTO', () => {
+    report(RobotState.GOTO, [1, 0]);
+    report(RobotState.GOTO, [2, 0]);
+
+    expect(sent).toEqual(['GOTO 2 0', 'GOTO 2 3']);
+    expect(runner.getProgress()).toMatchObject({ status: 'running', stepIndex: 1 });
+  });
+
+  it('completes after the last waypoint', () => {
+    report(RobotState.GOTO, [2, 0]);
+    report(RobotState.IDLE, [2, 0]);
+    report(RobotState.GOTO, [2, 3]);
+
+    expect(runner.getProgress().status).toBe('completed');
+  });
+
+  it('pauses when the robot reports ERROR', () => {
+    report(RobotState.GOTO, [1, 0]);
+    report(RobotState.ERROR, [1, 0]);
+
+    expect(runner.getProgress()).toMatchObject({ status: 'paused', stepIndex: 0, reason: 'Robot reported ERROR' });
+    expect(sent).toEqual(['GOTO 2 0', 'STOP']);
+  });
+
+  it('pauses when the robot halts short of the waypoint', () => {
+    report(RobotState.GOTO, [1, 0]);
+    report(RobotState.IDLE, [1, 0]);
+
+    expect(runner.getProgress()).toMatchObject({ status: 'paused', stepIndex: 0 });
+  });
+
+  it('does not move on when the operator drives onto the waypoint', () => {
+    report(RobotState.GOTO, [1, 0]);
+    report(RobotState.MANUAL, [2, 0]);
+
+    expect(runner.getProgress()).toMatchObject({ status: 'paused', stepIndex: 0 });
+    expect(sent).not.toContain('GOTO 2 3');
+  });
+
+  it('waits for GOTO after a stale manual frame', () => {
+    report(RobotState.MANUAL, [0, 0]);
+    report(RobotState.GOTO, [1, 0]);
+
+    expect(runner.getProgress()).toMatchObject({ status: 'running', stepIndex: 0 });
+  });
+
+  it('stays paused after an outside STOP, even on the waypoint', () => {
+    report(RobotState.GOTO, [1, 0]);
+    runner.interrupt();
+    report(RobotState.IDLE, [2, 0]);
+
+    expect(runner.getProgress()).toMatchObject({ status: 'paused', stepIndex: 0 });
+    expect(sent).toEqual(['GOTO 2 0']);
+  });
+
+  it('re-sends the current waypoint on resume', () => {
+    report(RobotState.ERROR, [1, 0]);
+    runner.resume();
+
+    expect(runner.getProgress()).toMatchObject({ status: 'running', reason: null });
+    expect(sent).toEqual(['GOTO 2 0', 'STOP', 'GOTO 2 0']);
+  });
+});
+
+describe('parseMissions', () => {
+  it('reads an exported mission file with fresh IDs', () => {
+    const [mission] = parseMissions(JSON.stringify({ version: 1, missions: [MISSION] }));
+
+    expect(mission.name).toBe('Row 1');
+    expect(mission.id).not.toBe('m1');
+    expect(mission.steps.map(s => s.kind === 'waypoint' && s.cell)).toEqual([[2, 0], [2, 3]]);
+  });
+
+  it('rejects malformed steps', () => {
+    expect(() => parseMissions(JSON.stringify([{ name: 'Bad', steps: [{ kind: 'waypoint', cell: [1] }] }])))
+      .toThrow('Invalid Bad step 1');
+    expect(() => parseMissions(JSON.stringify([null]))).toThrow('Mission #1 is missing a name or steps');
+  });
+});
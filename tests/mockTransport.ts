@@ -0,0 +1,106 @@
+import { Socket } from 'socket.io-client';
+import { RobotTransport } from '../services/api';
+
+type Handler = (...args: any[]) => void;
+
+export interface SentFrame {
+  event: string;
+  data: unknown;
+}
+
+export interface HttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: any;
+}
+
+/**
+ * Stand-in for a Socket.IO client. Tests play the robot's side with
+ * `connectNow`, `receive` and `drop`, and read what the dashboard sent
+ * from `sent`. Acked emits (echo, control) are never answered, so they
+ * time out the way they would against legacy firmware.
+ */
+export class FakeSocket {
+  connected = false;
+  sent: SentFrame[] = [];
+  // Manager events (reconnect attempts) are not simulated
+  io = { on: () => this.io };
+  private handlers = new Map<string, Handler[]>();
+
+  on(event: string, handler: Handler) {
+    this.handlers.set(event, [...(this.handlers.get(event) ?? []), handler]);
+    return this;
+  }
+
+  emit(event: string, data?: unknown) {
+    this.sent.push({ event, data });
+    return this;
+  }
+
+  timeout(_ms: number) {
+    return { emit: (event: string, data?: unknown) => this.emit(event, data) };
+  }
+
+  removeAllListeners() {
+    this.handlers.clear();
+    return this;
+  }
+
+  disconnect() {
+    this.drop();
+    return this;
+  }
+
+  connectNow() {
+    this.connected = true;
+    this.fire('connect');
+  }
+
+  drop() {
+    if (!this.connected) return;
+    this.connected = false;
+    this.fire('disconnect', 'io client disconnect');
+  }
+
+  /** Delivers a frame on the `message` event, as the robot would. */
+  receive(payload: unknown) {
+    this.fire('message', payload);
+  }
+
+  /** Command frames sent so far, oldest first. */
+  commands(): { cmd: string, id: string }[] {
+    return this.sent.filter(f => f.event === 'cmd').map(f => f.data as { cmd: string, id: string });
+  }
+
+  private fire(event: string, ...args: unknown[]) {
+    (this.handlers.get(event) ?? []).forEach(h => h(...args));
+  }
+}
+
+export interface MockTransport extends RobotTransport {
+  sockets: FakeSocket[];
+  requests: HttpRequest[];
+  // Answer for the next HTTP commands; an Error makes fetch reject
+  http: { status: number, text: string } | Error;
+}
+
+/** Transport that records sockets and HTTP requests instead of touching the network. */
+export function createMockTransport(): MockTransport {
+  const transport: MockTransport = {
+    sockets: [],
+    requests: [],
+    http: { status: 200, text: 'OK' },
+    createSocket: () => {
+      const socket = new FakeSocket();
+      transport.sockets.push(socket);
+      return socket as unknown as Socket;
+    },
+    fetch: async (url, init) => {
+      transport.requests.push({ url, headers: init.headers as Record<string, string>, body: JSON.parse(init.body as string) });
+      const answer = transport.http;
+      if (answer instanceof Error) throw answer;
+      return { ok: answer.status < 400, status: answer.status, text: async () => answer.text } as Response;
+    }
+  };
+  return transport;
+}
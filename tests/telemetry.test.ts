@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeTelemetry } from '../services/telemetry';
+import { Heading, RobotState } from '../types';
+
+describe('normalizeTelemetry', () => {
+  it('reads the current field names', () => {
+    expect(normalizeTelemetry({ us: 42, temp: 30.5, pressure: 1012, state: 'MANUAL', pos: [1, 2], dir: 'N' })).toEqual({
+      us: 42, temp: 30.5, pressure: 1012, state: RobotState.MANUAL, pos: [1, 2], dir: Heading.N
+    });
+  });
+
+  it('reads the short keys sent by older firmware', () => {
+    expect(normalizeTelemetry({ US: 42, T: 30.5, P: 1012, ST: 'AUTO', POS: [1, 2], DIR: 'W' })).toEqual({
+      us: 42, temp: 30.5, pressure: 1012, state: RobotState.AUTO, pos: [1, 2], dir: Heading.W
+    });
+  });
+
+  it('prefers the current name when both are present', () => {
+    expect(normalizeTelemetry({ us: 10, US: 99, T: 25 })).toEqual({ us: 10, temp: 25 });
+  });
+
+  it('returns only the fields in the packet', () => {
+    expect(normalizeTelemetry({ US: 12 })).toEqual({ us: 12 });
+    expect(normalizeTelemetry({})).toEqual({});
+  });
+
+  it('keeps explicit nulls so a failed sensor clears its reading', () => {
+    expect(normalizeTelemetry({ US: null, pos: null })).toEqual({ us: null, pos: null });
+  });
+
+  it('coerces numeric strings', () => {
+    expect(normalizeTelemetry({ US: '18', POS: ['3', '4'] })).toEqual({ us: 18, pos: [3, 4] });
+  });
+
+  it('maps legacy state IDs and headings in degrees', () => {
+    expect(normalizeTelemetry({ ST: 3, DIR: 180 })).toEqual({ state: RobotState.GOTO, dir: Heading.S });
+    expect(normalizeTelemetry({ ST: '4', DIR: 1 })).toEqual({ state: RobotState.ERROR, dir: Heading.E });
+  });
+
+  it('falls back to UNKNOWN for unrecognised state and heading values', () => {
+    expect(normalizeTelemetry({ ST: 'DANCING', DIR: 'up' })).toEqual({ state: RobotState.UNKNOWN, dir: Heading.UNKNOWN });
+  });
+});
@@ -1,17 +1,352 @@
+export enum RobotState {
+  UNKNOWN = 'UNKNOWN',
+  IDLE = 'IDLE',
+  MANUAL = 'MANUAL',
+  AUTO = 'AUTO',
+  GOTO = 'GOTO',
+  ERROR = 'ERROR'
+}
+
+export enum Heading {
+  UNKNOWN = 'UNKNOWN',
+  N = 'N',
+  E = 'E',
+  S = 'S',
+  W = 'W'
+}
+
 export interface TelemetryData {
   us: number | null;        // Ultrasonic distance (cm)
   temp: number | null;      // Temperature (C)
   pressure: number | null;  // Pressure (hPa)
-  state: number | string;   // Robot State ID or Name
+  state: RobotState;
   pos: [number, number] | null; // Grid Position [x, y]
-  dir: number | string;     // Direction
+  dir: Heading;
+}
+
+export interface TelemetryFrame {
+  t: number;                // Receive time (ms since epoch)
+  data: TelemetryData;      // Merged telemetry snapshot at that time
+}
+
+export type GridCell = [number, number];
+
+export interface GridMapState {
+  pos: GridCell | null;     // Current cell
+  heading: number | null;   // Compass degrees (0 = +Y)
+  trail: GridCell[];        // Visited cells, oldest first
+  obstacles: GridCell[];    // Cells flagged by the ultrasonic sensor
+}
+
+export type MissionStep =
+  | { id: string; kind: 'waypoint'; cell: GridCell }
+  | { id: string; kind: 'roller'; on: boolean };
+
+export interface Mission {
+  id: string;
+  name: string;
+  steps: MissionStep[];
+  updatedAt: number;
+}
+
+export type MissionStatus = 'idle' | 'running' | 'paused' | 'completed' | 'aborted';
+
+export interface MissionProgress {
+  missionId: string | null;
+  status: MissionStatus;
+  stepIndex: number;        // Index of the step being executed
+  reason: string | null;    // Why the runner paused the mission itself
+}
+
+export type CommandStatus = 'pending' | 'confirmed' | 'failed';
+
+export interface CommandRecord {
+  id: string;
+  cmd: string;
+  status: CommandStatus;
+  attempts: number;         // Transmissions so far (1 = no retries yet)
+  sentAt: number;
+  settledAt: number | null;
+  transport: Transport;
+  error: string | null;
+  operator: string | null;  // Signed-in operator when the command was sent
+}
+
+export type SafetyTripReason =
+  | 'estop'
+  | 'link-lost'
+  | 'page-hidden'
+  | 'window-blur'
+  | 'telemetry-stale'
+  | 'heartbeat-lapsed';
+
+export interface SafetyState {
+  estopLatched: boolean;
+  telemetryStale: boolean;
+  lastTrip: { reason: SafetyTripReason; at: number } | null;
+}
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+// `telemetryAge` is seconds since the last telemetry frame while connected;
+// `connection` compares against 'online' / 'offline'
+export type AlertMetric = 'us' | 'temp' | 'pressure' | 'state' | 'connection' | 'telemetryAge';
+
+export type AlertOperator = '<' | '>' | '=' | '!=';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  value: number | string;
+  forMs: number;            // Condition must hold this long before firing
+  severity: AlertSeverity;
+  autoStop: boolean;        // Send STOP when the rule fires
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  message: string;
+  firedAt: number;
+  resolvedAt: number | null;
+  acknowledgedAt: number | null;
+  snoozedUntil: number | null;
+}
+
+export interface AlertSettings {
+  sound: boolean;
+  notifications: boolean;
+}
+
+export type InputAction =
+  | 'forward' | 'back' | 'left' | 'right'
+  | 'stop' | 'auto' | 'manual'
+  | 'rollerToggle' | 'speedUp' | 'speedDown';
+
+export interface InputBindings {
+  keys: Record<InputAction, string[]>;      // KeyboardEvent.code values
+  buttons: Record<InputAction, number[]>;   // Standard-mapping gamepad button indices
+  keyboardEnabled: boolean;
+  gamepadEnabled: boolean;
+  stickDeadzone: number;                    // 0-1, left stick drives direction
+  speedTrigger: number | null;              // Analog button that sets drive PWM
+}
+
+export interface DriveConfig {
+  mode: 'linked' | 'independent';   // Linked = one PWM for both motors
+  left: number;                     // Left motor PWM (0-255)
+  right: number;                    // Right motor PWM (0-255)
+  trim: number;                     // Drift correction, -50..50 (+ slows right)
+}
+
+// A PWM tried during calibration and what the operator measured there
+export interface CalibrationPoint {
+  id: string;
+  pwm: number;
+  speed: number | null;       // Ground speed (cm/s) for drive, drum RPM for the roller
+  note: string;               // Torque, slip or pick quality observations
+}
+
+// Named speed set for a field condition, e.g. "wet ground" or "dry nuts"
+export interface CalibrationProfile {
+  id: string;
+  name: string;
+  left: number;               // Drive PWM applied with the profile
+  right: number;
+  roller: number;
+  drivePoints: CalibrationPoint[];
+  rollerPoints: CalibrationPoint[];
+  updatedAt: number;
 }
 
-export interface LogEntry {
+export interface RobotProfile {
   id: string;
-  timestamp: string;
+  name: string;
+  host: string;
+  port: number;
+  connection?: ConnectionSettings;  // Defaults apply when missing
+}
+
+// auto = WebSocket with the HTTP fallback; http = commands only, no telemetry
+export type TransportMode = 'auto' | 'ws' | 'http';
+
+export interface ConnectionSettings {
+  mode: TransportMode;
+  socketTransports: ('websocket' | 'polling')[];   // Socket.IO transports, in order
+  timeoutMs: number;                // Socket.IO connect timeout
+  reconnectionAttempts: number;
+  httpPath: string;                 // Command fallback endpoint
+  pingIntervalMs: number;           // Latency probe, 0 = off
+}
+
+export interface LinkDiagnostics {
+  mode: TransportMode;
+  connected: boolean;
+  connectedSince: number | null;
+  latencyMs: number | null;         // Last round trip, null if never answered
+  pingedAt: number | null;
+  reconnectAttempts: number;        // Since the last successful connect
+  reconnects: number;
+  rxPerSec: number;
+  txPerSec: number;
+  rxTotal: number;
+  txTotal: number;
+  commandsByTransport: Record<Transport, number>;
+  lastError: { time: number, message: string } | null;
+}
+
+export type OperatorRole = 'viewer' | 'operator';
+
+export interface Credentials {
+  operator: string;
+  token: string;
+}
+
+// What the robot granted this dashboard in the handshake (protocol v2+)
+export interface ControlSession {
+  role: OperatorRole;
+  operator: string | null;
+}
+
+// Dashboard currently allowed to send motion commands
+export interface ControlHolder {
+  clientId: string;
+  operator: string | null;
+}
+
+export interface AuditEntry {
+  id: string;
+  time: number;
+  robotId: string;
+  robotName: string;
+  operator: string | null;
+  self: boolean;            // Sent from this dashboard
+  cmd: string;
+  status: 'confirmed' | 'failed';
+  transport: Transport | null;  // Unknown for commands reported by the robot
+  error: string | null;
+  count: number;            // Identical commands in a burst, e.g. hold-to-move repeats
+}
+
+export interface FirmwareInfo {
+  protocol: number;           // 0 = legacy firmware without a handshake
+  version: string | null;
+  supported: boolean;
+}
+
+// Robot-reported settings from a STATUS reply. Fields the firmware left
+// out are null.
+export interface RobotSnapshot {
+  mode: RobotState | null;
+  roller: boolean | null;
+  lspd: number | null;
+  rspd: number | null;
+  rollerspd: number | null;
+  at: number;                 // Receive time
+}
+
+// Settings the dashboard sets and the robot reports back
+export type SyncField = 'roller' | 'lspd' | 'rspd' | 'rollerspd';
+
+export interface RobotStatus {
+  connected: boolean;
+  telemetry: TelemetryData;   // Latest merged telemetry
+  lastSeen: number | null;    // Time of last telemetry frame
+  firmware: FirmwareInfo | null;  // Null until the handshake settles
+  session: ControlSession | null; // Null for legacy firmware without auth
+  control: ControlHolder | null;
+  reported: RobotSnapshot | null; // Latest STATUS reply since connecting
+}
+
+export type Transport = 'ws' | 'http';
+
+export type LogType = 'tx' | 'rx' | 'sys';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// Which part of the system produced a log record
+export type LogSource = 'link' | 'command' | 'firmware' | 'protocol' | 'dashboard';
+
+export interface LogRecord {
+  time: number;             // ms since epoch
+  type: LogType;
+  level: LogLevel;
+  source: LogSource;
+  transport: Transport | null;
   message: string;
-  type: 'tx' | 'rx' | 'sys';
+}
+
+export interface LogEntry extends LogRecord {
+  id: string;
+}
+
+export interface SessionInfo {
+  id: string;
+  name: string;
+  robotId: string;
+  robotName: string;
+  startedAt: number;
+  endedAt: number | null;     // Null while still recording
+  eventCount: number;
+}
+
+// One recorded event. Times are epoch milliseconds.
+export type SessionEvent =
+  | { sessionId: string, t: number, kind: 'log', type: LogType, message: string, level?: LogLevel, source?: LogSource, transport?: Transport | null }
+  | { sessionId: string, t: number, kind: 'telemetry', data: Partial<TelemetryData> };
+
+export interface ReplayState {
+  session: SessionInfo;
+  playing: boolean;
+  position: number;           // ms since session start
+  duration: number;
+  speed: number;
+}
+
+// Work inferred from one robot's telemetry, from first movement until it
+// has sat idle for a while. Times are epoch milliseconds.
+export interface JobRecord {
+  id: string;
+  robotId: string;
+  robotName: string;
+  startedAt: number;
+  endedAt: number | null;     // Null while the job is open
+  lastActiveAt: number;
+  runtimeMs: number;          // Time spent moving, in any mode
+  autoMs: number;             // AUTO and GOTO
+  manualMs: number;
+  rollerMs: number;
+  cells: number;              // Grid cells travelled
+  stops: number;              // Times the robot came to a halt
+  visited: string[];          // Covered cells as "x,y" keys
+}
+
+// Plantation grid used for coverage. Row N is the cells with y = N.
+export interface PlotSize {
+  cols: number;
+  rows: number;
+}
+
+// Jobs rolled up for a report line: one job, or every job on one day
+export interface JobSummary {
+  key: string;
+  label: string;
+  robots: string[];
+  jobs: number;
+  startedAt: number;
+  endedAt: number | null;
+  runtimeMs: number;
+  autoMs: number;
+  manualMs: number;
+  rollerMs: number;
+  cells: number;
+  stops: number;
+  visited: string[];
 }
 
 export enum Command {
@@ -24,8 +359,11 @@ export enum Command {
   MANUAL = 'MANUAL',
   STATUS = 'STATUS',
   ROLLER_ON = 'ROLLER ON',
-  ROLLER_OFF = 'ROLLER OFF'
+  ROLLER_OFF = 'ROLLER OFF',
+  GOTO = 'GOTO'             // GOTO <x> <y>
 }
 
-export const ROBOT_HOST = window.location.hostname || '192.168.4.1';
+// Defaults for the first robot in the fleet registry
+// (guarded so the simulator can share these types under Node)
+export const ROBOT_HOST = (typeof window !== 'undefined' && window.location.hostname) || '192.168.4.1';
 export const ROBOT_PORT = 8765;
\ No newline at end of file
@@ -0,0 +1,10 @@
+/** Saves text as a file through a temporary object URL. */
+export function downloadText(filename: string, text: string, mime: string = 'text/plain') {
+  const blob = new Blob([text], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
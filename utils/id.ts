@@ -0,0 +1,4 @@
+/** Short random identifier for client-side records (logs, missions, etc.). */
+export function createId(): string {
+  return Math.random().toString(36).substr(2, 9);
+}
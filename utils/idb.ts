@@ -0,0 +1,104 @@
+const DB_NAME = 'arecabot';
+const DB_VERSION = 2;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use, creates) the dashboard's IndexedDB database.
+ * All object stores are declared here so schema upgrades live in one place.
+ */
+export function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains('sessions')) {
+        db.createObjectStore('sessions', { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains('events')) {
+        const events = db.createObjectStore('events', { autoIncrement: true });
+        events.createIndex('sessionId', 'sessionId');
+      }
+      // v2: mirror of the localStorage settings, see utils/storage.ts
+      if (!db.objectStoreNames.contains('settings')) {
+        db.createObjectStore('settings', { keyPath: 'key' });
+      }
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Let a newer tab upgrade the schema instead of blocking it
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function idbPut<T>(store: string, value: T): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).put(value);
+  return done(tx);
+}
+
+export async function idbPutMany<T>(store: string, values: T[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  const os = tx.objectStore(store);
+  values.forEach(v => os.put(v));
+  return done(tx);
+}
+
+export async function idbGet<T>(store: string, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDb();
+  return promisify<T | undefined>(db.transaction(store).objectStore(store).get(key));
+}
+
+export async function idbGetAll<T>(store: string): Promise<T[]> {
+  const db = await openDb();
+  return promisify<T[]>(db.transaction(store).objectStore(store).getAll());
+}
+
+export async function idbGetAllByIndex<T>(store: string, index: string, key: IDBValidKey): Promise<T[]> {
+  const db = await openDb();
+  return promisify<T[]>(db.transaction(store).objectStore(store).index(index).getAll(key));
+}
+
+export async function idbDelete(store: string, key: IDBValidKey): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).delete(key);
+  return done(tx);
+}
+
+export async function idbDeleteByIndex(store: string, index: string, key: IDBValidKey): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  const os = tx.objectStore(store);
+  const keys = await promisify<IDBValidKey[]>(os.index(index).getAllKeys(key));
+  keys.forEach(k => os.delete(k));
+  return done(tx);
+}
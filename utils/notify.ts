@@ -0,0 +1,44 @@
+let audio: AudioContext | null = null;
+
+/**
+ * Plays a short sine beep. Browsers only allow audio after a user gesture,
+ * so the first alarm before any click may be silent.
+ */
+export function beep(frequency: number, durationMs: number, repeats: number = 1) {
+  try {
+    audio = audio ?? new AudioContext();
+    const start = audio.currentTime;
+    for (let i = 0; i < repeats; i++) {
+      const osc = audio.createOscillator();
+      const gain = audio.createGain();
+      const t = start + i * (durationMs / 1000) * 1.5;
+      osc.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.2, t);
+      gain.gain.exponentialRampToValueAtTime(0.001, t + durationMs / 1000);
+      osc.connect(gain).connect(audio.destination);
+      osc.start(t);
+      osc.stop(t + durationMs / 1000);
+    }
+  } catch (e) {
+    // No audio support; alerts still show visually
+  }
+}
+
+export function notificationsSupported(): boolean {
+  return typeof Notification !== 'undefined';
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!notificationsSupported()) return 'denied';
+  return Notification.permission === 'default' ? Notification.requestPermission() : Notification.permission;
+}
+
+/** Shows a browser notification if permission has been granted. */
+export function notify(title: string, body: string, tag?: string) {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  try {
+    new Notification(title, { body, tag });
+  } catch (e) {
+    // Some mobile browsers only allow notifications from a service worker
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Registers the build's service worker (see pwa/sw.js). Not used in dev,
+ * where a cached bundle would shadow hot reloads.
+ */
+export function registerServiceWorker() {
+  if (!('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('./sw.js').catch(e => console.error('Service worker registration failed:', e));
+  });
+}
+
+/**
+ * Asks the browser not to evict our storage under pressure, so recorded
+ * sessions and settings outlive long stretches offline. Browsers may
+ * decline silently; that only matters when the device runs low on space.
+ */
+export function requestPersistentStorage() {
+  navigator.storage?.persist?.().catch(() => undefined);
+}
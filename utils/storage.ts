@@ -0,0 +1,112 @@
+import { idbDelete, idbGetAll, idbPutMany } from './idb';
+
+const PREFIX = 'arecabot.';
+const MIRROR_DELAY_MS = 500;
+
+/**
+ * Reads a JSON value from localStorage. Falls back when the key is missing,
+ * storage is unavailable (private mode) or the stored value is corrupt.
+ */
+export function loadJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = window.localStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : JSON.parse(raw) as T;
+  } catch (e) {
+    return fallback;
+  }
+}
+
+export function saveJson<T>(key: string, value: T) {
+  try {
+    window.localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (e: any) {
+    console.error(`Failed to persist ${key}:`, e);
+  }
+  queueMirror(key, value);
+}
+
+/** Drops a value from localStorage and its IndexedDB copy. */
+export function removeJson(key: string) {
+  try {
+    window.localStorage.removeItem(PREFIX + key);
+  } catch (e) {
+    // Storage unavailable; nothing was saved there
+  }
+  pendingMirror.delete(key);
+  idbDelete('settings', key).catch(e => console.error(`Failed to remove mirrored ${key}:`, e));
+}
+
+// Secrets go to sessionStorage instead: they are never mirrored and end
+// with the browser tab
+
+export function loadSessionJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = window.sessionStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : JSON.parse(raw) as T;
+  } catch (e) {
+    return fallback;
+  }
+}
+
+export function saveSessionJson<T>(key: string, value: T | null) {
+  try {
+    if (value === null) window.sessionStorage.removeItem(PREFIX + key);
+    else window.sessionStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to keep ${key}:`, e);
+  }
+}
+
+// ----------------------------------------------------------------------
+// IndexedDB mirror
+// ----------------------------------------------------------------------
+
+// Settings are also kept in IndexedDB, which browsers evict far less
+// eagerly than localStorage for installed apps. Writes are queued and
+// flushed together so dragging a slider doesn't open a transaction per step.
+
+interface SettingRecord {
+  key: string;
+  value: unknown;
+}
+
+const pendingMirror = new Map<string, unknown>();
+let mirrorTimer: ReturnType<typeof setTimeout> | null = null;
+
+function queueMirror(key: string, value: unknown) {
+  pendingMirror.set(key, value);
+  if (mirrorTimer === null) mirrorTimer = setTimeout(flushMirror, MIRROR_DELAY_MS);
+}
+
+function flushMirror() {
+  mirrorTimer = null;
+  const records: SettingRecord[] = [...pendingMirror].map(([key, value]) => ({ key, value }));
+  pendingMirror.clear();
+  idbPutMany('settings', records).catch(e => console.error('Failed to mirror settings:', e));
+}
+
+/**
+ * Fills whichever side is missing a setting: IndexedDB copies restore
+ * settings lost from localStorage, and settings saved before the mirror
+ * existed are copied into IndexedDB. Run before the first render.
+ */
+export async function restoreSettings(): Promise<void> {
+  try {
+    const stored = await idbGetAll<SettingRecord>('settings');
+    const mirrored = new Set(stored.map(r => r.key));
+    stored.forEach(r => {
+      if (window.localStorage.getItem(PREFIX + r.key) === null) {
+        window.localStorage.setItem(PREFIX + r.key, JSON.stringify(r.value));
+      }
+    });
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const name = window.localStorage.key(i);
+      if (!name?.startsWith(PREFIX) || mirrored.has(name.slice(PREFIX.length))) continue;
+      const key = name.slice(PREFIX.length);
+      const value = loadJson<unknown>(key, undefined);
+      if (value !== undefined) queueMirror(key, value);
+    }
+  } catch (e) {
+    console.error('Failed to restore settings:', e);
+  }
+}
@@ -1,15 +1,32 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from 'tailwindcss';
+import autoprefixer from 'autoprefixer';
+import { viteSingleFile } from 'vite-plugin-singlefile';
+import { pwa } from './pwa/plugin';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // `--mode compact` inlines all JS and CSS into one gzipped index.html
+    // small enough to serve from the robot's controller
+    const compact = mode === 'compact';
     return {
+      base: './',
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), ...(compact ? [viteSingleFile()] : []), pwa({ gzip: compact })],
+      css: {
+        postcss: {
+          plugins: [tailwindcss(), autoprefixer()],
+        }
+      },
+      build: {
+        outDir: compact ? 'dist-compact' : 'dist',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -18,6 +35,11 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        include: ['tests/**/*.test.{ts,tsx}'],
+        setupFiles: ['tests/setup.ts'],
       }
     };
 });